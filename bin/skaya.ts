@@ -7,16 +7,17 @@
  */
 
 import { Command } from "commander";
-import { createProject, createFile, updateFile, startProjects, installComponents } from "../src/action";
-import { ProjectType, ComponentType, FrontendComponentType, BackendComponentType, BlokchainComponentType } from "./types/enums";
-import { ICommandOptions, ICreateComponentParams } from "./types/interfaces";
-import { isValidProjectType, isValidFrontendComponent, isValidBackendComponent } from "./utils/validator";
-import { promptComponentType } from "./utils/prompt";
+import { createProject, createFile, updateFile, removeFile, renameFile, listComponents, graphComponents, syncComponents, undoLastChange, redoLastChange, showHistory, ejectPromptTemplates, clearAICache, showAIUsage, startProjects, installComponents } from "../src/action";
+import { ProjectType, ComponentType, FrontendComponentType, BackendComponentType, BlokchainComponentType, ApiType, AIProviderType, AIResponseMode, GraphFormat, UsageGrouping } from "./types/enums";
+import { ApiEndpointConfig, ICommandOptions, ICreateCommandOptions, ICreateComponentParams, ICreateSpec } from "./types/interfaces";
+import { isValidProjectType, isValidFrontendComponent, isValidBackendComponent, isValidBlockchainComponent, isValidAIProvider, isValidAIResponseMode, isValidGraphFormat, isValidUsageGrouping } from "./utils/validator";
+import { promptAnswers, promptComponentType, setPresetAnswers } from "./utils/prompt";
+import { loadCreateSpec, parseImportFlags, toPresetAnswers } from "./utils/createSpec";
 import { handleCliError } from "./utils/errorHandler";
 import inquirer from "inquirer";
 import { readFileSync } from "fs";
-import { join } from "path";
-import { logComponentCreation } from "./utils/configLogger";
+import { basename, extname, join } from "path";
+import { ComponentConfig, logComponentCreation, readConfig } from "./utils/configLogger";
 import { scanExistingComponents } from "./utils/ProjectScanner";
 
 // Read package.json to get version
@@ -71,18 +72,63 @@ program
   .command("create [type]")
   .allowUnknownOption()
   .description("Create a new component (interactive mode if no type specified)")
-  .option(`-p, --project <type>", "Project type (${ProjectType.FRONTEND} or ${ProjectType.BACKEND}) or ${ProjectType.BLOCKCHAIN}`)
+  .option("-p, --project <type>", `Project type (${ProjectType.FRONTEND}, ${ProjectType.BACKEND} or ${ProjectType.BLOCKCHAIN})`)
   .option("-f, --filename <name>", "Filename for the component")
-  .option("-a, --ai <boolean>", "Use AI to generate the component", false)
+  .option("-a, --ai", "Use AI to generate the component")
+  .option("--no-ai", "Generate the component from templates only")
   .option("-d, --description <text>", "Description of the component")
-  .action(async (type: string | undefined, options: ICommandOptions & { filename?: string; ai?: boolean; description?: string }) => {
+  .option("--folder <path>", "Folder to create the component in")
+  .option("-i, --import <type:name...>", "Existing components to import, e.g. component:Button")
+  .option("--api-type <type>", `API type (${Object.values(ApiType).join(" or ")})`)
+  .option("--api-id <id>", "API endpoint id", (value: string) => Number(value))
+  .option("--api-auth", "API endpoint requires auth")
+  .option("--no-api-auth", "API endpoint does not require auth")
+  .option("--api-url <url>", "API endpoint URL")
+  .option("--api-method <method>", "API endpoint HTTP method")
+  .option("--from-openapi <file>", "OpenAPI 3 document (YAML or JSON) to generate the API endpoints and slices from")
+  .option("--contract <name>", "Compiled contract to generate a contract-client from")
+  .option("--provider <name>", `AI provider (${Object.values(AIProviderType).join(", ")})`)
+  .option("--model <name>", "AI model, e.g. gemini-2.0-flash or gpt-4o")
+  .option("--response-mode <mode>", `How files are requested from the model (${Object.values(AIResponseMode).join(" or ")})`)
+  .option("-s, --spec <file>", "JSON file with answers for a non-interactive run")
+  .option("--non-interactive", "Fail on missing answers instead of prompting")
+  .option("-y, --yes", "Write AI output without reviewing the diffs")
+  .option("--dry-run", "Print the diffs of the files that would be written and write nothing")
+  .option("--verify", "Run the generated tests after saving and have the AI fix failures")
+  .option("--no-cache", "Ask the AI again instead of reusing cached responses")
+  .action(async (type: string | undefined, options: ICommandOptions & ICreateCommandOptions) => {
     try {
+      const spec = options.spec ? await loadCreateSpec(options.spec) : {};
+      const nonInteractive = !!(options.nonInteractive || options.spec);
+      const mergedSpec: ICreateSpec = {
+        ...spec,
+        project: options.project || spec.project,
+        type: (type || spec.type) as ComponentType | undefined,
+        filename: options.filename || spec.filename,
+        folder: options.folder ?? spec.folder,
+        ai: options.ai ?? spec.ai,
+        description: options.description ?? spec.description,
+        imports: parseImportFlags(options.import) || spec.imports,
+        contract: options.contract ?? spec.contract,
+        api: {
+          ...spec.api,
+          ...(options.apiType !== undefined && { type: options.apiType }),
+          ...(options.apiId !== undefined && { id: options.apiId }),
+          ...(options.apiAuth !== undefined && { auth: options.apiAuth }),
+          ...(options.apiUrl !== undefined && { url: options.apiUrl }),
+          ...(options.apiMethod !== undefined && { method: options.apiMethod.toUpperCase() as ApiEndpointConfig["method"] }),
+          ...(options.fromOpenapi !== undefined && { openapi: options.fromOpenapi }),
+        },
+      };
+      setPresetAnswers(toPresetAnswers(mergedSpec, nonInteractive), { nonInteractive });
+
+      type = mergedSpec.type;
       let projectType: ProjectType;
       let componentType: ComponentType;
-      let fileName = options.filename;
+      let fileName = mergedSpec.filename;
       // Interactive mode
-      if (!type && !options.project) {
-        const answers = await inquirer.prompt([
+      if (!type && !mergedSpec.project) {
+        const answers = await promptAnswers([
           {
             type: 'list',
             name: 'projectType',
@@ -118,16 +164,16 @@ program
         fileName = fileName || answers.fileName;
       }
       // Partial interactive (project type specified)
-      else if (!type && options.project) {
-        projectType = options.project.toLowerCase() as ProjectType;
+      else if (!type && mergedSpec.project) {
+        projectType = mergedSpec.project.toLowerCase() as ProjectType;
         if (!isValidProjectType(projectType)) {
-          throw new Error(`Invalid project type. Use '${ProjectType.FRONTEND}' or '${ProjectType.BACKEND}'.`);
+          throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
         }
 
         componentType = await promptComponentType(projectType);
 
         // Prompt for additional info if not provided
-        const additionalAnswers = await inquirer.prompt([
+        const additionalAnswers = await promptAnswers([
           {
             type: 'input',
             name: 'fileName',
@@ -141,10 +187,10 @@ program
       }
       // Non-interactive mode
       else {
-        projectType = options.project?.toLowerCase() as ProjectType || ProjectType.FRONTEND;
+        projectType = mergedSpec.project?.toLowerCase() as ProjectType || ProjectType.FRONTEND;
 
         if (!isValidProjectType(projectType)) {
-          throw new Error(`Invalid project type. Use '${ProjectType.FRONTEND}' or '${ProjectType.BACKEND}'.`);
+          throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
         }
 
         if (projectType === ProjectType.FRONTEND && type && !isValidFrontendComponent(type)) {
@@ -153,27 +199,54 @@ program
         if (projectType === ProjectType.BACKEND && type && !isValidBackendComponent(type)) {
           throw new Error(`Invalid backend component type '${Object.values(BackendComponentType).join("' or '")}'.`);
         }
+        if (projectType === ProjectType.BLOCKCHAIN && type && !isValidBlockchainComponent(type)) {
+          throw new Error(`Invalid blockchain component type. Use '${Object.values(BlokchainComponentType).join("' or '")}'.`);
+        }
         componentType = type as ComponentType;
 
       }
+      const openApiSpec = mergedSpec.api?.openapi;
+      if (openApiSpec && componentType !== FrontendComponentType.API) {
+        throw new Error(`--from-openapi only applies to ${FrontendComponentType.API} components.`);
+      }
+      // Named after the document by default, so re-runs update the same component
+      fileName = fileName || (openApiSpec && basename(openApiSpec, extname(openApiSpec)));
       if (!fileName) {
         throw new Error('Filename is required to save the AI_generated component')
       }
       fileName = fileName.charAt(0).toUpperCase() + fileName.slice(1).toLowerCase();
 
+      const provider = options.provider || mergedSpec.provider;
+      if (provider && !isValidAIProvider(provider)) {
+        throw new Error(`Invalid AI provider "${provider}". Use '${Object.values(AIProviderType).join("', '")}'.`);
+      }
+      if (options.responseMode && !isValidAIResponseMode(options.responseMode)) {
+        throw new Error(`Invalid response mode "${options.responseMode}". Use '${Object.values(AIResponseMode).join("' or '")}'.`);
+      }
+
       const params: ICreateComponentParams = {
         componentType,
         projectType,
         fileName,
+        provider: provider as AIProviderType | undefined,
+        model: options.model || mergedSpec.model,
+        yes: options.yes,
+        dryRun: options.dryRun,
+        verify: options.verify,
+        responseMode: options.responseMode as AIResponseMode | undefined,
+        cache: options.cache,
+        openApiSpec,
       };
 
       await createFile(params);
-      // Log the component creation
-      await logComponentCreation({
-        componentType,
-        projectType,
-        fileName,
-      });
+      if (!options.dryRun) {
+        // Log the component creation
+        await logComponentCreation({
+          componentType,
+          projectType,
+          fileName,
+        });
+      }
     } catch (error) {
       handleCliError(error as Error, "component creation");
     }
@@ -184,11 +257,26 @@ program
   .command("update [type]")
   .allowUnknownOption()
   .description("Update an existing component (interactive mode)")
-  .option(`-p, --project <type>", "Project type (${ProjectType.FRONTEND} or ${ProjectType.BACKEND}) or ${ProjectType.BLOCKCHAIN}`)
-  .option("-a, --ai <boolean>", "Use AI to update the component", false)
+  .option("-p, --project <type>", `Project type (${ProjectType.FRONTEND}, ${ProjectType.BACKEND} or ${ProjectType.BLOCKCHAIN})`)
+  .option("-a, --ai", "Use AI to update the component")
+  .option("--no-ai", "Update the component without AI")
   .option("-d, --description <text>", "New description of the component")
-  .action(async (type: string | undefined, options: ICommandOptions & { ai?: boolean; description?: string }) => {
+  .option("--provider <name>", `AI provider (${Object.values(AIProviderType).join(", ")})`)
+  .option("--model <name>", "AI model, e.g. gemini-2.0-flash or gpt-4o")
+  .option("--response-mode <mode>", `How files are requested from the model (${Object.values(AIResponseMode).join(" or ")})`)
+  .option("-y, --yes", "Write AI output without reviewing the diffs")
+  .option("--dry-run", "Print the diffs of the files that would be written and write nothing")
+  .option("--verify", "Run the generated tests after saving and have the AI fix failures")
+  .option("--no-cache", "Ask the AI again instead of reusing cached responses")
+  .action(async (type: string | undefined, options: ICommandOptions & { ai?: boolean; description?: string; provider?: string; model?: string; yes?: boolean; dryRun?: boolean; verify?: boolean; responseMode?: string; cache?: boolean }) => {
     try {
+      setPresetAnswers({ useAI: options.ai, description: options.description });
+      if (options.provider && !isValidAIProvider(options.provider)) {
+        throw new Error(`Invalid AI provider "${options.provider}". Use '${Object.values(AIProviderType).join("', '")}'.`);
+      }
+      if (options.responseMode && !isValidAIResponseMode(options.responseMode)) {
+        throw new Error(`Invalid response mode "${options.responseMode}". Use '${Object.values(AIResponseMode).join("' or '")}'.`);
+      }
       let projectType: ProjectType;
       let componentType: ComponentType;
       
@@ -206,7 +294,7 @@ program
       } else {
         projectType = options.project.toLowerCase() as ProjectType;
         if (!isValidProjectType(projectType)) {
-          throw new Error(`Invalid project type. Use '${ProjectType.FRONTEND}' or '${ProjectType.BACKEND}'.`);
+          throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
         }
       }
 
@@ -220,6 +308,9 @@ program
         if (projectType === ProjectType.BACKEND && !isValidBackendComponent(type)) {
           throw new Error(`Invalid backend component type '${Object.values(BackendComponentType).join("' or '")}'.`);
         }
+        if (projectType === ProjectType.BLOCKCHAIN && !isValidBlockchainComponent(type)) {
+          throw new Error(`Invalid blockchain component type. Use '${Object.values(BlokchainComponentType).join("' or '")}'.`);
+        }
         componentType = type as ComponentType;
       }
 
@@ -247,15 +338,214 @@ program
         componentType,
         projectType,
         fileName: selectedComponent,
+        provider: options.provider as AIProviderType | undefined,
+        model: options.model,
+        yes: options.yes,
+        dryRun: options.dryRun,
+        verify: options.verify,
+        responseMode: options.responseMode as AIResponseMode | undefined,
+        cache: options.cache,
       };
 
       await updateFile(params);
-      console.log(`✅ Successfully updated ${componentType} component: ${selectedComponent}`);
+      if (!options.dryRun) {
+        console.log(`✅ Successfully updated ${componentType} component: ${selectedComponent}`);
+      }
     } catch (error) {
       handleCliError(error as Error, "component update");
     }
   });
 
+program
+  .command("remove <type> <name>")
+  .description("Delete a component and clean up its config entry and references")
+  .option("-p, --project <type>", `Project type (${ProjectType.FRONTEND}, ${ProjectType.BACKEND} or ${ProjectType.BLOCKCHAIN})`)
+  .option("--force", "Remove the component even if other components still import it")
+  .option("-y, --yes", "Delete without asking for confirmation")
+  .action(async (type: string, name: string, options: ICommandOptions & { force?: boolean; yes?: boolean }) => {
+    try {
+      setPresetAnswers({ confirmRemove: options.yes || undefined });
+      const projectType = await resolveComponentProject(type, name, options.project);
+
+      await removeFile({
+        componentType: type as ComponentType,
+        projectType,
+        fileName: name,
+        force: options.force,
+      });
+    } catch (error) {
+      handleCliError(error as Error, "component removal");
+    }
+  });
+
+program
+  .command("rename <type> <old> <new>")
+  .description("Rename a component across its files, config entry and importers")
+  .option("-p, --project <type>", `Project type (${ProjectType.FRONTEND}, ${ProjectType.BACKEND} or ${ProjectType.BLOCKCHAIN})`)
+  .action(async (type: string, oldName: string, newName: string, options: ICommandOptions) => {
+    try {
+      const projectType = await resolveComponentProject(type, oldName, options.project);
+
+      await renameFile({
+        componentType: type as ComponentType,
+        projectType,
+        fileName: oldName,
+        newName: newName.charAt(0).toUpperCase() + newName.slice(1).toLowerCase(),
+      });
+    } catch (error) {
+      handleCliError(error as Error, "component rename");
+    }
+  });
+
+program
+  .command("list")
+  .description("List the components recorded in skaya.config.json")
+  .option("-p, --project <type>", `Only list components of a project (${Object.values(ProjectType).join(", ")})`)
+  .option("-t, --type <type>", "Only list components of a type, e.g. component or route")
+  .option("-s, --source <source>", "Only list components generated by 'ai', from 'template' or found by sync ('manual')")
+  .option("--json", "Print the components as JSON")
+  .action(async (options: ICommandOptions & { type?: string; source?: string; json?: boolean }) => {
+    try {
+      if (options.project && !isValidProjectType(options.project)) {
+        throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
+      }
+      if (options.source && !["ai", "template", "manual"].includes(options.source)) {
+        throw new Error(`Invalid source. Use 'ai', 'template' or 'manual'.`);
+      }
+
+      await listComponents(
+        {
+          projectType: options.project,
+          componentType: options.type,
+          source: options.source as ComponentConfig["source"] | undefined,
+        },
+        options.json
+      );
+    } catch (error) {
+      handleCliError(error as Error, "component listing");
+    }
+  });
+
+program
+  .command("graph")
+  .description("Show which components import each other, with cycles and unused components")
+  .option("-p, --project <type>", `Only graph components of a project (${Object.values(ProjectType).join(", ")})`)
+  .option("-f, --format <format>", `Output format (${Object.values(GraphFormat).join(", ")})`, GraphFormat.TEXT)
+  .action(async (options: ICommandOptions & { format: string }) => {
+    try {
+      if (options.project && !isValidProjectType(options.project)) {
+        throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
+      }
+      if (!isValidGraphFormat(options.format)) {
+        throw new Error(`Invalid graph format. Use '${Object.values(GraphFormat).join("', '")}'.`);
+      }
+
+      await graphComponents(options.format, options.project);
+    } catch (error) {
+      handleCliError(error as Error, "component graph");
+    }
+  });
+
+program
+  .command("sync")
+  .description("Reconcile skaya.config.json with the components on disk")
+  .option("-p, --project <type>", `Only sync components of a project (${Object.values(ProjectType).join(", ")})`)
+  .option("--check", "Report drift without writing the config, exiting non-zero if there is any")
+  .action(async (options: ICommandOptions & { check?: boolean }) => {
+    try {
+      if (options.project && !isValidProjectType(options.project)) {
+        throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
+      }
+
+      await syncComponents({ check: options.check, projectType: options.project });
+    } catch (error) {
+      handleCliError(error as Error, "config sync");
+    }
+  });
+
+program
+  .command("undo")
+  .description("Revert the latest create or update, unless its files were edited since")
+  .action(async () => {
+    try {
+      await undoLastChange();
+    } catch (error) {
+      handleCliError(error as Error, "undo");
+    }
+  });
+
+program
+  .command("redo")
+  .description("Re-apply the most recently undone create or update")
+  .action(async () => {
+    try {
+      await redoLastChange();
+    } catch (error) {
+      handleCliError(error as Error, "redo");
+    }
+  });
+
+program
+  .command("history")
+  .description("List the recorded creates and updates that undo and redo step through")
+  .option("--json", "Print the entries, including file contents, as JSON")
+  .action(async (options: { json?: boolean }) => {
+    try {
+      await showHistory(options.json);
+    } catch (error) {
+      handleCliError(error as Error, "history");
+    }
+  });
+
+const prompts = program
+  .command("prompts")
+  .description("Manage the prompt templates used for AI generation");
+
+prompts
+  .command("eject")
+  .description("Copy the default prompt templates to .skaya/prompts, where they override the defaults")
+  .option("--force", "Overwrite templates that were already ejected")
+  .action(async (options: { force?: boolean }) => {
+    try {
+      await ejectPromptTemplates(options.force);
+    } catch (error) {
+      handleCliError(error as Error, "prompt eject");
+    }
+  });
+
+const cache = program
+  .command("cache")
+  .description("Manage the cache of AI responses");
+
+cache
+  .command("clear")
+  .description("Delete the cached AI responses in .skaya/cache/ai")
+  .action(async () => {
+    try {
+      await clearAICache();
+    } catch (error) {
+      handleCliError(error as Error, "cache clear");
+    }
+  });
+
+program
+  .command("usage")
+  .description("Sum the tokens and estimated cost of the AI calls logged in Skayalogs.log")
+  .option("--by <grouping>", `Only sum by one of ${Object.values(UsageGrouping).join(", ")}`)
+  .option("--json", "Print the logged calls as JSON")
+  .action(async (options: { by?: string; json?: boolean }) => {
+    try {
+      const grouping = options.by;
+      if (grouping && !isValidUsageGrouping(grouping)) {
+        throw new Error(`Invalid usage grouping. Use '${Object.values(UsageGrouping).join("', '")}'.`);
+      }
+
+      await showAIUsage(grouping ? [grouping as UsageGrouping] : Object.values(UsageGrouping), options.json);
+    } catch (error) {
+      handleCliError(error as Error, "usage report");
+    }
+  });
+
   program
   .command("start")
   .description("Start development environment(s) for your project(s)")
@@ -347,6 +637,58 @@ program
     }
   });
 
+/**
+ * Resolves the project of an existing component for `remove` and `rename`:
+ * the --project option, else the only project whose config has a component
+ * of this type and name, else the user's choice. Validates the type.
+ * @param {string} type - The component type argument
+ * @param {string} name - The component name argument
+ * @param {string} project - The --project option
+ * @returns {Promise<ProjectType>} The project type
+ */
+async function resolveComponentProject(type: string, name: string, project?: string): Promise<ProjectType> {
+  let projectType: ProjectType;
+
+  if (project) {
+    projectType = project.toLowerCase() as ProjectType;
+    if (!isValidProjectType(projectType)) {
+      throw new Error(`Invalid project type. Use '${Object.values(ProjectType).join("', '")}'.`);
+    }
+  } else {
+    const config = await readConfig();
+    const owners = Object.values(ProjectType).filter((candidate) =>
+      Object.entries(config[candidate]?.components || {}).some(
+        ([componentName, component]) =>
+          componentName.toLowerCase() === name.toLowerCase() && component.componentType === type
+      )
+    );
+    if (owners.length === 1) {
+      projectType = owners[0];
+    } else {
+      const { projectType: selectedProject } = await promptAnswers([
+        {
+          type: 'list',
+          name: 'projectType',
+          message: 'Select project type:',
+          choices: Object.values(ProjectType)
+        }
+      ]);
+      projectType = selectedProject;
+    }
+  }
+
+  if (projectType === ProjectType.FRONTEND && !isValidFrontendComponent(type)) {
+    throw new Error(`Invalid frontend component type. Use '${Object.values(FrontendComponentType).join("' or '")}'.`);
+  }
+  if (projectType === ProjectType.BACKEND && !isValidBackendComponent(type)) {
+    throw new Error(`Invalid backend component type '${Object.values(BackendComponentType).join("' or '")}'.`);
+  }
+  if (projectType === ProjectType.BLOCKCHAIN && !isValidBlockchainComponent(type)) {
+    throw new Error(`Invalid blockchain component type. Use '${Object.values(BlokchainComponentType).join("' or '")}'.`);
+  }
+  return projectType;
+}
+
 // Parse CLI arguments
 program.parseAsync(process.argv).catch((error) => {
   handleCliError(error, "argument parsing");
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { create{{Component}}, list{{Component}} } from './controller';
+
+const mockResponse = () => {
+  const res = {} as Response;
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  res.end = vi.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('{{Component}} handlers', () => {
+  it('lists {{component}}', async () => {
+    const res = mockResponse();
+    await list{{Component}}({} as Request, res, vi.fn());
+    expect(res.json).toHaveBeenCalledWith({ data: [] });
+  });
+
+  it('creates a {{component}} entry', async () => {
+    const res = mockResponse();
+    await create{{Component}}({ body: { name: 'Example' } } as Request, res, vi.fn());
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ data: { name: 'Example' } });
+  });
+});
@@ -0,0 +1,45 @@
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Request handlers for {{Component}}. Business logic lives here; the router
+ * only maps paths onto these handlers.
+ */
+export const list{{Component}} = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: [] });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const get{{Component}}ById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: { id: req.params.id } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const create{{Component}} = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(201).json({ data: req.body });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const update{{Component}} = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: { id: req.params.id, ...req.body } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const delete{{Component}} = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,11 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Request, Response } from 'express';
+import {{component}}Middleware from './middleware';
+
+describe('{{Component}} handler', () => {
+  it('passes the request on', () => {
+    const next = vi.fn();
+    {{component}}Middleware({} as Request, {} as Response, next);
+    expect(next).toHaveBeenCalledWith();
+  });
+});
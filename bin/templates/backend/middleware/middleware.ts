@@ -0,0 +1,15 @@
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * {{Component}} request handler that runs before the matched endpoint.
+ * Call next() to continue, or next(error) to hand off to the error handler.
+ */
+export const {{component}}Middleware = (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {{component}}Middleware;
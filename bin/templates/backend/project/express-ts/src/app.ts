@@ -0,0 +1,21 @@
+import express from 'express';
+import cors from 'cors';
+import router from './routes';
+import { errorHandler, notFoundHandler } from './middlewares/errorHandler';
+
+const app = express();
+
+app.use(cors());
+app.use(express.json());
+
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok' });
+});
+
+app.use('/api', router);
+
+// Must stay last: unmatched requests, then errors from any handler above
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
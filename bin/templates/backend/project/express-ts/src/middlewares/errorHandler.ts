@@ -0,0 +1,28 @@
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Error carrying the HTTP status to respond with
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new HttpError(404, `Not found: ${req.method} ${req.originalUrl}`));
+};
+
+// Express recognises error middleware by its four parameters, so `_next` must stay
+export const errorHandler = (err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  const status = err instanceof HttpError ? err.status : 500;
+
+  if (status >= 500) {
+    console.error(err);
+  }
+
+  res.status(status).json({
+    error: status >= 500 ? 'Internal server error' : err.message,
+  });
+};
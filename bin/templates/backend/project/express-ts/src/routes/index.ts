@@ -0,0 +1,7 @@
+import { Router } from 'express';
+
+const router = Router();
+
+// Routes created with `skaya create route` are registered here
+
+export default router;
@@ -0,0 +1,8 @@
+import 'dotenv/config';
+import app from './app';
+
+const port = Number(process.env.PORT) || 4000;
+
+app.listen(port, () => {
+  console.log(`🚀 Server listening on http://localhost:${port}`);
+});
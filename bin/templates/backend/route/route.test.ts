@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import router from './route';
+
+const app = express();
+app.use(express.json());
+app.use('/{{component}}', router);
+
+describe('{{Component}} endpoints', () => {
+  it('lists {{component}}', async () => {
+    const response = await request(app).get('/{{component}}');
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([]);
+  });
+
+  it('creates a {{component}} entry', async () => {
+    const response = await request(app).post('/{{component}}').send({ name: 'Example' });
+    expect(response.status).toBe(201);
+    expect(response.body.data).toEqual({ name: 'Example' });
+  });
+
+  it('deletes a {{component}} entry', async () => {
+    const response = await request(app).delete('/{{component}}/1');
+    expect(response.status).toBe(204);
+  });
+});
@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response, Router } from 'express';
+
+/**
+ * {{Component}} endpoints. Mounted at /{{component}} by the router index.
+ */
+const router = Router();
+
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: [] });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: { id: req.params.id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(201).json({ data: req.body });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: { id: req.params.id, ...req.body } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
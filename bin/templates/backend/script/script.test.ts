@@ -0,0 +1,8 @@
+import { describe, it, expect } from 'vitest';
+import { run{{Component}} } from './script';
+
+describe('run{{Component}}', () => {
+  it('completes', async () => {
+    await expect(run{{Component}}()).resolves.toBeUndefined();
+  });
+});
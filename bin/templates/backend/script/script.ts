@@ -0,0 +1,17 @@
+import 'dotenv/config';
+
+/**
+ * {{Component}} task. Run it with `npx tsx` on this file, or import run{{Component}}.
+ */
+export async function run{{Component}}(): Promise<void> {
+  console.log('Running {{Component}}');
+}
+
+if (require.main === module) {
+  run{{Component}}()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title {{Component}}
+/// @notice Stores a value that only the deployer can change
+contract {{Component}} {
+    address public immutable owner;
+    uint256 public value;
+
+    event ValueChanged(uint256 previousValue, uint256 newValue);
+
+    error NotOwner(address caller);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner(msg.sender);
+        _;
+    }
+
+    constructor(uint256 initialValue) {
+        owner = msg.sender;
+        value = initialValue;
+    }
+
+    function setValue(uint256 newValue) external onlyOwner {
+        emit ValueChanged(value, newValue);
+        value = newValue;
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Script, console} from "forge-std/Script.sol";
+import {{{Component}}} from "../src/contracts/{{Component}}/{{Component}}.sol";
+
+/// @notice Deploys {{Component}}. Run with
+/// `forge script script/{{Component}}.s.sol --rpc-url $RPC_URL --private-key $PRIVATE_KEY --broadcast`
+contract Deploy{{Component}} is Script {
+    function run() external returns ({{Component}} deployed) {
+        vm.startBroadcast();
+        deployed = new {{Component}}(0);
+        vm.stopBroadcast();
+
+        console.log("{{Component}} deployed to", address(deployed));
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {{{Component}}} from "../src/contracts/{{Component}}/{{Component}}.sol";
+
+contract {{Component}}Test is Test {
+    event ValueChanged(uint256 previousValue, uint256 newValue);
+
+    {{Component}} internal instance;
+    address internal other = makeAddr("other");
+
+    function setUp() public {
+        instance = new {{Component}}(42);
+    }
+
+    function test_StoresInitialValueAndOwner() public view {
+        assertEq(instance.value(), 42);
+        assertEq(instance.owner(), address(this));
+    }
+
+    function test_OwnerCanChangeValue() public {
+        vm.expectEmit(true, true, true, true);
+        emit ValueChanged(42, 7);
+        instance.setValue(7);
+
+        assertEq(instance.value(), 7);
+    }
+
+    function test_RevertWhen_CallerIsNotOwner() public {
+        vm.prank(other);
+        vm.expectRevert(abi.encodeWithSelector({{Component}}.NotOwner.selector, other));
+        instance.setValue(7);
+    }
+}
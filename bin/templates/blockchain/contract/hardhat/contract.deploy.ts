@@ -0,0 +1,16 @@
+import { ethers } from "hardhat";
+
+/**
+ * Deploys {{Component}}. Run with `npx hardhat run scripts/{{Component}}.deploy.ts --network <network>`
+ */
+async function main() {
+  const {{component}} = await ethers.deployContract("{{Component}}", [0]);
+  await {{component}}.waitForDeployment();
+
+  console.log(`{{Component}} deployed to ${await {{component}}.getAddress()}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
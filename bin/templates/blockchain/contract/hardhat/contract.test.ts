@@ -0,0 +1,35 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+describe("{{Component}}", () => {
+  async function deploy{{Component}}() {
+    const [owner, other] = await ethers.getSigners();
+    const {{component}} = await ethers.deployContract("{{Component}}", [42]);
+    return { {{component}}, owner, other };
+  }
+
+  it("stores the initial value and the deployer as owner", async () => {
+    const { {{component}}, owner } = await loadFixture(deploy{{Component}});
+
+    expect(await {{component}}.value()).to.equal(42n);
+    expect(await {{component}}.owner()).to.equal(owner.address);
+  });
+
+  it("lets the owner change the value", async () => {
+    const { {{component}} } = await loadFixture(deploy{{Component}});
+
+    await expect({{component}}.setValue(7))
+      .to.emit({{component}}, "ValueChanged")
+      .withArgs(42n, 7n);
+    expect(await {{component}}.value()).to.equal(7n);
+  });
+
+  it("rejects changes from other accounts", async () => {
+    const { {{component}}, other } = await loadFixture(deploy{{Component}});
+
+    await expect({{component}}.connect(other).setValue(7))
+      .to.be.revertedWithCustomError({{component}}, "NotOwner")
+      .withArgs(other.address);
+  });
+});
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title {{Component}}
+/// @notice File-level enum, used as `import {{{Component}}} from ".../{{Component}}.sol";`
+enum {{Component}} {
+    Pending,
+    Active,
+    Closed
+}
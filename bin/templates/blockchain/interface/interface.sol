@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title {{Component}}
+/// @notice External API shared by implementations and callers
+interface {{Component}} {
+    event ValueChanged(uint256 previousValue, uint256 newValue);
+
+    function value() external view returns (uint256);
+
+    function setValue(uint256 newValue) external;
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {{{Component}}} from "../src/libraries/{{Component}}/{{Component}}.sol";
+
+contract {{Component}}Test is Test {
+    function test_Sum() public pure {
+        uint256[] memory values = new uint256[](3);
+        values[0] = 1;
+        values[1] = 2;
+        values[2] = 3;
+
+        assertEq({{Component}}.sum(values), 6);
+    }
+
+    function test_Average() public pure {
+        uint256[] memory values = new uint256[](3);
+        values[0] = 2;
+        values[1] = 4;
+        values[2] = 9;
+
+        assertEq({{Component}}.average(values), 5);
+    }
+
+    function test_RevertWhen_AveragingNoValues() public {
+        vm.expectRevert({{Component}}.EmptyInput.selector);
+        this.average(new uint256[](0));
+    }
+
+    /// @dev External so the revert happens one call deeper than expectRevert
+    function average(uint256[] memory values) external pure returns (uint256) {
+        return {{Component}}.average(values);
+    }
+}
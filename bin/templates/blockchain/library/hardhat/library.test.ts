@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+describe("{{Component}}", () => {
+  async function deployHarness() {
+    return ethers.deployContract("{{Component}}Harness");
+  }
+
+  it("sums values", async () => {
+    const harness = await loadFixture(deployHarness);
+
+    expect(await harness.sum([1, 2, 3])).to.equal(6n);
+  });
+
+  it("averages values", async () => {
+    const harness = await loadFixture(deployHarness);
+
+    expect(await harness.average([2, 4, 9])).to.equal(5n);
+  });
+
+  it("rejects averaging no values", async () => {
+    const harness = await loadFixture(deployHarness);
+
+    await expect(harness.average([])).to.be.revertedWithCustomError(harness, "EmptyInput");
+  });
+});
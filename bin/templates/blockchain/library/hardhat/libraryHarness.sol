@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {{{Component}}} from "./{{Component}}.sol";
+
+/// @notice Exposes the internal functions of {{Component}} to the Hardhat tests
+contract {{Component}}Harness {
+    function sum(uint256[] memory values) external pure returns (uint256) {
+        return {{Component}}.sum(values);
+    }
+
+    function average(uint256[] memory values) external pure returns (uint256) {
+        return {{Component}}.average(values);
+    }
+}
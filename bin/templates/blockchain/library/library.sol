@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title {{Component}}
+/// @notice Internal helpers, inlined into the contracts that use them
+library {{Component}} {
+    error EmptyInput();
+
+    function sum(uint256[] memory values) internal pure returns (uint256 total) {
+        for (uint256 i = 0; i < values.length; i++) {
+            total += values[i];
+        }
+    }
+
+    function average(uint256[] memory values) internal pure returns (uint256) {
+        if (values.length == 0) revert EmptyInput();
+        return sum(values) / values.length;
+    }
+}
@@ -0,0 +1,12 @@
+import { HardhatUserConfig } from "hardhat/config";
+import "@nomicfoundation/hardhat-toolbox";
+
+const config: HardhatUserConfig = {
+  solidity: "0.8.24",
+  paths: {
+    // Contracts, libraries, interfaces and enums created with `skaya create` live in src/
+    sources: "./src",
+  },
+};
+
+export default config;
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Script, console} from "forge-std/Script.sol";
+
+/// @notice Run with
+/// `forge script script/{{Component}}/{{Component}}.s.sol --rpc-url $RPC_URL --private-key $PRIVATE_KEY --broadcast`
+contract {{Component}}Script is Script {
+    function run() external {
+        vm.startBroadcast();
+        console.log("{{Component}} broadcasting from", msg.sender);
+        vm.stopBroadcast();
+    }
+}
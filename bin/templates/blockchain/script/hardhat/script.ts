@@ -0,0 +1,16 @@
+import { ethers } from "hardhat";
+
+/**
+ * Run with `npx hardhat run scripts/{{Component}}/{{Component}}.ts --network <network>`
+ */
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log(`{{Component}} running as ${signer.address} on chain ${chainId}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
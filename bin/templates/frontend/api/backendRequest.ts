@@ -3,7 +3,7 @@ import Cookies from 'js-cookie';
 import { ApiEndpoint } from './apiEndpoints';
 
 
-const Request = async ({ endpointId, slug, data }: any) => {
+const Request = async ({ endpointId, slug, data, pathParams, query }: any) => {
   const storedAccessToken = Cookies.get('access');  // Retrieve stored access token
   const endpoint = ApiEndpoint[endpointId];
 
@@ -12,6 +12,10 @@ const Request = async ({ endpointId, slug, data }: any) => {
   }
 
   let fullUrl = endpoint.url;
+  if (pathParams) {
+    // Fill in path parameters, e.g. /pets/{petId}
+    fullUrl = fullUrl.replace(/{(\w+)}/g, (_: string, name: string) => encodeURIComponent(pathParams[name]));
+  }
   if (slug) {
     fullUrl += `${slug}`;  // Append additional slug to URL if provided
   }
@@ -20,6 +24,7 @@ const Request = async ({ endpointId, slug, data }: any) => {
   const axiosConfig: AxiosRequestConfig = {
     method: endpoint.method,
     url: fullUrl,
+    params: query,  // Query string parameters, if any
     headers: {
       ...endpoint.headers,
       // Use the appropriate Authorization header based on the endpoint type
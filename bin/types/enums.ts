@@ -13,7 +13,8 @@ export enum ProjectType {
 export enum FrontendComponentType {
   COMPONENT = "component",
   PAGE = "page",
-  API= "api"
+  API= "api",
+  CONTRACT_CLIENT = "contract-client"
 }
 
 /**
@@ -47,6 +48,51 @@ export enum BlokchainComponentType {
 
 }
 
+/**
+ * Smart contract toolchain of a blockchain project
+ */
+export enum BlockchainFramework {
+  HARDHAT = "hardhat",
+  FOUNDRY = "foundry"
+}
+
+/**
+ * AI provider enumeration
+ */
+export enum AIProviderType {
+  GEMINI = "gemini",
+  OPENAI = "openai",
+  LOCAL = "local",
+  FAKE = "fake"
+}
+
+/**
+ * How generated files are requested from the model: one call per file, or
+ * one call returning every file as JSON
+ */
+export enum AIResponseMode {
+  PER_FILE = "per-file",
+  STRUCTURED = "structured"
+}
+
+/**
+ * Output formats of `skaya graph`
+ */
+export enum GraphFormat {
+  TEXT = "text",
+  DOT = "dot",
+  MERMAID = "mermaid"
+}
+
+/**
+ * How `skaya usage` groups AI calls
+ */
+export enum UsageGrouping {
+  DAY = "day",
+  COMPONENT = "component",
+  MODEL = "model"
+}
+
 /**
  * All possible component types
  */
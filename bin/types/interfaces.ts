@@ -1,4 +1,4 @@
-import { ProjectType, ComponentType } from "./enums";
+import { ProjectType, ComponentType, ApiType, AIProviderType, AIResponseMode } from "./enums";
 
 /**
  * CLI command options interface
@@ -7,6 +7,33 @@ export interface ICommandOptions {
   project?: ProjectType;
 }
 
+/**
+ * Options accepted by `skaya create`
+ */
+export interface ICreateCommandOptions {
+  filename?: string;
+  ai?: boolean;
+  description?: string;
+  folder?: string;
+  import?: string[];
+  apiType?: ApiType;
+  apiId?: number;
+  apiAuth?: boolean;
+  apiUrl?: string;
+  apiMethod?: string;
+  fromOpenapi?: string;
+  contract?: string;
+  spec?: string;
+  nonInteractive?: boolean;
+  provider?: string;
+  model?: string;
+  yes?: boolean;
+  dryRun?: boolean;
+  verify?: boolean;
+  responseMode?: string;
+  cache?: boolean;
+}
+
 /**
  * Component creation parameters
  */
@@ -16,6 +43,34 @@ export interface ICreateComponentParams {
   fileName:string
   ai?:boolean
   aiDesscription?:string
+  provider?: AIProviderType
+  model?: string
+  responseMode?: AIResponseMode
+  /** Write AI output without reviewing the diffs */
+  yes?: boolean
+  /** Print the diffs of the files that would be written and write nothing */
+  dryRun?: boolean
+  /** Run the generated tests after saving and record whether they pass */
+  verify?: boolean
+  /** Reuse cached AI responses; `false` with `--no-cache` */
+  cache?: boolean
+  /** OpenAPI document an API component's endpoints and slices are generated from */
+  openApiSpec?: string
+}
+
+export interface IRemoveComponentParams {
+  componentType: ComponentType;
+  projectType: ProjectType;
+  fileName: string;
+  /** Remove the component even if other components still import it */
+  force?: boolean;
+}
+
+export interface IRenameComponentParams {
+  componentType: ComponentType;
+  projectType: ProjectType;
+  fileName: string;
+  newName: string;
 }
 
 export interface ApiEndpointConfig {
@@ -23,4 +78,32 @@ export interface ApiEndpointConfig {
   withAuth: boolean;
   url: string;
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-}
\ No newline at end of file
+}
+
+/**
+ * Answers for a non-interactive `skaya create`, read from `--spec <file>`.
+ * CLI flags take precedence over the values in the file.
+ */
+export interface ICreateSpec {
+  project?: ProjectType;
+  type?: ComponentType;
+  filename?: string;
+  folder?: string;
+  ai?: boolean;
+  description?: string;
+  provider?: AIProviderType;
+  model?: string;
+  /** Existing components to import, keyed by component type (e.g. { "component": ["Button"] }) */
+  imports?: Record<string, string[]>;
+  api?: {
+    type?: ApiType;
+    id?: number;
+    auth?: boolean;
+    url?: string;
+    method?: ApiEndpointConfig['method'];
+    /** OpenAPI document to generate the endpoints and slices from */
+    openapi?: string;
+  };
+  /** Compiled contract a contract-client is generated from */
+  contract?: string;
+}
@@ -8,6 +8,7 @@ import {
   FrontendComponentType,
   ProjectType,
   BlokchainComponentType,
+  BlockchainFramework,
 } from "../types/enums";
 import TemplateService from "../../src/services/TemplateService";
 import { TemplateFileInfo } from "../../src/scripts/templateGenerator";
@@ -72,16 +73,20 @@ export async function scanExistingComponents(
 
         // More flexible main file detection
         const possibleMainFiles = TemplateService.getBaseTemplateFiles(
-          componentType
+          componentType,
+          projectType
         )
           .map((file: string) =>
             file.replace(new RegExp(componentType, "gi"), dir)
           )
-          .concat([
+          .concat(
+            // Contract clients are only recognised by their own files, not REST api folders
+            componentType === FrontendComponentType.CONTRACT_CLIENT ? [] : [
             // Add common fallbacks
             `${dir}.tsx`,
             `${dir}.ts`,
             `${dir}.jsx`,
+            `${dir}.sol`,
             `${dir.charAt(0).toUpperCase() + dir.slice(1)}.tsx`,
             // Handle case where dir ends with "Page" (e.g., "asffsPage" -> "asffs.tsx")
             ...(dir.toLowerCase().endsWith("page")
@@ -110,7 +115,8 @@ export async function scanExistingComponents(
               `❌ Failed to read component file in ${dir}: ${error}`
             );
           }
-        } else {
+        } else if (componentType !== FrontendComponentType.CONTRACT_CLIENT) {
+          // The apis folder also holds REST api folders, which are not contract clients
           console.warn(
             `⚠️ No main file found for component ${dir} in ${componentDirPath}`
           );
@@ -184,11 +190,25 @@ export async function getDefaultFolderForComponentType(
       [FrontendComponentType.PAGE]: `${FrontendComponentType.PAGE}s`,
       [FrontendComponentType.COMPONENT]: `${FrontendComponentType.COMPONENT}s`,
       [FrontendComponentType.API]: `${FrontendComponentType.API}s`,
+      [FrontendComponentType.CONTRACT_CLIENT]: `${FrontendComponentType.API}s`,
       [BackendComponentType.ROUTE]: `${BackendComponentType.ROUTE}s`,
       [BackendComponentType.CONTROLLER]: `${BackendComponentType.CONTROLLER}s`,
+      [BackendComponentType.MIDDLEWARE]: `${BackendComponentType.MIDDLEWARE}s`,
+      [BackendComponentType.SCRIPT]: `${BackendComponentType.SCRIPT}s`,
       [BlokchainComponentType.CONTRACT]: `${BlokchainComponentType.CONTRACT}s`,
+      [BlokchainComponentType.LIBRARY]: "libraries",
+      [BlokchainComponentType.INTERFACE]: `${BlokchainComponentType.INTERFACE}s`,
+      [BlokchainComponentType.ENUM]: `${BlokchainComponentType.ENUM}s`,
     };
 
+    // Blockchain scripts live next to src/, where Hardhat and Foundry look for them
+    if (projectType === ProjectType.BLOCKCHAIN && componentType === BlokchainComponentType.SCRIPT) {
+      const scriptsPath = `${projectConfig?.name || `${projectType}SkayaProject`}/${
+        getBlockchainFramework(projectConfig?.template) === BlockchainFramework.FOUNDRY ? "script" : "scripts"
+      }`;
+      return fileName ? `${scriptsPath}/${fileName}` : scriptsPath;
+    }
+
     const componentPath = componentTypeMap[componentType];
     if (!componentPath) {
       console.warn(
@@ -210,6 +230,18 @@ export async function getDefaultFolderForComponentType(
   }
 }
 
+/**
+ * Resolves the toolchain of a blockchain project from its configured template,
+ * defaulting to Hardhat
+ * @param template The `template` of the blockchain project config
+ * @returns The blockchain framework
+ */
+export function getBlockchainFramework(template?: string): BlockchainFramework {
+  return template === BlockchainFramework.FOUNDRY
+    ? BlockchainFramework.FOUNDRY
+    : BlockchainFramework.HARDHAT;
+}
+
 /**
  * Gets the template directory path for a given project and component type
  * @param projectType The project type (frontend/backend)
@@ -0,0 +1,330 @@
+import {
+  BackendComponentType,
+  BlokchainComponentType,
+  ComponentType,
+  FrontendComponentType,
+  GraphFormat,
+  ProjectType,
+} from "../types/enums";
+import { ComponentConfig, Config } from "./configLogger";
+
+/**
+ * Component types that are entry points rather than building blocks, so
+ * nothing importing them is expected
+ */
+const ENTRY_COMPONENT_TYPES: ComponentType[] = [
+  FrontendComponentType.PAGE,
+  BackendComponentType.ROUTE,
+  BackendComponentType.SCRIPT,
+  BlokchainComponentType.CONTRACT,
+  BlokchainComponentType.SCRIPT,
+];
+
+/**
+ * A component from skaya.config.json with its project
+ */
+export interface ComponentEntry extends ComponentConfig {
+  projectType: ProjectType;
+  name: string;
+}
+
+/**
+ * Filters for {@link collectComponents}
+ */
+export interface ComponentFilter {
+  projectType?: ProjectType;
+  componentType?: string;
+  source?: ComponentConfig["source"];
+}
+
+/**
+ * Import graph of the components, with its cycles and unused components
+ */
+export interface ComponentGraph {
+  nodes: ComponentEntry[];
+  /** Node ids (`<project>/<name>`) of the components each node imports */
+  edges: Map<string, string[]>;
+  /** Each cycle as the node ids along it, starting from the smallest id */
+  cycles: string[][];
+  /** Ids of non-entry components no other component imports */
+  unused: string[];
+}
+
+/**
+ * Lists the components of every project, sorted by project, type and name
+ * @param {Config} config - The parsed skaya.config.json
+ * @param {ComponentFilter} filter - Restricts the list to matching components
+ * @returns {ComponentEntry[]} The matching components
+ */
+export function collectComponents(config: Config, filter: ComponentFilter = {}): ComponentEntry[] {
+  const projectTypes = Object.values(ProjectType);
+  return projectTypes
+    .filter((projectType) => !filter.projectType || projectType === filter.projectType)
+    .flatMap((projectType) =>
+      Object.entries(config[projectType]?.components || {}).map(([name, component]) => ({
+        ...(component as ComponentConfig),
+        projectType,
+        name,
+      }))
+    )
+    .filter(
+      (entry) =>
+        (!filter.componentType || entry.componentType === filter.componentType) &&
+        (!filter.source || entry.source === filter.source)
+    )
+    .sort(
+      (a, b) =>
+        projectTypes.indexOf(a.projectType) - projectTypes.indexOf(b.projectType) ||
+        a.componentType.localeCompare(b.componentType) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Renders components as an aligned plain-text table
+ * @param {ComponentEntry[]} entries - The components to show
+ * @returns {string} The table, one component per line after the header
+ */
+export function formatComponentTable(entries: ComponentEntry[]): string {
+  const rows = [
+    ["PROJECT", "TYPE", "NAME", "SOURCE", "CREATED", "UPDATED", "IMPORTS", "USED BY"],
+    ...entries.map((entry) => [
+      entry.projectType,
+      entry.componentType,
+      entry.name,
+      entry.source,
+      formatTimestamp(entry.savedAt),
+      formatTimestamp(entry.updatedAt),
+      (entry.imports || []).map((imp) => imp.name).join(", ") || "-",
+      (entry.usedBy || []).join(", ") || "-",
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/**
+ * Builds the import graph from each component's `imports` and `usedBy`.
+ * References to components missing from the config are ignored.
+ * @param {ComponentEntry[]} nodes - The components to include
+ * @returns {ComponentGraph} The graph with its cycles and unused components
+ */
+export function buildComponentGraph(nodes: ComponentEntry[]): ComponentGraph {
+  const ids = new Set(nodes.map(getNodeId));
+  const edges = new Map<string, string[]>(nodes.map((node) => [getNodeId(node), []]));
+  const addEdge = (from: string, to: string) => {
+    const targets = edges.get(from);
+    if (targets && ids.has(to) && !targets.includes(to)) {
+      targets.push(to);
+    }
+  };
+
+  for (const node of nodes) {
+    for (const imp of node.imports || []) {
+      addEdge(getNodeId(node), `${node.projectType}/${imp.name}`);
+    }
+    for (const importer of node.usedBy || []) {
+      addEdge(`${node.projectType}/${importer}`, getNodeId(node));
+    }
+  }
+
+  const imported = new Set([...edges.values()].flat());
+  const unused = nodes
+    .filter((node) => !ENTRY_COMPONENT_TYPES.includes(node.componentType) && !imported.has(getNodeId(node)))
+    .map(getNodeId);
+
+  return { nodes, edges, cycles: findCycles(edges), unused };
+}
+
+/**
+ * Renders the graph as a text tree, Graphviz DOT or a Mermaid flowchart
+ * @param {ComponentGraph} graph - The graph to render
+ * @param {GraphFormat} format - The output format
+ * @returns {string} The rendered graph
+ */
+export function formatComponentGraph(graph: ComponentGraph, format: GraphFormat): string {
+  switch (format) {
+    case GraphFormat.DOT:
+      return formatDot(graph);
+    case GraphFormat.MERMAID:
+      return formatMermaid(graph);
+    default:
+      return formatTree(graph);
+  }
+}
+
+/**
+ * One tree per root (a component nobody imports, or the first component of
+ * a cycle nothing else reaches), followed by the cycles and unused components
+ */
+function formatTree(graph: ComponentGraph): string {
+  const labels = new Map(graph.nodes.map((node) => [getNodeId(node), formatNodeLabel(node)]));
+  const imported = new Set([...graph.edges.values()].flat());
+  const lines: string[] = [];
+  const printed = new Set<string>();
+
+  const printNode = (id: string, prefix: string, connector: string, path: string[]) => {
+    const onPath = path.includes(id);
+    lines.push(`${prefix}${connector}${labels.get(id)}${onPath ? " ↺ cycle" : ""}`);
+    printed.add(id);
+    if (onPath) {
+      return;
+    }
+
+    const children = graph.edges.get(id) || [];
+    const childPrefix = prefix + (connector === "├── " ? "│   " : connector ? "    " : "");
+    children.forEach((child, index) =>
+      printNode(child, childPrefix, index === children.length - 1 ? "└── " : "├── ", [...path, id])
+    );
+  };
+
+  for (const projectType of Object.values(ProjectType)) {
+    const projectIds = graph.nodes.filter((node) => node.projectType === projectType).map(getNodeId);
+    if (projectIds.length === 0) {
+      continue;
+    }
+
+    lines.push(`${projectType}`);
+    for (const id of projectIds.filter((candidate) => !imported.has(candidate))) {
+      printNode(id, "  ", "", []);
+    }
+    // Components only reachable through a cycle have no root above them
+    for (const id of projectIds) {
+      if (!printed.has(id)) {
+        printNode(id, "  ", "", []);
+      }
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    graph.cycles.length > 0
+      ? `Cycles:\n${graph.cycles.map((cycle) => `  ${[...cycle, cycle[0]].join(" → ")}`).join("\n")}`
+      : "Cycles: none"
+  );
+  lines.push(
+    graph.unused.length > 0
+      ? `Unused:\n${graph.unused.map((id) => `  ${labels.get(id)}`).join("\n")}`
+      : "Unused: none"
+  );
+  return lines.join("\n");
+}
+
+function formatDot(graph: ComponentGraph): string {
+  const cycleEdges = getCycleEdges(graph.cycles);
+  const lines = ["digraph components {", "  rankdir=LR;", "  node [shape=box];"];
+
+  for (const projectType of Object.values(ProjectType)) {
+    const projectNodes = graph.nodes.filter((node) => node.projectType === projectType);
+    if (projectNodes.length === 0) {
+      continue;
+    }
+    lines.push(`  subgraph "cluster_${projectType}" {`, `    label="${projectType}";`);
+    for (const node of projectNodes) {
+      const style = graph.unused.includes(getNodeId(node)) ? ", style=dashed" : "";
+      lines.push(`    "${getNodeId(node)}" [label="${node.name}\\n${node.componentType}"${style}];`);
+    }
+    lines.push("  }");
+  }
+  for (const [from, targets] of graph.edges) {
+    for (const to of targets) {
+      const style = cycleEdges.has(`${from}>${to}`) ? " [color=red]" : "";
+      lines.push(`  "${from}" -> "${to}"${style};`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function formatMermaid(graph: ComponentGraph): string {
+  const cycleEdges = getCycleEdges(graph.cycles);
+  const mermaidId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, "_");
+  const lines = ["graph LR"];
+
+  for (const projectType of Object.values(ProjectType)) {
+    const projectNodes = graph.nodes.filter((node) => node.projectType === projectType);
+    if (projectNodes.length === 0) {
+      continue;
+    }
+    lines.push(`  subgraph ${projectType}`);
+    for (const node of projectNodes) {
+      lines.push(`    ${mermaidId(getNodeId(node))}["${node.name} (${node.componentType})"]`);
+    }
+    lines.push("  end");
+  }
+
+  const cycleLinks: number[] = [];
+  let link = 0;
+  for (const [from, targets] of graph.edges) {
+    for (const to of targets) {
+      lines.push(`  ${mermaidId(from)} --> ${mermaidId(to)}`);
+      if (cycleEdges.has(`${from}>${to}`)) {
+        cycleLinks.push(link);
+      }
+      link++;
+    }
+  }
+
+  if (graph.unused.length > 0) {
+    lines.push("  classDef unused stroke-dasharray: 5 5");
+    lines.push(`  class ${graph.unused.map(mermaidId).join(",")} unused`);
+  }
+  if (cycleLinks.length > 0) {
+    lines.push(`  linkStyle ${cycleLinks.join(",")} stroke:red`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Finds cycles by depth-first search. Every group of mutually importing
+ * components is reported through at least one cycle, each cycle only once.
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const cycles = new Map<string, string[]>();
+  const done = new Set<string>();
+
+  const visit = (id: string, path: string[]) => {
+    const index = path.indexOf(id);
+    if (index !== -1) {
+      const cycle = path.slice(index);
+      const start = cycle.indexOf([...cycle].sort()[0]);
+      const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+      cycles.set(normalized.join(">"), normalized);
+      return;
+    }
+    if (done.has(id)) {
+      return;
+    }
+    for (const target of edges.get(id) || []) {
+      visit(target, [...path, id]);
+    }
+    done.add(id);
+  };
+
+  for (const id of edges.keys()) {
+    visit(id, []);
+  }
+  return [...cycles.values()];
+}
+
+function getCycleEdges(cycles: string[][]): Set<string> {
+  return new Set(
+    cycles.flatMap((cycle) => cycle.map((id, index) => `${id}>${cycle[(index + 1) % cycle.length]}`))
+  );
+}
+
+function getNodeId(node: ComponentEntry): string {
+  return `${node.projectType}/${node.name}`;
+}
+
+function formatNodeLabel(node: ComponentEntry): string {
+  return `${node.name} (${node.componentType})`;
+}
+
+function formatTimestamp(timestamp?: string): string {
+  return timestamp ? timestamp.slice(0, 16).replace("T", " ") : "-";
+}
@@ -1,13 +1,30 @@
 // src/utils/configLogger.ts
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ComponentType, ProjectType } from '../types/enums'; // Assuming ComponentType and ProjectType are defined here
+import { AIProviderType, AIResponseMode, ComponentType, ProjectType } from '../types/enums'; // Assuming ComponentType and ProjectType are defined here
 import { ComponentImportConfig } from './ProjectScanner'; // This import seems unused in the original code for ComponentImportConfig interface. Keep if used elsewhere.
+import { CONFIG_SCHEMA_VERSION, ConfigValidationError, migrateConfig, validateConfig } from './configSchema';
+import { withFileLock, writeFileAtomic } from './fileLock';
 
 const CONFIG_FILE = 'skaya.config.json';
+const LOCK_FILE = `${CONFIG_FILE}.lock`;
 const LOG_FILE = 'Skayalogs.log';
 const DEFAULT_PROJECT_NAME = 'SkayaProject'; // Moved to a constant
 
+/**
+ * AI provider selection. Set at the top level for every project or inside a
+ * project entry to override it for that project only.
+ */
+export interface AIConfig {
+  provider?: AIProviderType;
+  model?: string;
+  baseUrl?: string; // OpenAI-compatible server URL for the local provider
+  fixturesDir?: string; // Recorded responses for the fake provider
+  responseMode?: AIResponseMode; // One call per file (default) or one structured call for all files
+  timeoutSeconds?: number; // Per request, before it is abandoned and retried
+  maxRetries?: number; // Retries of rate-limited, timed-out and failed requests
+}
+
 /**
  * Interface for a single project's configuration (e.g., frontend, backend).
  */
@@ -16,22 +33,25 @@ export interface ProjectConfig {
   template: string;
   createdAt?: string; // Added for consistency with saveProjectConfig
   components?: Record<string, ComponentConfig>; // Explicitly type components as Record<string, ComponentConfig>
-  [key: string]: any; // Allow for additional properties
+  ai?: AIConfig;
 }
 
 /**
  * Interface for the overall configuration structure.
  */
 export interface Config {
+  schemaVersion?: number; // CONFIG_SCHEMA_VERSION when written by this version of skaya
   frontend?: ProjectConfig;
   backend?: ProjectConfig;
   blockchain?: ProjectConfig;
-  [key: string]: any; // Allow for additional project types
+  ai?: AIConfig;
+  componentImports?: ComponentImportConfig;
 }
 
 export interface ComponentConfig {
-  source: 'ai' | 'template';
-  files: string[];
+  source: 'ai' | 'template' | 'manual'; // 'manual' components were found on disk by `skaya sync`
+  files: string[]; // Relative to the folder holding skaya.config.json
+  missing?: boolean; // Set by `skaya sync` when none of the component's files exist
   componentType: ComponentType;
   savedAt: string;
   updatedAt?: string; // Added for update timestamp
@@ -42,7 +62,25 @@ export interface ComponentConfig {
     componentType?: ComponentType; // componentType can be determined by the system
   }>;
   usedBy?: string[]; // Components that import this component
-  // Add other possible config properties here
+  verification?: ComponentVerification; // Result of the last `--verify` run
+  context?: ComponentContext; // Project context the AI was given for the files
+}
+
+/**
+ * Whether a component's generated tests passed when run with `--verify`
+ */
+export interface ComponentVerification {
+  passed: boolean;
+  runner: 'vitest' | 'jest';
+  verifiedAt: string;
+}
+
+/**
+ * The project files the AI was shown when it generated a component
+ */
+export interface ComponentContext {
+  sources: string[]; // Relative to the folder holding skaya.config.json
+  tokens: number; // Estimated size of the context
 }
 
 
@@ -58,31 +96,19 @@ export async function saveProjectConfig(projectType: ProjectType, name: string,
     const configPath = path.join(process.cwd(), CONFIG_FILE); // Corrected path to be in current working directory
     console.log("Saving project config to:", configPath);
 
-    let config: Config = {};
-    try {
-      const fileContent = await fs.readFile(configPath, 'utf-8');
-      if (fileContent.trim().length > 0) {
-        config = JSON.parse(fileContent);
-      }
-    } catch (error: any) {
-      if (error.code !== 'ENOENT') {
-        throw new Error(`Error reading config file: ${error.message}`);
+    await updateConfig((config) => {
+      if (config[projectType]) {
+        console.log(`Project type ${projectType} already exists in config. Updating.`);
       }
-      console.log(`Config file ${CONFIG_FILE} not found, creating a new one.`);
-    }
 
-    if (config[projectType]) {
-      console.log(`Project type ${projectType} already exists in config. Updating.`);
-    }
-
-    config[projectType] = {
-      name,
-      template: template || "custom",
-      createdAt: new Date().toISOString(),
-      components: config[projectType]?.components || {} // Preserve existing components if updating
-    };
-
-    await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+      config[projectType] = {
+        name,
+        template: template || "custom",
+        createdAt: new Date().toISOString(),
+        components: config[projectType]?.components || {}, // Preserve existing components if updating
+        ...(config[projectType]?.ai && { ai: config[projectType]!.ai }) // Preserve project AI settings
+      };
+    });
 
   } catch (error) {
     throw error;
@@ -105,79 +131,64 @@ export async function saveProjectComponentConfig(
   componentDetails: Partial<Omit<ComponentConfig, 'componentType' | 'savedAt' | 'updatedAt'>> // Partial to allow for updates
 ): Promise<void> {
   try {
-    let config: Config = {};
-    const configPath = path.join(process.cwd(), CONFIG_FILE);
+    await updateConfig((config) => {
+      // Ensure the project type entry exists
+      if (!config[projectType]) {
+        config[projectType] = {
+          name: `${projectType}${DEFAULT_PROJECT_NAME}`,
+          template: "custom",
+          createdAt: new Date().toISOString(),
+          components: {}
+        };
+        console.log(`Initialized new entry for project type: ${projectType}`);
+      }
 
-    // Try to read existing config
-    try {
-      const data = await fs.readFile(configPath, 'utf-8');
-      config = JSON.parse(data);
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        console.log(`Config file ${CONFIG_FILE} not found for component config, creating a new one.`);
-      } else {
-        console.warn(`Warning: Could not parse existing config file for component config, creating new one. Error: ${error.message}`);
+      // Ensure the 'components' property exists within the project type
+      if (!config[projectType]!.components) {
+        config[projectType]!.components = {};
+        console.log(`Initialized 'components' property for project type: ${projectType}`);
       }
-    }
 
-    // Ensure the project type entry exists
-    if (!config[projectType]) {
-      config[projectType] = {
-        name: `${projectType}${DEFAULT_PROJECT_NAME}`,
-        template: "custom",
-        createdAt: new Date().toISOString(),
-        components: {}
+      // Get existing component config to merge
+      const existingComponentConfig: ComponentConfig = config[projectType]!.components![componentName] || {
+        source: 'template', // Default source if new
+        files: [],
+        componentType: componentType, // Set initial componentType
+        savedAt: new Date().toISOString(),
+        imports: [],
+        usedBy: []
       };
-      console.log(`Initialized new entry for project type: ${projectType}`);
-    }
-
-    // Ensure the 'components' property exists within the project type
-    if (!config[projectType]!.components) {
-      config[projectType]!.components = {};
-      console.log(`Initialized 'components' property for project type: ${projectType}`);
-    }
-
-    // Get existing component config to merge
-    const existingComponentConfig: ComponentConfig = config[projectType]!.components![componentName] || {
-      source: 'template', // Default source if new
-      files: [],
-      componentType: componentType, // Set initial componentType
-      savedAt: new Date().toISOString(),
-      imports: [],
-      usedBy: []
-    };
 
-    // Process imports to add componentType if missing (though it should ideally be provided or inferred during generation)
-    // For now, we'll assume `imports` within `componentDetails` already has `componentType` if needed,
-    // or it will be determined by the system later.
-    const processedImports = componentDetails.imports?.map(imp => ({
-      ...imp,
-      componentType: imp.componentType || undefined // Assuming it might be set or not
-    }));
-
-
-    // Assign the component configuration, merging with existing data
-    config[projectType]!.components![componentName] = {
-      ...existingComponentConfig, // Start with existing configuration
-      ...componentDetails, // Override with new details
-      componentType: componentType, // Ensure componentType is explicitly set or updated
-      ...(processedImports && { imports: processedImports }),
-      savedAt: existingComponentConfig.savedAt || new Date().toISOString(), // Keep original savedAt, update only if not present
-      updatedAt: new Date().toISOString() // Always update updatedAt
-    };
+      // Process imports to add componentType if missing (though it should ideally be provided or inferred during generation)
+      // For now, we'll assume `imports` within `componentDetails` already has `componentType` if needed,
+      // or it will be determined by the system later.
+      const processedImports = componentDetails.imports?.map(imp => ({
+        ...imp,
+        componentType: imp.componentType || undefined // Assuming it might be set or not
+      }));
+
+
+      // Assign the component configuration, merging with existing data
+      config[projectType]!.components![componentName] = {
+        ...existingComponentConfig, // Start with existing configuration
+        ...componentDetails, // Override with new details
+        ...(componentDetails.files && { files: componentDetails.files.map(toConfigPath) }),
+        componentType: componentType, // Ensure componentType is explicitly set or updated
+        ...(processedImports && { imports: processedImports }),
+        savedAt: existingComponentConfig.savedAt || new Date().toISOString(), // Keep original savedAt, update only if not present
+        updatedAt: new Date().toISOString() // Always update updatedAt
+      };
 
-    // Write the updated config back to file
-    await fs.writeFile(configPath, JSON.stringify(config, null, 2));
-
-    // Update reverse references if imports changed or component is new
-    if (processedImports?.length || existingComponentConfig.imports?.length) {
-      await updateComponentReferences(
-        projectType,
-        componentName,
-        processedImports || [], // New imports
-        existingComponentConfig.imports || [] // Old imports
-      );
-    }
+      // Update reverse references in the same write
+      if (processedImports) {
+        applyComponentReferences(
+          config[projectType]!.components!,
+          componentName,
+          processedImports, // New imports
+          existingComponentConfig.imports || [] // Old imports
+        );
+      }
+    });
 
   } catch (error) {
     console.error(`❌ Failed to save component '${componentName}' configuration for '${projectType}':`, error);
@@ -212,14 +223,28 @@ export async function updateComponentReferences(
   newImports: Array<{ name: string, data: string, componentType?: ComponentType }>,
   oldImports: Array<{ name: string, data: string, componentType?: ComponentType }> = []
 ) {
-  const config = await readConfig();
-  const projectComponents = config[projectType]?.components;
+  await updateConfig((config) => {
+    const projectComponents = config[projectType]?.components;
 
-  if (!projectComponents) {
-    console.warn(`No components found for project type ${projectType}.`);
-    return;
-  }
+    if (!projectComponents) {
+      console.warn(`No components found for project type ${projectType}.`);
+      return;
+    }
+
+    applyComponentReferences(projectComponents, sourceComponent, newImports, oldImports);
+  });
+}
 
+/**
+ * Moves `sourceComponent` from the `usedBy` lists of its old imports to those
+ * of its new imports, in place
+ */
+function applyComponentReferences(
+  projectComponents: Record<string, ComponentConfig>,
+  sourceComponent: string,
+  newImports: Array<{ name: string }>,
+  oldImports: Array<{ name: string }>
+): void {
   // Remove old references
   for (const oldImp of oldImports) {
     if (projectComponents[oldImp.name]) {
@@ -242,12 +267,139 @@ export async function updateComponentReferences(
       }
     }
   }
+}
+
+
+/**
+ * Removes a component entry from the config, along with the `imports` entries
+ * of components that still import it and the `usedBy` entries of the
+ * components it imports.
+ * @param projectType - The ProjectType (e.g., ProjectType.Frontend)
+ * @param componentName - The name of the component to remove
+ * @returns The removed ComponentConfig, or undefined if there was none.
+ */
+export async function removeProjectComponentConfig(
+  projectType: ProjectType,
+  componentName: string
+): Promise<ComponentConfig | undefined> {
+  return updateConfig((config) => {
+    const projectComponents = config[projectType]?.components;
+    const removed = projectComponents?.[componentName];
+    if (!projectComponents || !removed) {
+      return undefined;
+    }
+
+    delete projectComponents[componentName];
+    applyComponentReferences(projectComponents, componentName, [], removed.imports || []);
+    for (const component of Object.values(projectComponents)) {
+      if (component.imports) {
+        component.imports = component.imports.filter((imp) => imp.name !== componentName);
+      }
+    }
+    return removed;
+  });
+}
+
+/**
+ * Moves a component entry to a new name, pointing the `imports` and `usedBy`
+ * entries of other components at it.
+ * @param projectType - The ProjectType (e.g., ProjectType.Frontend)
+ * @param oldName - The current name of the component
+ * @param newName - The new name of the component
+ * @param files - The component's files after the rename
+ */
+export async function renameProjectComponentConfig(
+  projectType: ProjectType,
+  oldName: string,
+  newName: string,
+  files: string[]
+): Promise<void> {
+  await updateConfig((config) => {
+    const projectComponents = config[projectType]?.components;
+    const component = projectComponents?.[oldName];
+    if (!projectComponents || !component) {
+      return;
+    }
+
+    delete projectComponents[oldName];
+    projectComponents[newName] = { ...component, files: files.map(toConfigPath), updatedAt: new Date().toISOString() };
+    for (const other of Object.values(projectComponents)) {
+      other.imports = other.imports?.map((imp) => (imp.name === oldName ? { ...imp, name: newName } : imp));
+      other.usedBy = other.usedBy?.map((name) => (name === oldName ? newName : name));
+    }
+  });
+}
+
+/**
+ * Converts a component file path to the form stored in `files`: relative to
+ * the folder holding skaya.config.json, with forward slashes. Paths outside
+ * that folder stay absolute.
+ * @param filePath - Absolute or working-directory-relative file path
+ * @returns The path to store in the config
+ */
+export function toConfigPath(filePath: string): string {
+  const relative = path.relative(process.cwd(), path.resolve(process.cwd(), filePath));
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return filePath;
+  }
+  return relative.split(path.sep).join('/');
+}
 
-  // Save the updated config
-  const configPath = path.join(process.cwd(), CONFIG_FILE);
-  await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+/**
+ * Resolves a path from a component's `files` to an absolute path. Entries
+ * written before paths were stored relative are already absolute.
+ * @param filePath - A path from `files`
+ * @returns The absolute file path
+ */
+export function resolveConfigPath(filePath: string): string {
+  return path.resolve(process.cwd(), filePath);
 }
 
+/**
+ * Applies a read-modify-write update to skaya.config.json as one transaction:
+ * the config is read and written back while holding skaya.config.json.lock,
+ * so concurrent skaya processes cannot lose each other's changes. The file is
+ * replaced atomically and left untouched if `mutator` throws or the result
+ * does not validate. Do not call other config writers from inside `mutator`.
+ * @param mutator - Changes the config in place; may be async
+ * @returns What `mutator` returns
+ * @throws ConfigValidationError naming the offending keys
+ */
+export async function updateConfig<T>(mutator: (config: Config) => T | Promise<T>): Promise<T> {
+  return withFileLock(path.join(process.cwd(), LOCK_FILE), async () => {
+    const loaded = await loadConfig();
+    const config = loaded?.config || {};
+    const result = await mutator(config);
+    await writeConfigFile(config);
+    if (loaded && loaded.fromVersion < CONFIG_SCHEMA_VERSION) {
+      console.log(`ℹ️  Migrated ${CONFIG_FILE} from schema version ${loaded.fromVersion} to ${CONFIG_SCHEMA_VERSION}`);
+    }
+    return result;
+  });
+}
+
+/**
+ * Overwrites skaya.config.json with the given configuration, stamped with the
+ * current schema version. Prefer updateConfig, which merges with changes made
+ * since the config was read.
+ * @param config - The complete configuration to write
+ * @throws ConfigValidationError naming the offending keys
+ */
+export async function writeConfig(config: Config): Promise<void> {
+  await withFileLock(path.join(process.cwd(), LOCK_FILE), () => writeConfigFile(config));
+}
+
+/**
+ * Validates and atomically writes the config; nothing is written if it does
+ * not validate
+ */
+async function writeConfigFile(config: Config): Promise<void> {
+  const { schemaVersion, ...rest } = config;
+  const versioned = { schemaVersion: CONFIG_SCHEMA_VERSION, ...rest };
+  validateConfig(versioned);
+
+  await writeFileAtomic(path.join(process.cwd(), CONFIG_FILE), JSON.stringify(versioned, null, 2));
+}
 
 /**
  * Logs component creation details to the log file.
@@ -266,10 +418,7 @@ export async function logComponentCreation(params: {
       ...params
     };
 
-    const logLine = JSON.stringify(logEntry) + '\n';
-
-    // Append to log file (creates it if doesn't exist)
-    await fs.appendFile(LOG_FILE, logLine);
+    await appendLogEntry(logEntry);
   } catch (error) {
     console.error('❌ Failed to log component creation:', error);
     throw error;
@@ -277,24 +426,86 @@ export async function logComponentCreation(params: {
 }
 
 /**
- * Reads the configuration file.
- * @returns A Promise that resolves to the Config object. Returns an empty object if the file doesn't exist or is invalid.
+ * Appends one JSON entry to the log file, creating it if needed.
+ * @param entry - The entry to log
  */
-export async function readConfig(): Promise<Config> {
+export async function appendLogEntry(entry: object): Promise<void> {
+  // One append per entry, so entries from concurrent processes never
+  // interleave mid-line
+  await fs.appendFile(LOG_FILE, JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Reads the entries of the log file, skipping lines that are not JSON.
+ * @returns A Promise that resolves to the entries, oldest first. Empty if there is no log file.
+ */
+export async function readLogEntries(): Promise<Record<string, unknown>[]> {
+  let content: string;
   try {
-    const configPath = path.join(process.cwd(), CONFIG_FILE); // Consistent path with save functions
+    content = await fs.readFile(LOG_FILE, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: Record<string, unknown>[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash, or written by hand
+    }
+  }
+  return entries;
+}
 
-    const data = await fs.readFile(configPath, 'utf-8');
+/**
+ * Reads the configuration file, upgrading configs written by older versions
+ * of skaya and validating the result. The upgrade is not written back here:
+ * commands that only read leave the file alone, and the next updateConfig
+ * saves it.
+ * @returns A Promise that resolves to the Config object. Returns an empty object if the file doesn't exist or is empty.
+ * @throws ConfigValidationError if the file is not valid JSON or does not match the schema
+ */
+export async function readConfig(): Promise<Config> {
+  return (await loadConfig())?.config || {};
+}
 
-    return JSON.parse(data);
+/**
+ * Parses, migrates and validates skaya.config.json without writing it
+ * @returns The config and the schema version it was written with, or undefined if there is no config
+ */
+async function loadConfig(): Promise<{ config: Config; fromVersion: number } | undefined> {
+  const configPath = path.join(process.cwd(), CONFIG_FILE); // Consistent path with save functions
+
+  let data: string;
+  try {
+    data = await fs.readFile(configPath, 'utf-8');
   } catch (error: any) {
     if (error.code === 'ENOENT') {
-      // console.log(`Config file ${CONFIG_FILE} not found. Returning empty config.`);
-    } else {
-      console.error('❌ Failed to read configuration file:', error);
+      return undefined;
     }
-    return {}; // Return empty object if file not found or parsing fails
+    throw error;
+  }
+  if (data.trim().length === 0) {
+    return undefined;
   }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error: any) {
+    throw new ConfigValidationError([{ path: '', message: `not valid JSON (${error.message})` }]);
+  }
+
+  const loaded = migrateConfig(raw);
+  validateConfig(loaded.config);
+  return loaded;
 }
 
 /**
@@ -306,10 +517,7 @@ export async function readConfig(): Promise<Config> {
  */
 export async function readComponentImportConfig(): Promise<ComponentImportConfig> {
   try {
-    const configPath = path.join(process.cwd(), CONFIG_FILE); // Consistent path with save functions
-
-    const data = await fs.readFile(configPath, 'utf-8');
-    const config: Config = JSON.parse(data);
+    const config = await readConfig();
 
     // This line assumes a top-level 'componentImports' key in your config.
     // If component import configurations are stored differently (e.g., within a project type's 'components'),
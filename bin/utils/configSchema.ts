@@ -0,0 +1,360 @@
+import {
+  AIProviderType,
+  AIResponseMode,
+  BackendComponentType,
+  BlokchainComponentType,
+  ComponentType,
+  FrontendComponentType,
+  ProjectType,
+} from "../types/enums";
+import { Config, toConfigPath } from "./configLogger";
+
+/**
+ * Schema version written to skaya.config.json. Configs without a
+ * `schemaVersion` predate it and are version 1.
+ */
+export const CONFIG_SCHEMA_VERSION = 6;
+
+/**
+ * Component types each project may record
+ */
+const PROJECT_COMPONENT_TYPES: Record<ProjectType, ComponentType[]> = {
+  [ProjectType.FRONTEND]: Object.values(FrontendComponentType),
+  [ProjectType.BACKEND]: Object.values(BackendComponentType),
+  [ProjectType.BLOCKCHAIN]: Object.values(BlokchainComponentType),
+};
+
+/**
+ * A problem found in the config, with the path of the offending key
+ * (e.g. `frontend.components.Button.files[0]`)
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when skaya.config.json cannot be parsed or does not match the schema
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid skaya.config.json:\n${issues
+        .map((issue) => `  - ${issue.path || "(root)"}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * Upgrades a config to the previous version + 1. Migrations run in order,
+ * starting after the version the config was written with.
+ */
+interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate: (config: Record<string, any>) => void;
+}
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: "store component files relative to the config folder, default imports and usedBy",
+    migrate: (config) => {
+      for (const projectType of Object.values(ProjectType)) {
+        const components = config[projectType]?.components;
+        if (!isObject(components)) {
+          continue;
+        }
+        for (const component of Object.values(components)) {
+          if (!isObject(component)) {
+            continue;
+          }
+          if (Array.isArray(component.files)) {
+            component.files = component.files.map((file: unknown) =>
+              typeof file === "string" ? toConfigPath(file) : file
+            );
+          }
+          component.imports ??= [];
+          component.usedBy ??= [];
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "components may record the result of `--verify`",
+    migrate: () => undefined,
+  },
+  {
+    version: 4,
+    description: "`ai` configs may set `responseMode`",
+    migrate: () => undefined,
+  },
+  {
+    version: 5,
+    description: "components may record the project context the AI was given",
+    migrate: () => undefined,
+  },
+  {
+    version: 6,
+    description: "`ai` configs may set `timeoutSeconds` and `maxRetries`",
+    migrate: () => undefined,
+  },
+];
+
+/**
+ * Runs the migrations a parsed config still needs, in place
+ * @param {unknown} raw - The parsed skaya.config.json
+ * @returns {{ config: Config, fromVersion: number }} The upgraded config and the version it was written with
+ * @throws {ConfigValidationError} If the config is not an object or comes from a newer skaya
+ */
+export function migrateConfig(raw: unknown): { config: Config; fromVersion: number } {
+  if (!isObject(raw)) {
+    throw new ConfigValidationError([{ path: "", message: "must be a JSON object" }]);
+  }
+
+  const fromVersion = raw.schemaVersion ?? 1;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new ConfigValidationError([{ path: "schemaVersion", message: "must be a positive integer" }]);
+  }
+  if (fromVersion > CONFIG_SCHEMA_VERSION) {
+    throw new ConfigValidationError([
+      {
+        path: "schemaVersion",
+        message: `version ${fromVersion} is newer than this skaya supports (${CONFIG_SCHEMA_VERSION}). Upgrade skaya.`,
+      },
+    ]);
+  }
+
+  for (const migration of MIGRATIONS.filter((candidate) => candidate.version > fromVersion)) {
+    migration.migrate(raw);
+  }
+  raw.schemaVersion = CONFIG_SCHEMA_VERSION;
+  return { config: raw as Config, fromVersion };
+}
+
+/**
+ * Checks a config against the schema, reporting every offending key
+ * @param {unknown} config - The config to check
+ * @throws {ConfigValidationError} If anything does not match
+ */
+export function validateConfig(config: unknown): asserts config is Config {
+  const issues: ConfigIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(config)) {
+    throw new ConfigValidationError([{ path: "", message: "must be a JSON object" }]);
+  }
+
+  checkKeys(config, "", ["schemaVersion", "ai", "componentImports", ...Object.values(ProjectType)], report);
+  if (config.schemaVersion !== CONFIG_SCHEMA_VERSION) {
+    report("schemaVersion", `must be ${CONFIG_SCHEMA_VERSION}`);
+  }
+  if (config.ai !== undefined) {
+    checkAIConfig(config.ai, "ai", report);
+  }
+  if (config.componentImports !== undefined && !isObject(config.componentImports)) {
+    report("componentImports", "must be an object");
+  }
+  for (const projectType of Object.values(ProjectType)) {
+    if (config[projectType] !== undefined) {
+      checkProjectConfig(config[projectType], projectType, report);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+type Report = (path: string, message: string) => void;
+
+function checkProjectConfig(project: unknown, projectType: ProjectType, report: Report): void {
+  if (!isObject(project)) {
+    report(projectType, "must be an object");
+    return;
+  }
+
+  checkKeys(project, projectType, ["name", "template", "createdAt", "components", "ai"], report);
+  checkString(project, projectType, "name", report, true);
+  checkString(project, projectType, "template", report, true);
+  checkString(project, projectType, "createdAt", report);
+  if (project.ai !== undefined) {
+    checkAIConfig(project.ai, `${projectType}.ai`, report);
+  }
+  if (project.components === undefined) {
+    return;
+  }
+  if (!isObject(project.components)) {
+    report(`${projectType}.components`, "must be an object");
+    return;
+  }
+  for (const [name, component] of Object.entries(project.components)) {
+    checkComponentConfig(component, `${projectType}.components.${name}`, projectType, report);
+  }
+}
+
+function checkComponentConfig(component: unknown, path: string, projectType: ProjectType, report: Report): void {
+  if (!isObject(component)) {
+    report(path, "must be an object");
+    return;
+  }
+
+  checkKeys(
+    component,
+    path,
+    ["source", "files", "componentType", "savedAt", "updatedAt", "aiPrompt", "imports", "usedBy", "missing", "verification", "context"],
+    report
+  );
+  if (!["ai", "template", "manual"].includes(component.source)) {
+    report(`${path}.source`, `must be one of 'ai', 'template', 'manual'`);
+  }
+  if (!PROJECT_COMPONENT_TYPES[projectType].includes(component.componentType)) {
+    report(`${path}.componentType`, `must be one of ${formatChoices(PROJECT_COMPONENT_TYPES[projectType])}`);
+  }
+  checkStringArray(component, path, "files", report, true);
+  checkString(component, path, "savedAt", report, true);
+  checkString(component, path, "updatedAt", report);
+  checkString(component, path, "aiPrompt", report);
+  checkStringArray(component, path, "usedBy", report);
+  if (component.missing !== undefined && typeof component.missing !== "boolean") {
+    report(`${path}.missing`, "must be a boolean");
+  }
+  if (component.verification !== undefined) {
+    checkVerification(component.verification, `${path}.verification`, report);
+  }
+  if (component.context !== undefined) {
+    checkContext(component.context, `${path}.context`, report);
+  }
+
+  if (component.imports === undefined) {
+    return;
+  }
+  if (!Array.isArray(component.imports)) {
+    report(`${path}.imports`, "must be an array");
+    return;
+  }
+  component.imports.forEach((imp: unknown, index: number) => {
+    const importPath = `${path}.imports[${index}]`;
+    if (!isObject(imp)) {
+      report(importPath, "must be an object");
+      return;
+    }
+    checkKeys(imp, importPath, ["name", "data", "componentType"], report);
+    checkString(imp, importPath, "name", report, true);
+    checkString(imp, importPath, "data", report, true);
+    checkString(imp, importPath, "componentType", report);
+  });
+}
+
+function checkVerification(verification: unknown, path: string, report: Report): void {
+  if (!isObject(verification)) {
+    report(path, "must be an object");
+    return;
+  }
+
+  checkKeys(verification, path, ["passed", "runner", "verifiedAt"], report);
+  if (typeof verification.passed !== "boolean") {
+    report(`${path}.passed`, "must be a boolean (required)");
+  }
+  if (!["vitest", "jest"].includes(verification.runner)) {
+    report(`${path}.runner`, "must be one of 'vitest', 'jest'");
+  }
+  checkString(verification, path, "verifiedAt", report, true);
+}
+
+function checkContext(context: unknown, path: string, report: Report): void {
+  if (!isObject(context)) {
+    report(path, "must be an object");
+    return;
+  }
+
+  checkKeys(context, path, ["sources", "tokens"], report);
+  checkStringArray(context, path, "sources", report, true);
+  if (typeof context.tokens !== "number") {
+    report(`${path}.tokens`, "must be a number (required)");
+  }
+}
+
+function checkAIConfig(ai: unknown, path: string, report: Report): void {
+  if (!isObject(ai)) {
+    report(path, "must be an object");
+    return;
+  }
+
+  checkKeys(ai, path, ["provider", "model", "baseUrl", "fixturesDir", "responseMode", "timeoutSeconds", "maxRetries"], report);
+  if (ai.provider !== undefined && !Object.values(AIProviderType).includes(ai.provider)) {
+    report(`${path}.provider`, `must be one of ${formatChoices(Object.values(AIProviderType))}`);
+  }
+  checkString(ai, path, "model", report);
+  checkString(ai, path, "baseUrl", report);
+  checkString(ai, path, "fixturesDir", report);
+  if (ai.responseMode !== undefined && !Object.values(AIResponseMode).includes(ai.responseMode)) {
+    report(`${path}.responseMode`, `must be one of ${formatChoices(Object.values(AIResponseMode))}`);
+  }
+  if (ai.timeoutSeconds !== undefined && !(typeof ai.timeoutSeconds === "number" && ai.timeoutSeconds > 0)) {
+    report(`${path}.timeoutSeconds`, "must be a positive number");
+  }
+  if (ai.maxRetries !== undefined && !(Number.isInteger(ai.maxRetries) && ai.maxRetries >= 0)) {
+    report(`${path}.maxRetries`, "must be a non-negative integer");
+  }
+}
+
+function checkKeys(value: Record<string, any>, path: string, allowed: string[], report: Report): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      report(joinPath(path, key), `unknown key (expected one of ${formatChoices(allowed)})`);
+    }
+  }
+}
+
+function checkString(
+  value: Record<string, any>,
+  path: string,
+  key: string,
+  report: Report,
+  required = false
+): void {
+  if (value[key] === undefined ? required : typeof value[key] !== "string") {
+    report(joinPath(path, key), required ? "must be a string (required)" : "must be a string");
+  }
+}
+
+function checkStringArray(
+  value: Record<string, any>,
+  path: string,
+  key: string,
+  report: Report,
+  required = false
+): void {
+  const items = value[key];
+  if (items === undefined) {
+    if (required) {
+      report(joinPath(path, key), "must be an array of strings (required)");
+    }
+    return;
+  }
+  if (!Array.isArray(items)) {
+    report(joinPath(path, key), "must be an array of strings");
+    return;
+  }
+  items.forEach((item, index) => {
+    if (typeof item !== "string") {
+      report(`${joinPath(path, key)}[${index}]`, "must be a string");
+    }
+  });
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function formatChoices(choices: string[]): string {
+  return choices.map((choice) => `'${choice}'`).join(", ");
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,323 @@
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import {
+  BackendComponentType,
+  BlokchainComponentType,
+  ComponentType,
+  FrontendComponentType,
+  ProjectType,
+} from "../types/enums";
+import { getDefaultFolderForComponentType } from "./ProjectScanner";
+import { ComponentConfig, Config, resolveConfigPath, toConfigPath } from "./configLogger";
+import TemplateService from "../../src/services/TemplateService";
+
+const PROJECT_COMPONENT_TYPES: Record<ProjectType, ComponentType[]> = {
+  [ProjectType.FRONTEND]: Object.values(FrontendComponentType),
+  [ProjectType.BACKEND]: Object.values(BackendComponentType),
+  [ProjectType.BLOCKCHAIN]: Object.values(BlokchainComponentType),
+};
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"];
+
+/**
+ * One difference between skaya.config.json and the filesystem
+ */
+export interface SyncChange {
+  projectType: ProjectType;
+  name: string;
+  kind: "added" | "missing" | "restored" | "paths" | "imports" | "usedBy";
+  detail: string;
+}
+
+/**
+ * What changed, and the components that could not be tracked because their
+ * name is taken by another component type
+ */
+export interface SyncResult {
+  changes: SyncChange[];
+  conflicts: string[];
+}
+
+/**
+ * A component folder found on disk
+ */
+interface FoundComponent {
+  name: string;
+  componentType: ComponentType;
+  folder: string;
+  files: string[];
+}
+
+/**
+ * Reconciles the config with the component folders on disk: untracked
+ * components are added with `source: 'manual'`, components without files are
+ * marked `missing`, `files` become project-relative, and `imports`/`usedBy`
+ * are rebuilt from the import statements of each component's files.
+ * The config is updated in place.
+ * @param {Config} config - The parsed skaya.config.json
+ * @param {ProjectType} projectType - Restricts the sync to one project
+ * @returns {Promise<SyncResult>} The differences that were reconciled
+ */
+export async function syncConfig(config: Config, projectType?: ProjectType): Promise<SyncResult> {
+  const changes: SyncChange[] = [];
+  const conflicts: string[] = [];
+
+  for (const type of Object.values(ProjectType)) {
+    const project = config[type];
+    if (!project || (projectType && type !== projectType)) {
+      continue;
+    }
+    const components: Record<string, ComponentConfig> = (project.components ||= {});
+    const change = (name: string, kind: SyncChange["kind"], detail: string) =>
+      changes.push({ projectType: type, name, kind, detail });
+
+    const found = await findComponentFolders(type);
+    for (const component of found) {
+      const trackedName = Object.keys(components).find(
+        (name) => name.toLowerCase() === component.name.toLowerCase()
+      );
+      if (!trackedName) {
+        components[component.name] = {
+          source: "manual",
+          files: component.files.map(toConfigPath),
+          componentType: component.componentType,
+          savedAt: new Date().toISOString(),
+          imports: [],
+          usedBy: [],
+        };
+        change(component.name, "added", `untracked ${component.componentType} added as manual`);
+      } else if (components[trackedName].componentType !== component.componentType) {
+        conflicts.push(
+          `${type}/${component.name} (${component.componentType}) is untracked: the name is taken by a ${components[trackedName].componentType}`
+        );
+      }
+    }
+
+    const folders = new Map<string, string>();
+    // API components also list shared files (apiEndpoints.ts, the redux store);
+    // only the component folder and files named after it are its own
+    const ownFiles = new Map<string, string[]>();
+    for (const [name, component] of Object.entries(components)) {
+      const folder = TemplateService.resolveComponentFolder(
+        name,
+        await getDefaultFolderForComponentType(type, component.componentType),
+        component.componentType
+      );
+      folders.set(name, folder);
+
+      const files = (component.files || []).map(toConfigPath);
+      if (files.some((file, index) => file !== component.files[index])) {
+        component.files = files;
+        change(name, "paths", "files rewritten to project-relative paths");
+      }
+
+      const own = files
+        .map(resolveConfigPath)
+        .filter((file) => isInsideFolder(folder, file) || path.basename(file).startsWith(`${name}.`));
+      ownFiles.set(name, own);
+      const exists =
+        (await fs.pathExists(folder)) ||
+        (await Promise.all(own.map((file) => fs.pathExists(file)))).some(Boolean);
+      if (!exists && !component.missing) {
+        component.missing = true;
+        change(name, "missing", "no files found on disk");
+      } else if (exists && component.missing) {
+        delete component.missing;
+        change(name, "restored", "files found on disk again");
+      }
+    }
+
+    const ownerOf = (filePath: string) => {
+      const file = stripExtension(filePath);
+      return Object.keys(components).find(
+        (name) =>
+          !components[name].missing &&
+          (file === folders.get(name) ||
+            isInsideFolder(folders.get(name)!, file) ||
+            ownFiles.get(name)!.some((own) => stripExtension(own) === file))
+      );
+    };
+
+    const imported = new Map<string, string[]>();
+    for (const [name, component] of Object.entries(components)) {
+      if (component.missing) {
+        continue;
+      }
+      const targets: string[] = [];
+      for (const file of await listComponentFiles(folders.get(name)!, ownFiles.get(name)!)) {
+        for (const target of await readImportTargets(file, project.name)) {
+          const owner = ownerOf(target);
+          if (owner && owner !== name && !targets.includes(owner)) {
+            targets.push(owner);
+          }
+        }
+      }
+      imported.set(name, targets);
+
+      const before = (component.imports || []).map((imp) => imp.name);
+      if (!sameNames(before, targets)) {
+        component.imports = targets.map(
+          (target) =>
+            component.imports?.find((imp) => imp.name === target) || {
+              name: target,
+              data: "",
+              componentType: components[target].componentType,
+            }
+        );
+        change(name, "imports", `imports ${formatNames(targets)} (was ${formatNames(before)})`);
+      }
+    }
+
+    for (const [name, component] of Object.entries(components)) {
+      if (component.missing) {
+        continue;
+      }
+      const usedBy = [...imported].filter(([, targets]) => targets.includes(name)).map(([importer]) => importer);
+      const before = component.usedBy || [];
+      if (!sameNames(before, usedBy)) {
+        component.usedBy = usedBy;
+        change(name, "usedBy", `used by ${formatNames(usedBy)} (was ${formatNames(before)})`);
+      }
+    }
+  }
+
+  return { changes, conflicts };
+}
+
+/**
+ * Renders the differences found by {@link syncConfig}, one per line
+ * @param {SyncChange[]} changes - The differences
+ * @returns {string} The report
+ */
+export function formatSyncChanges(changes: SyncChange[]): string {
+  const markers: Record<SyncChange["kind"], string> = {
+    added: "+",
+    missing: "-",
+    restored: "+",
+    paths: "~",
+    imports: "~",
+    usedBy: "~",
+  };
+  return changes
+    .map((change) => `${markers[change.kind]} ${change.projectType}/${change.name}: ${change.detail}`)
+    .join("\n");
+}
+
+/**
+ * Lists the component folders of each component type of a project. Frontend
+ * API folders also hold contract clients, told apart by their `use<Name>.ts` hook.
+ */
+async function findComponentFolders(projectType: ProjectType): Promise<FoundComponent[]> {
+  const found: FoundComponent[] = [];
+
+  for (const componentType of PROJECT_COMPONENT_TYPES[projectType]) {
+    const typeFolder = path.join(
+      process.cwd(),
+      await getDefaultFolderForComponentType(projectType, componentType)
+    );
+    if (!(await fs.pathExists(typeFolder))) {
+      continue;
+    }
+
+    for (const entry of await fs.readdir(typeFolder, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name === "redux") {
+        continue;
+      }
+      const folder = path.join(typeFolder, entry.name);
+      const files = await listFiles(folder);
+      const isContractClient = files.some((file) => path.basename(file) === `use${entry.name}.ts`);
+      if (
+        files.length === 0 ||
+        (componentType === FrontendComponentType.API && isContractClient) ||
+        (componentType === FrontendComponentType.CONTRACT_CLIENT && !isContractClient)
+      ) {
+        continue;
+      }
+
+      const name =
+        componentType === FrontendComponentType.PAGE && entry.name.endsWith("Page") && entry.name !== "Page"
+          ? entry.name.slice(0, -"Page".length)
+          : entry.name;
+      found.push({ name, componentType, folder, files });
+    }
+  }
+  return found;
+}
+
+/**
+ * The files in a component folder plus its own files outside it
+ */
+async function listComponentFiles(folder: string, files: string[]): Promise<string[]> {
+  const all = new Set((await fs.pathExists(folder)) ? await listFiles(folder) : []);
+  for (const file of files) {
+    if (await fs.pathExists(file)) {
+      all.add(file);
+    }
+  }
+  return [...all];
+}
+
+/**
+ * Resolves the local imports of a file to absolute paths, without extension
+ * checks. `@/` points at the project's src folder; package imports are skipped.
+ */
+async function readImportTargets(filePath: string, projectName: string): Promise<string[]> {
+  const isSolidity = filePath.endsWith(".sol");
+  if (!isSolidity && !SCRIPT_EXTENSIONS.includes(path.extname(filePath))) {
+    return [];
+  }
+
+  const text = await fs.readFile(filePath, "utf-8");
+  const specifiers = isSolidity ? readSolidityImports(text) : readScriptImports(filePath, text);
+  return specifiers.flatMap((specifier) => {
+    if (specifier.startsWith("@/")) {
+      return [path.join(process.cwd(), projectName, "src", specifier.slice(2))];
+    }
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+      return [path.resolve(path.dirname(filePath), specifier)];
+    }
+    return [];
+  });
+}
+
+function readScriptImports(filePath: string, text: string): string[] {
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, false);
+  return sourceFile.statements.flatMap((statement) =>
+    (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+    statement.moduleSpecifier &&
+    ts.isStringLiteral(statement.moduleSpecifier)
+      ? [statement.moduleSpecifier.text]
+      : []
+  );
+}
+
+function readSolidityImports(text: string): string[] {
+  return [...text.matchAll(/^\s*import\s+(?:[^"';]*\s+from\s+)?["']([^"']+)["']/gm)].map((match) => match[1]);
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    files.push(...(entry.isDirectory() ? await listFiles(entryPath) : [entryPath]));
+  }
+  return files.sort();
+}
+
+function stripExtension(filePath: string): string {
+  return filePath.replace(/\.(tsx?|jsx?|sol)$/, "");
+}
+
+function isInsideFolder(folder: string, filePath: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function sameNames(a: string[], b: string[]): boolean {
+  return JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+}
+
+function formatNames(names: string[]): string {
+  return names.length > 0 ? names.join(", ") : "nothing";
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ICreateSpec } from "../types/interfaces";
+
+/**
+ * Reads a `skaya create` spec file
+ * @param specPath - Path to a JSON spec, relative to the current directory
+ * @returns The parsed spec
+ */
+export async function loadCreateSpec(specPath: string): Promise<ICreateSpec> {
+  const fullPath = path.resolve(process.cwd(), specPath);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(fullPath, "utf-8");
+  } catch (error: any) {
+    throw new Error(`Cannot read spec file ${fullPath}: ${error.message}`);
+  }
+
+  let spec: unknown;
+  try {
+    spec = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Spec file ${fullPath} is not valid JSON: ${error.message}`);
+  }
+
+  if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+    throw new Error(`Spec file ${fullPath} must contain a JSON object.`);
+  }
+
+  const { imports, api } = spec as ICreateSpec;
+  if (imports !== undefined && (typeof imports !== "object" || Object.values(imports).some((names) => !Array.isArray(names)))) {
+    throw new Error(`Spec file ${fullPath}: "imports" must map component types to arrays of names.`);
+  }
+  if (api !== undefined && (typeof api !== "object" || Array.isArray(api))) {
+    throw new Error(`Spec file ${fullPath}: "api" must be an object.`);
+  }
+
+  return spec as ICreateSpec;
+}
+
+/**
+ * Parses `--import <type:name>` flag values into the spec `imports` shape
+ */
+export function parseImportFlags(values: string[] = []): Record<string, string[]> | undefined {
+  if (values.length === 0) return undefined;
+
+  const imports: Record<string, string[]> = {};
+  for (const value of values) {
+    const [type, name] = value.split(":");
+    if (!type || !name) {
+      throw new Error(`Invalid --import value "${value}". Use <type>:<name>, e.g. component:Button.`);
+    }
+    (imports[type] = imports[type] || []).push(name);
+  }
+  return imports;
+}
+
+/**
+ * Converts a spec into preset answers keyed by the prompt names used during creation
+ * @param spec - Spec merged from the spec file and CLI flags
+ * @param nonInteractive - Headless runs default to template generation when `ai` is unset
+ */
+export function toPresetAnswers(spec: ICreateSpec, nonInteractive: boolean): Record<string, unknown> {
+  const answers: Record<string, unknown> = {
+    projectType: spec.project,
+    componentType: spec.type,
+    fileName: spec.filename,
+    folder: spec.folder,
+    useAI: spec.ai ?? (nonInteractive ? false : undefined),
+    description: spec.description,
+    selectedApiType: spec.api?.type,
+    apiId: spec.api?.id,
+    withAuth: spec.api?.auth,
+    url: spec.api?.url,
+    method: spec.api?.method,
+    contractName: spec.contract,
+  };
+
+  if (spec.imports) {
+    answers.selectedRequiredImports = Object.keys(spec.imports);
+    for (const [type, names] of Object.entries(spec.imports)) {
+      answers[`${type}Imports`] = names;
+    }
+  }
+
+  return answers;
+}
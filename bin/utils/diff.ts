@@ -0,0 +1,199 @@
+/**
+ * Unchanged lines shown around each change
+ */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Above this many line pairs the LCS table gets too big; the changed middle of
+ * the file is then shown as removed and re-added as a whole
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+const ANSI = {
+  reset: "\u001b[0m",
+  bold: "\u001b[1m",
+  red: "\u001b[31m",
+  green: "\u001b[32m",
+  cyan: "\u001b[36m",
+};
+
+/**
+ * A line of a diff, with the number of lines of each side that precede it
+ */
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * Builds a unified diff (as printed by `diff -u` / `git diff`) between two
+ * versions of a file. `null` stands for a file that does not exist.
+ * @param {string | null} before - Content on disk
+ * @param {string | null} after - Content about to be written
+ * @param {string} filePath - Path shown in the diff header
+ * @returns {string} The diff, or an empty string when both sides are equal
+ */
+export function createUnifiedDiff(before: string | null, after: string | null, filePath: string): string {
+  if (before === after) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const hunks = groupHunks(lines);
+  const output = [
+    `--- ${before === null ? "/dev/null" : `a/${filePath}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${filePath}`}`,
+  ];
+  for (const hunk of hunks) {
+    output.push(formatHunkHeader(hunk), ...hunk.map((line) => `${line.type}${line.text}`));
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Colors a unified diff for the terminal: additions green, removals red and
+ * hunk headers cyan. Output is left plain when stdout is not a terminal or
+ * NO_COLOR is set.
+ * @param {string} diff - A diff from createUnifiedDiff
+ * @returns {string} The colored diff
+ */
+export function colorizeDiff(diff: string): string {
+  if (!process.stdout.isTTY || process.env.NO_COLOR) {
+    return diff;
+  }
+
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return `${ANSI.bold}${line}${ANSI.reset}`;
+      if (line.startsWith("@@")) return `${ANSI.cyan}${line}${ANSI.reset}`;
+      if (line.startsWith("+")) return `${ANSI.green}${line}${ANSI.reset}`;
+      if (line.startsWith("-")) return `${ANSI.red}${line}${ANSI.reset}`;
+      return line;
+    })
+    .join("\n");
+}
+
+function splitLines(content: string | null): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Lines of both sides in order, aligned on their longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const types: DiffLine["type"][] = [
+    ...Array<DiffLine["type"]>(prefix).fill(" "),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...Array<DiffLine["type"]>(suffix).fill(" "),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of types) {
+    const text = type === "+" ? newLines[newIndex] : oldLines[oldIndex];
+    lines.push({ type, text, oldIndex, newIndex });
+    if (type !== "+") oldIndex++;
+    if (type !== "-") newIndex++;
+  }
+  return lines;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine["type"][] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [...Array<DiffLine["type"]>(n).fill("-"), ...Array<DiffLine["type"]>(m).fill("+")];
+  }
+
+  // lcs[i * (m + 1) + j]: length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const types: DiffLine["type"][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      types.push(" ");
+      i++;
+      j++;
+    } else if (j === m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      types.push("-");
+      i++;
+    } else {
+      types.push("+");
+      j++;
+    }
+  }
+  return types;
+}
+
+/**
+ * Splits the lines into hunks of changes with DIFF_CONTEXT_LINES of context;
+ * changes closer than twice that share a hunk
+ */
+function groupHunks(lines: DiffLine[]): DiffLine[][] {
+  const hunks: DiffLine[][] = [];
+  let start = -1;
+  let end = -1;
+  lines.forEach((line, index) => {
+    if (line.type === " ") {
+      return;
+    }
+    const from = Math.max(0, index - DIFF_CONTEXT_LINES);
+    if (start !== -1 && from > end) {
+      hunks.push(lines.slice(start, end));
+      start = -1;
+    }
+    if (start === -1) {
+      start = from;
+    }
+    end = Math.min(lines.length, index + 1 + DIFF_CONTEXT_LINES);
+  });
+  if (start !== -1) {
+    hunks.push(lines.slice(start, end));
+  }
+  return hunks;
+}
+
+function formatHunkHeader(hunk: DiffLine[]): string {
+  const oldCount = hunk.filter((line) => line.type !== "+").length;
+  const newCount = hunk.filter((line) => line.type !== "-").length;
+  // An empty side is numbered after the line it follows, e.g. -0,0 for a new file
+  const oldStart = hunk[0].oldIndex + (oldCount > 0 ? 1 : 0);
+  const newStart = hunk[0].newIndex + (newCount > 0 ? 1 : 0);
+  return `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+}
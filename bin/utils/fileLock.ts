@@ -0,0 +1,198 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A lock older than this is taken over even if its process still runs
+ */
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Prefix of the entry naming a lock's owner: `owner.<pid>.<createdAt>.<id>`
+ */
+const OWNER_PREFIX = "owner.";
+
+/**
+ * Runs a function while holding an advisory lock. The lock is a directory
+ * holding one entry that names its owner; it only ever appears complete, and
+ * is only ever changed through that entry, so a lock is never moved or
+ * removed by anyone who has not checked it. A lock left behind by a process
+ * that is gone, or older than STALE_LOCK_MS, is taken over. Locks are not
+ * re-entrant.
+ * @param lockPath - Path of the lock directory
+ * @param fn - The work to do under the lock
+ * @returns What `fn` returns
+ * @throws Error if the lock is still held by another process after LOCK_TIMEOUT_MS
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const owner = await acquireLock(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lockPath, owner);
+  }
+}
+
+/**
+ * Writes a file by writing a temp file next to it and renaming it over the
+ * target, so readers and crashes never see a partial file
+ * @param filePath - The file to write
+ * @param content - The new content
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+  try {
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * @returns The name of the owner entry this process holds the lock with
+ */
+async function acquireLock(lockPath: string): Promise<string> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    const owner = ownerName();
+    if (await createLock(lockPath, owner)) {
+      return owner;
+    }
+
+    const held = await readOwner(lockPath);
+    // Released between our attempt and the check: try again, removing nothing
+    if (held === undefined) {
+      continue;
+    }
+    // Left empty by a release that was cut short; only an empty lock is removed
+    if (held === null) {
+      await fs.rmdir(lockPath).catch(ignoreCodes("ENOENT", "ENOTEMPTY", "EEXIST"));
+      continue;
+    }
+    if (await isStale(lockPath, held)) {
+      // Renaming the exact entry judged stale fails if the lock has changed
+      // since, so of several waiters at most one takes over, and only that lock
+      try {
+        await fs.rename(path.join(lockPath, held), path.join(lockPath, owner));
+        return owner;
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Timed out waiting for ${lockPath}. If no other skaya process is running, delete it.`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Creates the lock by renaming a complete candidate into place, so no one
+ * ever sees a lock without its owner
+ * @returns Whether the lock was created; false if another is held
+ */
+async function createLock(lockPath: string, owner: string): Promise<boolean> {
+  const candidate = `${lockPath}.${randomUUID()}.tmp`;
+  await fs.mkdir(candidate);
+  try {
+    await fs.writeFile(path.join(candidate, owner), "");
+    // Fails on a held lock, which is never empty
+    await fs.rename(candidate, lockPath);
+    return true;
+  } catch (error: any) {
+    if (["ENOTEMPTY", "EEXIST", "EPERM", "EACCES"].includes(error.code)) {
+      return false;
+    }
+    throw error;
+  } finally {
+    await fs.rm(candidate, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Removes this process's owner entry, then the lock if nobody took it over
+ * meanwhile. A lock taken over as stale has another owner entry, so neither
+ * step can touch it.
+ */
+async function releaseLock(lockPath: string, owner: string): Promise<void> {
+  try {
+    await fs.unlink(path.join(lockPath, owner));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+  await fs.rmdir(lockPath).catch(ignoreCodes("ENOENT", "ENOTEMPTY", "EEXIST"));
+}
+
+/**
+ * @returns The lock's owner entry, null if it has none, undefined if there is no lock
+ */
+async function readOwner(lockPath: string): Promise<string | null | undefined> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(lockPath);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+  return entries.find((entry) => entry.startsWith(OWNER_PREFIX)) ?? null;
+}
+
+/**
+ * A lock is stale when its owner has exited or it has outlived STALE_LOCK_MS.
+ * Owner entries that cannot be parsed are judged by their modification time.
+ */
+async function isStale(lockPath: string, owner: string): Promise<boolean> {
+  const [pid, createdAt] = owner.slice(OWNER_PREFIX.length).split(".").map(Number);
+  let since = createdAt;
+  if (!Number.isFinite(since)) {
+    try {
+      since = (await fs.stat(path.join(lockPath, owner))).mtimeMs;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+  return Date.now() - since > STALE_LOCK_MS || (Number.isInteger(pid) && !isProcessAlive(pid));
+}
+
+function ownerName(): string {
+  return `${OWNER_PREFIX}${process.pid}.${Date.now()}.${randomUUID()}`;
+}
+
+function ignoreCodes(...codes: string[]): (error: any) => void {
+  return (error) => {
+    if (!codes.includes(error.code)) {
+      throw error;
+    }
+  };
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to someone else
+    return error.code === "EPERM";
+  }
+}
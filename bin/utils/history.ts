@@ -0,0 +1,325 @@
+import fs from "fs-extra";
+import path from "path";
+import { ComponentType, ProjectType } from "../types/enums";
+import { ComponentConfig, readConfig, resolveConfigPath, toConfigPath, updateConfig } from "./configLogger";
+import { withFileLock, writeFileAtomic } from "./fileLock";
+
+const HISTORY_DIR = path.join(".skaya", "history");
+const STATE_FILE = "state.json";
+
+/**
+ * Commands recorded in the history
+ */
+export type HistoryCommand = "create" | "update";
+
+/**
+ * A file touched by a transaction; `null` content means the file did not exist
+ */
+export interface FileChange {
+  path: string; // Relative to the folder holding skaya.config.json
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * A component entry changed by a transaction; `null` means there was no entry
+ */
+export interface ConfigChange {
+  name: string;
+  before: ComponentConfig | null;
+  after: ComponentConfig | null;
+}
+
+/**
+ * One recorded `create` or `update`
+ */
+export interface HistoryEntry {
+  id: string;
+  command: HistoryCommand;
+  projectType: ProjectType;
+  componentType: ComponentType;
+  name: string;
+  createdAt: string;
+  files: FileChange[];
+  config: ConfigChange[];
+}
+
+/**
+ * Ids of the entries that can be undone (oldest first) and redone (most
+ * recently undone last)
+ */
+interface HistoryState {
+  undo: string[];
+  redo: string[];
+}
+
+/**
+ * Contents of the files touched so far by the running transaction, before it
+ * touched them
+ */
+let activeTransaction: Map<string, string | null> | undefined;
+
+/**
+ * Remembers a file's current content before it is written, so the running
+ * transaction can restore it. Call it before every write made on behalf of a
+ * `create` or `update`; outside a transaction it does nothing.
+ * @param {string} filePath - The file about to be written
+ */
+export async function trackFileChange(filePath: string): Promise<void> {
+  if (!activeTransaction) {
+    return;
+  }
+  const key = toConfigPath(path.resolve(filePath));
+  if (!activeTransaction.has(key)) {
+    activeTransaction.set(key, await readFileOrNull(resolveConfigPath(key)));
+  }
+}
+
+/**
+ * Runs a `create` or `update` as a transaction and records the files and
+ * component entries it changed in .skaya/history. Recording a new transaction
+ * discards the ones that were undone. If `fn` throws after changing files or
+ * components, what it changed is still recorded, so it can be undone, and the
+ * error is rethrown.
+ * @param {object} info - What is being done
+ * @param {Function} fn - The work; its writes must go through trackFileChange
+ * @returns {Promise<T>} What `fn` returns
+ */
+export async function recordTransaction<T>(
+  info: Pick<HistoryEntry, "command" | "projectType" | "componentType" | "name">,
+  fn: () => Promise<T>
+): Promise<T> {
+  const componentsBefore = await readComponents(info.projectType);
+  const touched = new Map<string, string | null>();
+  activeTransaction = touched;
+  try {
+    return await fn();
+  } finally {
+    activeTransaction = undefined;
+    await recordEntry(info, touched, componentsBefore);
+  }
+}
+
+/**
+ * Records what a transaction changed as a new history entry, unless it changed nothing
+ */
+async function recordEntry(
+  info: Pick<HistoryEntry, "command" | "projectType" | "componentType" | "name">,
+  touched: Map<string, string | null>,
+  componentsBefore: Record<string, ComponentConfig>
+): Promise<void> {
+  const files: FileChange[] = [];
+  for (const [filePath, before] of touched) {
+    const after = await readFileOrNull(resolveConfigPath(filePath));
+    if (after !== before) {
+      files.push({ path: filePath, before, after });
+    }
+  }
+  const config = diffComponents(componentsBefore, await readComponents(info.projectType));
+  if (files.length === 0 && config.length === 0) {
+    return;
+  }
+
+  const createdAt = new Date().toISOString();
+  const entry: HistoryEntry = {
+    id: `${createdAt.replace(/[-:.]/g, "").replace("T", "-").slice(0, 18)}-${info.command}-${info.name}`,
+    ...info,
+    createdAt,
+    files,
+    config,
+  };
+  await updateHistoryState(async (state) => {
+    await writeFileAtomic(getEntryPath(entry.id), JSON.stringify(entry, null, 2));
+    for (const id of state.redo) {
+      await fs.remove(getEntryPath(id));
+    }
+    state.undo.push(entry.id);
+    state.redo = [];
+  });
+}
+
+/**
+ * Restores the files and component entries of the latest transaction to how
+ * they were before it
+ * @returns {Promise<HistoryEntry>} The undone entry
+ * @throws Error if there is nothing to undo or its files were edited since
+ */
+export async function undoTransaction(): Promise<HistoryEntry> {
+  return updateHistoryState(async (state) => {
+    const id = state.undo[state.undo.length - 1];
+    if (!id) {
+      throw new Error("Nothing to undo.");
+    }
+    const entry = await readEntry(id);
+    await applyEntry(entry, "before");
+    state.undo.pop();
+    state.redo.push(id);
+    return entry;
+  });
+}
+
+/**
+ * Re-applies the most recently undone transaction
+ * @returns {Promise<HistoryEntry>} The redone entry
+ * @throws Error if there is nothing to redo or its files were edited since the undo
+ */
+export async function redoTransaction(): Promise<HistoryEntry> {
+  return updateHistoryState(async (state) => {
+    const id = state.redo[state.redo.length - 1];
+    if (!id) {
+      throw new Error("Nothing to redo.");
+    }
+    const entry = await readEntry(id);
+    await applyEntry(entry, "after");
+    state.redo.pop();
+    state.undo.push(id);
+    return entry;
+  });
+}
+
+/**
+ * Lists the recorded transactions
+ * @returns {Promise<{ applied: HistoryEntry[], undone: HistoryEntry[] }>} Applied entries newest first, then the undone ones in redo order
+ */
+export async function readHistory(): Promise<{ applied: HistoryEntry[]; undone: HistoryEntry[] }> {
+  const state = await readHistoryState();
+  return {
+    applied: await Promise.all([...state.undo].reverse().map(readEntry)),
+    undone: await Promise.all([...state.redo].reverse().map(readEntry)),
+  };
+}
+
+/**
+ * Renders the history, one transaction per line
+ * @param {object} history - The result of readHistory
+ * @returns {string} The listing
+ */
+export function formatHistory(history: { applied: HistoryEntry[]; undone: HistoryEntry[] }): string {
+  if (history.applied.length === 0 && history.undone.length === 0) {
+    return "No history yet.";
+  }
+
+  const line = (entry: HistoryEntry) =>
+    `  ${entry.createdAt.slice(0, 19).replace("T", " ")}  ${entry.command.padEnd(6)}  ${entry.projectType} ${
+      entry.componentType
+    } ${entry.name} (${entry.files.length} file(s))`;
+  const lines = ["Applied (newest first, `skaya undo` reverts the first):"];
+  lines.push(...(history.applied.length > 0 ? history.applied.map(line) : ["  none"]));
+  if (history.undone.length > 0) {
+    lines.push("Undone (`skaya redo` re-applies the first):", ...history.undone.map(line));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Writes one side of an entry back. Every file must still hold the other
+ * side's content; files written before a failure are put back.
+ */
+async function applyEntry(entry: HistoryEntry, side: "before" | "after"): Promise<void> {
+  const expected = side === "before" ? "after" : "before";
+  const edited: string[] = [];
+  for (const file of entry.files) {
+    if ((await readFileOrNull(resolveConfigPath(file.path))) !== file[expected]) {
+      edited.push(file.path);
+    }
+  }
+  if (edited.length > 0) {
+    throw new Error(
+      `Cannot ${side === "before" ? "undo" : "redo"} ${entry.command} ${entry.name}, these files were edited since:\n${edited
+        .map((file) => `  ${file}`)
+        .join("\n")}`
+    );
+  }
+
+  const written: FileChange[] = [];
+  try {
+    for (const file of entry.files) {
+      await writeFileOrRemove(resolveConfigPath(file.path), file[side]);
+      written.push(file);
+    }
+    await updateConfig((config) => {
+      const project = config[entry.projectType];
+      if (!project) {
+        throw new Error(`No ${entry.projectType} project in skaya.config.json.`);
+      }
+      const components = (project.components ||= {});
+      for (const change of entry.config) {
+        const component = change[side];
+        if (component) {
+          components[change.name] = component;
+        } else {
+          delete components[change.name];
+        }
+      }
+    });
+  } catch (error) {
+    for (const file of written.reverse()) {
+      await writeFileOrRemove(resolveConfigPath(file.path), file[expected]);
+    }
+    throw error;
+  }
+}
+
+async function writeFileOrRemove(filePath: string, content: string | null): Promise<void> {
+  if (content !== null) {
+    await fs.ensureDir(path.dirname(filePath));
+    await writeFileAtomic(filePath, content);
+    return;
+  }
+
+  await fs.remove(filePath);
+  // Drop the folders the file was created in once they are empty
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(process.cwd() + path.sep) && (await fs.readdir(dir)).length === 0) {
+    await fs.remove(dir);
+    dir = path.dirname(dir);
+  }
+}
+
+function diffComponents(
+  before: Record<string, ComponentConfig>,
+  after: Record<string, ComponentConfig>
+): ConfigChange[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((name) => JSON.stringify(before[name]) !== JSON.stringify(after[name]))
+    .map((name) => ({ name, before: before[name] || null, after: after[name] || null }));
+}
+
+async function readComponents(projectType: ProjectType): Promise<Record<string, ComponentConfig>> {
+  return JSON.parse(JSON.stringify((await readConfig())[projectType]?.components || {}));
+}
+
+async function updateHistoryState<T>(mutator: (state: HistoryState) => Promise<T>): Promise<T> {
+  const historyDir = path.join(process.cwd(), HISTORY_DIR);
+  await fs.ensureDir(historyDir);
+  return withFileLock(path.join(historyDir, `${STATE_FILE}.lock`), async () => {
+    const state = await readHistoryState();
+    const result = await mutator(state);
+    await writeFileAtomic(path.join(historyDir, STATE_FILE), JSON.stringify(state, null, 2));
+    return result;
+  });
+}
+
+async function readHistoryState(): Promise<HistoryState> {
+  const statePath = path.join(process.cwd(), HISTORY_DIR, STATE_FILE);
+  return (await fs.pathExists(statePath)) ? fs.readJson(statePath) : { undo: [], redo: [] };
+}
+
+async function readEntry(id: string): Promise<HistoryEntry> {
+  return fs.readJson(getEntryPath(id));
+}
+
+function getEntryPath(id: string): string {
+  return path.join(process.cwd(), HISTORY_DIR, `${id}.json`);
+}
+
+async function readFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
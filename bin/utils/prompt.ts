@@ -1,25 +1,185 @@
-import inquirer from "inquirer";
-import { FrontendComponentType, BackendComponentType, ProjectType, ComponentType } from "../types/enums";
+import inquirer, { DistinctQuestion } from "inquirer";
+import { FrontendComponentType, BackendComponentType, BlokchainComponentType, ProjectType, ComponentType } from "../types/enums";
 import { ApiEndpointConfig } from "../types/interfaces";
 
+/**
+ * Answers supplied up front (CLI flags or a spec file), keyed by question name
+ */
+let presetAnswers: Record<string, unknown> = {};
+let nonInteractive = false;
+
+/**
+ * Where a missing answer can be supplied from, used to build headless error messages
+ */
+const ANSWER_SOURCES: Record<string, string> = {
+  projectType: "--project / spec.project",
+  componentType: "[type] argument / spec.type",
+  fileName: "--filename / spec.filename",
+  folder: "--folder / spec.folder",
+  useAI: "--ai or --no-ai / spec.ai",
+  description: "--description / spec.description",
+  selectedApiType: "--api-type / spec.api.type",
+  apiId: "--api-id / spec.api.id",
+  withAuth: "--api-auth or --no-api-auth / spec.api.auth",
+  url: "--api-url / spec.api.url",
+  method: "--api-method / spec.api.method",
+  contractName: "--contract / spec.contract",
+  confirmRemove: "--yes",
+};
+
+/**
+ * Raised in non-interactive mode when a question has no preset answer and no default
+ */
+export class MissingAnswerError extends Error {
+  constructor(public readonly answerName: string, question: string) {
+    const source = ANSWER_SOURCES[answerName] || `spec.${answerName}`;
+    super(`Missing answer for "${question}" (${answerName}). Provide it with ${source}.`);
+    this.name = "MissingAnswerError";
+  }
+}
+
+/**
+ * Registers answers that should be used instead of prompting
+ * @param answers - Answers keyed by question name
+ * @param options.nonInteractive - Fail on unanswered questions instead of prompting
+ */
+export function setPresetAnswers(
+  answers: Record<string, unknown>,
+  options: { nonInteractive?: boolean } = {}
+): void {
+  presetAnswers = Object.fromEntries(
+    Object.entries(answers).filter(([, value]) => value !== undefined)
+  );
+  nonInteractive = !!options.nonInteractive;
+}
+
+/**
+ * Whether prompts are disabled for this run
+ */
+export function isNonInteractive(): boolean {
+  return nonInteractive;
+}
+
+/**
+ * Drop-in replacement for `inquirer.prompt` that answers from presets first.
+ * Unanswered questions are prompted for, or in non-interactive mode resolved
+ * from their default (checkboxes default to no selection) or rejected with a
+ * MissingAnswerError.
+ */
+export async function promptAnswers<T extends Record<string, any> = Record<string, any>>(
+  questions: DistinctQuestion[]
+): Promise<T> {
+  const answers: Record<string, any> = {};
+
+  for (const question of questions as any[]) {
+    const name: string = question.name;
+
+    if (question.when !== undefined) {
+      const shouldAsk = typeof question.when === "function"
+        ? await question.when(answers)
+        : question.when;
+      if (!shouldAsk) continue;
+    }
+
+    const message: string = typeof question.message === "function"
+      ? await question.message(answers)
+      : question.message;
+    const choices = typeof question.choices === "function"
+      ? await question.choices(answers)
+      : question.choices;
+
+    if (name in presetAnswers) {
+      answers[name] = await resolvePresetAnswer(question, name, message, choices, answers);
+      continue;
+    }
+
+    if (nonInteractive) {
+      const fallback = typeof question.default === "function"
+        ? await question.default(answers)
+        : question.default;
+      if (fallback !== undefined) {
+        answers[name] = fallback;
+      } else if (question.type === "checkbox") {
+        answers[name] = [];
+      } else {
+        throw new MissingAnswerError(name, message);
+      }
+      continue;
+    }
+
+    const result = await inquirer.prompt([{ ...question, message, choices }] as any, answers);
+    answers[name] = result[name];
+  }
+
+  return answers as T;
+}
+
+/**
+ * Maps a preset onto the question's choices and runs its validator,
+ * so spec files can reference choices by name or value.
+ */
+async function resolvePresetAnswer(
+  question: any,
+  name: string,
+  message: string,
+  choices: any[] | undefined,
+  answers: Record<string, any>
+): Promise<any> {
+  const preset = presetAnswers[name];
+  let value: any = preset;
+
+  if (Array.isArray(choices)) {
+    const options = choices
+      .filter((choice) => choice && choice.type !== "separator")
+      .map((choice) => typeof choice === "object"
+        ? { name: String(choice.name ?? choice.value), value: choice.value }
+        : { name: String(choice), value: choice });
+
+    const findChoice = (wanted: unknown) => {
+      const match = options.find((option) => option.value === wanted || option.name === String(wanted));
+      if (!match) {
+        throw new Error(
+          `Invalid answer "${wanted}" for "${message}" (${name}). Expected one of: ${options.map((o) => o.name).join(", ") || "(none)"}.`
+        );
+      }
+      return match.value;
+    };
+
+    value = question.type === "checkbox"
+      ? (Array.isArray(preset) ? preset : [preset]).map(findChoice)
+      : findChoice(preset);
+  }
+
+  if (typeof question.validate === "function") {
+    const valid = await question.validate(value, answers);
+    if (valid !== true) {
+      throw new Error(`Invalid answer for "${message}" (${name}): ${typeof valid === "string" ? valid : "rejected by validation"}`);
+    }
+  }
+
+  return value;
+}
+
 /**
  * Prompts user to select component type based on project type
  */
 export async function promptComponentType(projectType: ProjectType): Promise<ComponentType> {
-  const { componentType } = await inquirer.prompt([{
+  const { componentType } = await promptAnswers<{ componentType: ComponentType }>([{
     type: "list",
     name: "componentType",
     message: `Select ${projectType} component type:`,
     choices: projectType === ProjectType.FRONTEND
       ? Object.values(FrontendComponentType)
-      : Object.values(BackendComponentType)
+      : projectType === ProjectType.BLOCKCHAIN
+        ? Object.values(BlokchainComponentType)
+        : Object.values(BackendComponentType)
   }]);
   return componentType;
 }
 
 
 export async function askApiEndpointConfig(): Promise<ApiEndpointConfig> {
-    const answers = await inquirer.prompt([
+    const answers = await promptAnswers([
         {
             type: 'number',
             name: 'apiId',
@@ -52,4 +212,4 @@ export async function askApiEndpointConfig(): Promise<ApiEndpointConfig> {
         url: answers.url,
         method: answers.method,
     };
-}
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import fs from "fs-extra";
+import path from "path";
+import { execa } from "execa";
+import { ProjectType } from "../types/enums";
+import { readConfig } from "./configLogger";
+
+/**
+ * A test run taking longer than this is stopped and counts as failed
+ */
+const TEST_TIMEOUT_MS = 120_000;
+
+/**
+ * Test runners `--verify` can drive
+ */
+export type TestRunner = "vitest" | "jest";
+
+/**
+ * Outcome of running a set of test files
+ */
+export interface TestRunResult {
+  passed: boolean;
+  output: string; // Combined stdout and stderr of the runner
+}
+
+/**
+ * Finds a project's folder and the test runner its package.json depends on
+ * @param {ProjectType} projectType - The project whose tests are run
+ * @returns {Promise<{ projectDir: string, runner: TestRunner }>} Absolute project folder and runner
+ * @throws Error if the project has no package.json or depends on neither vitest nor jest
+ */
+export async function detectTestRunner(projectType: ProjectType): Promise<{ projectDir: string; runner: TestRunner }> {
+  const projectName = (await readConfig())[projectType]?.name || `${projectType}SkayaProject`;
+  const projectDir = path.join(process.cwd(), projectName);
+  const packageJsonPath = path.join(projectDir, "package.json");
+  if (!(await fs.pathExists(packageJsonPath))) {
+    throw new Error(`No package.json found in ${projectName}, cannot run its tests.`);
+  }
+
+  const packageJson = await fs.readJson(packageJsonPath);
+  const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  const runner = (["vitest", "jest"] as TestRunner[]).find((name) => name in dependencies);
+  if (!runner) {
+    throw new Error(`--verify needs vitest or jest in ${projectName}/package.json.`);
+  }
+  return { projectDir, runner };
+}
+
+/**
+ * Runs only the given test files with the project's own runner, through npx
+ * so the version installed in the project is used
+ * @param {string} projectDir - Folder holding the project's package.json
+ * @param {TestRunner} runner - The runner from detectTestRunner
+ * @param {string[]} testFiles - Absolute paths of the test files
+ * @returns {Promise<TestRunResult>} Whether every test passed, with the runner's output
+ */
+export async function runTestFiles(projectDir: string, runner: TestRunner, testFiles: string[]): Promise<TestRunResult> {
+  const files = testFiles.map((file) => path.relative(projectDir, file).split(path.sep).join("/"));
+  const args = runner === "vitest" ? ["vitest", "run", ...files] : ["jest", "--runTestsByPath", ...files];
+
+  const result = await execa("npx", ["--no-install", ...args], {
+    cwd: projectDir,
+    all: true,
+    reject: false,
+    timeout: TEST_TIMEOUT_MS,
+    env: { CI: "true" }, // No watch mode or interactive reporters
+  });
+  const output = result.timedOut
+    ? `${result.all || ""}\n${runner} did not finish within ${TEST_TIMEOUT_MS / 1000}s.`
+    : result.all || "";
+  return { passed: result.exitCode === 0 && !result.timedOut, output };
+}
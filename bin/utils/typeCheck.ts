@@ -0,0 +1,136 @@
+import path from "path";
+import ts from "typescript";
+import { toConfigPath } from "./configLogger";
+
+/**
+ * Used when no tsconfig.json is found between a file and the working directory
+ */
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+/**
+ * Errors caused by packages or type definitions that are not installed yet
+ * (no `npm install` in the project), which the generated code cannot fix:
+ * missing declaration files, test runner / node globals and JSX types
+ */
+const UNINSTALLED_PACKAGE_CODES = new Set([7016, 2580, 2582, 2591, 2593, 2875, 7026]);
+
+/**
+ * "Cannot find module", reported for bare package imports only
+ */
+const MODULE_NOT_FOUND_CODES = new Set([2307, 2792]);
+
+/**
+ * A compiler error in a checked file
+ */
+export interface TypeDiagnostic {
+  file: string; // Relative to the folder holding skaya.config.json
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+/**
+ * Type-checks files before they are written. The files are compiled in
+ * memory, in place of whatever is on disk at their paths, together with the
+ * project files they import, using the nearest tsconfig.json. Only `.ts` and
+ * `.tsx` files are checked.
+ * @param {Array<{ path: string, content: string }>} files - Absolute paths and contents
+ * @returns {TypeDiagnostic[]} Errors found in the given files, in file order
+ */
+export function checkTypeScriptFiles(files: { path: string; content: string }[]): TypeDiagnostic[] {
+  const sources = new Map(
+    files.filter((file) => /\.tsx?$/.test(file.path)).map((file) => [path.resolve(file.path), file.content])
+  );
+  if (sources.size === 0) {
+    return [];
+  }
+
+  const options = loadCompilerOptions(path.dirname([...sources.keys()][0]));
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile, directoryExists } = host;
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const content = sources.get(path.resolve(fileName));
+    return content !== undefined
+      ? ts.createSourceFile(fileName, content, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+  };
+  host.fileExists = (fileName) => sources.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+  host.readFile = (fileName) => sources.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+  // The component folder may not exist yet
+  host.directoryExists = (dirName) =>
+    [...sources.keys()].some((file) => file.startsWith(path.resolve(dirName) + path.sep)) ||
+    (directoryExists ? directoryExists.call(host, dirName) : ts.sys.directoryExists(dirName));
+
+  const program = ts.createProgram({ rootNames: [...sources.keys()], options, host });
+  const diagnostics: TypeDiagnostic[] = [];
+  for (const fileName of sources.keys()) {
+    const sourceFile = program.getSourceFile(fileName)!;
+    for (const diagnostic of [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]) {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+      if (diagnostic.category !== ts.DiagnosticCategory.Error || isUninstalledPackage(diagnostic.code, message)) {
+        continue;
+      }
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0);
+      diagnostics.push({
+        file: toConfigPath(fileName),
+        line: line + 1,
+        column: character + 1,
+        code: diagnostic.code,
+        message,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Renders diagnostics the way `tsc` prints them, one per line
+ * @param {TypeDiagnostic[]} diagnostics - Diagnostics from checkTypeScriptFiles
+ * @returns {string} The listing
+ */
+export function formatTypeDiagnostics(diagnostics: TypeDiagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) => `  ${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - error TS${diagnostic.code}: ${diagnostic.message}`)
+    .join("\n");
+}
+
+/**
+ * Reads the tsconfig.json closest to `dir`, looking no higher than the
+ * working directory
+ */
+function loadCompilerOptions(dir: string): ts.CompilerOptions {
+  const root = process.cwd();
+  for (let current = dir; ; current = path.dirname(current)) {
+    const configPath = path.join(current, "tsconfig.json");
+    if (ts.sys.fileExists(configPath)) {
+      const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+      if (error) {
+        throw new Error(`Cannot read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+      }
+      const { options } = ts.parseJsonConfigFileContent(config, ts.sys, current, undefined, configPath);
+      return { ...options, noEmit: true };
+    }
+    if (current === root || !current.startsWith(root + path.sep)) {
+      return { ...DEFAULT_COMPILER_OPTIONS, noEmit: true };
+    }
+  }
+}
+
+function isUninstalledPackage(code: number, message: string): boolean {
+  if (UNINSTALLED_PACKAGE_CODES.has(code)) {
+    return true;
+  }
+  const specifier = message.match(/'([^']+)'/)?.[1];
+  return MODULE_NOT_FOUND_CODES.has(code) && !!specifier && !specifier.startsWith(".") && !specifier.startsWith("/");
+}
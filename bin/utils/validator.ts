@@ -1,4 +1,4 @@
-import { ProjectType, FrontendComponentType, BackendComponentType } from "../types/enums";
+import { ProjectType, FrontendComponentType, BackendComponentType, BlokchainComponentType, AIProviderType, AIResponseMode, GraphFormat, UsageGrouping } from "../types/enums";
 
 /**
  * Validates project type
@@ -19,4 +19,39 @@ export function isValidFrontendComponent(type: string): type is FrontendComponen
  */
 export function isValidBackendComponent(type: string): type is BackendComponentType {
   return Object.values(BackendComponentType).includes(type as BackendComponentType);
-}
\ No newline at end of file
+}
+
+/**
+ * Validates blockchain component type
+ */
+export function isValidBlockchainComponent(type: string): type is BlokchainComponentType {
+  return Object.values(BlokchainComponentType).includes(type as BlokchainComponentType);
+}
+
+/**
+ * Validates AI provider
+ */
+export function isValidAIProvider(type: string): type is AIProviderType {
+  return Object.values(AIProviderType).includes(type as AIProviderType);
+}
+
+/**
+ * Validates AI response mode
+ */
+export function isValidAIResponseMode(mode: string): mode is AIResponseMode {
+  return Object.values(AIResponseMode).includes(mode as AIResponseMode);
+}
+
+/**
+ * Validates graph output format
+ */
+export function isValidGraphFormat(format: string): format is GraphFormat {
+  return Object.values(GraphFormat).includes(format as GraphFormat);
+}
+
+/**
+ * Validates `skaya usage` grouping
+ */
+export function isValidUsageGrouping(grouping: string): grouping is UsageGrouping {
+  return Object.values(UsageGrouping).includes(grouping as UsageGrouping);
+}
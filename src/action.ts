@@ -7,23 +7,44 @@
 
 import fs from "fs-extra";
 import path from "path";
-import { ProjectType } from "../bin/types/enums"; // Ensure ComponentType is imported
-import { ICreateComponentParams } from "../bin/types/interfaces";
+import { BackendComponentType, BlockchainFramework, ComponentType, FrontendComponentType, GraphFormat, ProjectType, UsageGrouping } from "../bin/types/enums"; // Ensure ComponentType is imported
+import { ICreateComponentParams, IRemoveComponentParams, IRenameComponentParams } from "../bin/types/interfaces";
 import inquirer from "inquirer";
 import {
   saveProjectComponentConfig,
   saveProjectConfig,
-  updateComponentReferences,
   getProjectComponentConfig, 
+  removeProjectComponentConfig,
+  renameProjectComponentConfig,
+  resolveConfigPath,
+  updateConfig,
   ComponentConfig, 
   readConfig,
   Config,
   ProjectConfig
 } from "../bin/utils/configLogger";
 import { generateFromTemplate } from "./scripts/templateGenerator";
+import { registerRoute, unregisterRoute } from "./scripts/FolderCreator/BackendFileCreator/Routes";
+import { removeApiEndpoint, renameApiEndpoint } from "./scripts/FolderCreator/FrontendFileCreator/Api";
+import { renameComponentFiles, rewriteImporter } from "./scripts/FolderCreator/RenameComponent";
 import TemplateService from "./services/TemplateService";
 import { getDefaultFolderForComponentType } from "../bin/utils/ProjectScanner";
+import {
+  ComponentFilter,
+  buildComponentGraph,
+  collectComponents,
+  formatComponentGraph,
+  formatComponentTable,
+} from "../bin/utils/componentGraph";
+import { formatSyncChanges, syncConfig } from "../bin/utils/configSync";
+import { formatHistory, readHistory, recordTransaction, redoTransaction, undoTransaction } from "../bin/utils/history";
+import { detectTestRunner } from "../bin/utils/testRunner";
+import { verifyComponentTests } from "./scripts/verifyComponent";
+import { PROMPTS_DIR, ejectPrompts } from "./ai/prompts";
+import { AI_CACHE_DIR, clearResponseCache } from "./ai/responseCache";
+import { formatUsageReport, readAIUsage, withAIUsageScope } from "./ai/usage";
 import { execa } from 'execa';
+import { promptAnswers } from "../bin/utils/prompt";
 
 /**
  * Creates a new project scaffold
@@ -40,15 +61,6 @@ export async function createProject(projectType: ProjectType): Promise<void> {
     },
   ]);
 
-  // todo: Add for backend and blockchain components
-
-  if (
-    projectType === ProjectType.BACKEND ||
-    projectType === ProjectType.BLOCKCHAIN
-  ) {
-    console.log(`⚠️  ${projectType} component creation is coming soon!`);
-    return;
-  }
   const targetPath = path.join(process.cwd(), folder); // !important: Using process.cwd() to ensure correct path resolution only while creating project
 
   if (await fs.pathExists(targetPath)) {
@@ -67,6 +79,9 @@ export async function createProject(projectType: ProjectType): Promise<void> {
   await saveProjectConfig(projectType, folder, templateType);
 
   console.log(`✅ ${projectType} project initialized in ${folder}`);
+  if (templateType === BlockchainFramework.FOUNDRY) {
+    console.log(`ℹ️  Run \`npm run setup\` in ${folder} to install forge-std before building.`);
+  }
 }
 
 /**
@@ -77,7 +92,7 @@ export async function createFile(
   params: ICreateComponentParams
 ): Promise<void> {
   const { componentType, projectType, fileName } = params;
-  const answers = await inquirer.prompt([
+  const answers = await promptAnswers([
     {
       type: "input",
       name: "folder",
@@ -89,34 +104,56 @@ export async function createFile(
     },
   ]);
 
-  // todo: Add for backend and blockchain components
-  if (
-    projectType === ProjectType.BACKEND ||
-    projectType === ProjectType.BLOCKCHAIN
-  ) {
-    console.log(`⚠️  ${projectType} component creation is coming soon!`);
-    return;
-  }
-
   const targetFolder = answers.folder;
+  const testRunner = params.verify && !params.dryRun ? await detectTestRunner(projectType) : undefined;
+
+  await recordTransaction({ command: "create", projectType, componentType, name: fileName }, () => withAIUsageScope({ projectType, componentType, component: fileName }, async () => {
+    const { createdFiles, aiDescription, imports, context } = await generateFromTemplate({
+      projectType,
+      componentType,
+      fileName,
+      targetFolder,
+      ai: { provider: params.provider, model: params.model, responseMode: params.responseMode, cache: params.cache },
+      skipReview: params.yes,
+      dryRun: params.dryRun,
+      openApiSpec: params.openApiSpec,
+    });
+    if (createdFiles.length === 0) {
+      console.log(params.dryRun ? "Dry run, nothing was written." : `No files were written for ${fileName}.`);
+      return;
+    }
+    const verification = testRunner && await verifyComponentTests({
+      projectType,
+      ...testRunner,
+      files: createdFiles,
+      fix: !!aiDescription,
+      ai: { provider: params.provider, model: params.model, responseMode: params.responseMode, cache: params.cache },
+      context,
+    });
 
-  const { createdFiles, aiDescription, imports } = await generateFromTemplate({
-    projectType,
-    componentType,
-    fileName,
-    targetFolder,
-  });
-
-  await saveProjectComponentConfig(projectType, componentType, fileName, {
-    source: aiDescription ? 'ai' : 'template',
-    files: createdFiles,
-    ...(aiDescription && { aiPrompt: aiDescription }),
-    ...(imports && { imports }) // Save imports if they exist
-  });
-
-  for (const filePath of createdFiles) {
-    console.log(`✅ ${componentType} file created at ${filePath}`);
-  }
+    await saveProjectComponentConfig(projectType, componentType, fileName, {
+      source: aiDescription ? 'ai' : 'template',
+      files: createdFiles,
+      verification, // A result from before these files were written no longer applies
+      context: context && { sources: context.sources, tokens: context.tokens },
+      ...(aiDescription && { aiPrompt: aiDescription }),
+      ...(imports && { imports }) // Save imports if they exist
+    });
+
+    for (const filePath of createdFiles) {
+      console.log(`✅ ${componentType} file created at ${filePath}`);
+    }
+
+    if (componentType === BackendComponentType.ROUTE) {
+      const middlewares = (imports || [])
+        .filter((imp) => imp.componentType === BackendComponentType.MIDDLEWARE)
+        .map((imp) => imp.name);
+      const routerEntry = await registerRoute(fileName, createdFiles, middlewares);
+      if (routerEntry) {
+        console.log(`✅ Route registered in ${routerEntry}`);
+      }
+    }
+  }));
 }
 
 /**
@@ -138,61 +175,351 @@ export async function updateFile(params: ICreateComponentParams): Promise<void>
     throw new Error(`Component ${fileName} not found at ${componentPath}`);
   }
 
-  if (projectType === ProjectType.BACKEND || projectType === ProjectType.BLOCKCHAIN) {
-    console.log(`⚠️  ${projectType} component update is coming soon!`);
-    return;
-  }
-
   // Load existing config first
   const existingConfig = await getProjectComponentConfig(projectType, fileName);
   if (!existingConfig) {
     throw new Error(`Configuration not found for component ${fileName}. Cannot update.`);
   }
+  const testRunner = params.verify && !params.dryRun ? await detectTestRunner(projectType) : undefined;
+
+  await recordTransaction({ command: "update", projectType, componentType, name: fileName }, () => withAIUsageScope({ projectType, componentType, component: fileName }, async () => {
+    // !dev Use updateExistingTemplateFiles: true or not
+    const { createdFiles, rejectedFiles, aiDescription, imports, context } = await generateFromTemplate({
+      projectType,
+      componentType,
+      fileName,
+      targetFolder,
+      updateExistingTemplateFiles: true,
+      ai: { provider: params.provider, model: params.model, responseMode: params.responseMode, cache: params.cache },
+      skipReview: params.yes,
+      dryRun: params.dryRun,
+    });
+    if (createdFiles.length === 0) {
+      console.log(params.dryRun ? "Dry run, nothing was written." : `No files were written for ${fileName}.`);
+      return;
+    }
+    // Rejected files stay on disk as they were, and part of the component
+    const keptFiles: string[] = [];
+    for (const file of rejectedFiles || []) {
+      if (await fs.pathExists(file)) {
+        keptFiles.push(file);
+      }
+    }
+    const verification = testRunner && await verifyComponentTests({
+      projectType,
+      ...testRunner,
+      files: [...createdFiles, ...keptFiles],
+      fix: !!aiDescription,
+      ai: { provider: params.provider, model: params.model, responseMode: params.responseMode, cache: params.cache },
+      context,
+    });
 
-  // !dev Use updateExistingTemplateFiles: true or not
-  const { createdFiles, aiDescription, imports } = await generateFromTemplate({
-    projectType,
-    componentType,
+    // Prepare the update data by merging with existing config
+    const updateData: Partial<ComponentConfig> = {
+      ...existingConfig, // Keep all existing config properties
+      files: [...createdFiles, ...keptFiles], // Update files list
+      ...(aiDescription && { aiPrompt: aiDescription }), // Update AI prompt if exists
+      imports: imports || existingConfig.imports, // Use new imports or keep existing
+      verification, // A result from before this update no longer applies
+      context: context && { sources: context.sources, tokens: context.tokens }, // Only describes AI output
+      updatedAt: new Date().toISOString() // Add update timestamp
+    };
+
+    // This will update the existing config rather than create new, along with
+    // the usedBy lists of old and new imports
+    await saveProjectComponentConfig(projectType, componentType, fileName, updateData);
+
+    for (const filePath of createdFiles) {
+      console.log(`✅ ${componentType} file updated at ${filePath}`);
+    }
+  }));
+}
+
+/**
+ * Deletes a component's files and config entry, and undoes what creating it
+ * added to shared files (route mounts, API endpoints)
+ * @param {IRemoveComponentParams} params - Component removal parameters
+ */
+export async function removeFile(params: IRemoveComponentParams): Promise<void> {
+  const { componentType, projectType, force } = params;
+  const { components, fileName, existingConfig, targetFolder, componentPath, files, ownFiles } =
+    await findExistingComponent(params);
+
+  const dependents = (existingConfig?.usedBy || []).filter((name) => components[name]);
+  if (dependents.length > 0) {
+    if (!force) {
+      throw new Error(
+        `${fileName} is still imported by ${dependents.join(", ")}. Remove those imports first, or pass --force to remove it anyway.`
+      );
+    }
+    console.warn(`⚠️  ${dependents.join(", ")} still import ${fileName} and will need to be updated.`);
+  }
+
+  const { confirmRemove } = await promptAnswers([
+    {
+      type: "confirm",
+      name: "confirmRemove",
+      message: `Delete ${componentType} ${fileName} and its files?`,
+      default: false,
+    },
+  ]);
+  if (!confirmRemove) {
+    console.log("Removal cancelled.");
+    return;
+  }
+
+  if (componentType === BackendComponentType.ROUTE) {
+    const routeFiles = files.length ? files : [path.join(componentPath, `${fileName}.ts`)];
+    const routerEntry = await unregisterRoute(fileName, routeFiles);
+    if (routerEntry) {
+      console.log(`✅ Route unregistered from ${routerEntry}`);
+    }
+  }
+  if (componentType === FrontendComponentType.API) {
+    const apiFile = await removeApiEndpoint(targetFolder, fileName, ownFiles);
+    if (apiFile) {
+      console.log(`✅ Endpoints of ${fileName} removed from ${apiFile}`);
+    }
+  }
+
+  for (const filePath of [componentPath, ...ownFiles.filter((file) => !isInsideFolder(componentPath, file))]) {
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      console.log(`🗑️  Deleted ${filePath}`);
+    }
+  }
+
+  if (existingConfig) {
+    await removeProjectComponentConfig(projectType, fileName);
+  }
+  console.log(`✅ Removed ${componentType} ${fileName}`);
+}
+
+/**
+ * Renames a component's folder, files and identifiers, and updates its
+ * importers, its config entry and what creating it added to shared files
+ * @param {IRenameComponentParams} params - Component rename parameters
+ */
+export async function renameFile(params: IRenameComponentParams): Promise<void> {
+  const { componentType, projectType, newName } = params;
+  const { components, fileName, existingConfig, targetFolder, componentPath, files, ownFiles } =
+    await findExistingComponent(params);
+
+  const newComponentPath = TemplateService.resolveComponentFolder(newName, targetFolder, componentType);
+  const taken = Object.keys(components).some(
+    (name) => name !== fileName && name.toLowerCase() === newName.toLowerCase()
+  );
+  if (taken || (newComponentPath !== componentPath && (await fs.pathExists(newComponentPath)))) {
+    throw new Error(`A component named ${newName} already exists.`);
+  }
+
+  if (componentType === BackendComponentType.ROUTE) {
+    await unregisterRoute(fileName, files.length ? files : [path.join(componentPath, `${fileName}.ts`)]);
+  }
+
+  const moves = await renameComponentFiles(
+    componentPath,
+    newComponentPath,
+    ownFiles.filter((file) => !isInsideFolder(componentPath, file)),
     fileName,
-    targetFolder,
-    updateExistingTemplateFiles: true
-  });
-
-  // Prepare the update data by merging with existing config
-  const updateData: Partial<ComponentConfig> = {
-    ...existingConfig, // Keep all existing config properties
-    files: createdFiles, // Update files list
-    ...(aiDescription && { aiPrompt: aiDescription }), // Update AI prompt if exists
-    imports: imports || existingConfig.imports, // Use new imports or keep existing
-    updatedAt: new Date().toISOString() // Add update timestamp
-  };
-
-  // This will update the existing config rather than create new
-  await saveProjectComponentConfig(projectType, componentType, fileName, updateData);
-
-  // Update reverse references if imports changed
-  if (imports && !areImportsEqual(imports, existingConfig.imports)) {
-    await updateComponentReferences(projectType, fileName, imports, existingConfig.imports);
+    newName
+  );
+  for (const [oldPath, newPath] of moves) {
+    console.log(`✅ ${path.relative(process.cwd(), oldPath)} → ${path.relative(process.cwd(), newPath)}`);
   }
+  const movedFiles = (files.length ? files : [...moves.keys()]).map((file) => moves.get(file) || file);
 
-  for (const filePath of createdFiles) {
-    console.log(`✅ ${componentType} file updated at ${filePath}`);
+  if (componentType === FrontendComponentType.API) {
+    await renameApiEndpoint(targetFolder, fileName, newName);
+  }
+  if (componentType === BackendComponentType.ROUTE) {
+    const middlewares = (existingConfig?.imports || [])
+      .filter((imp) => imp.componentType === BackendComponentType.MIDDLEWARE)
+      .map((imp) => imp.name);
+    const routerEntry = await registerRoute(newName, movedFiles, middlewares);
+    if (routerEntry) {
+      console.log(`✅ Route registered in ${routerEntry}`);
+    }
+  }
+
+  for (const importer of existingConfig?.usedBy || []) {
+    for (const file of (components[importer]?.files || []).map(resolveConfigPath)) {
+      if (await rewriteImporter(file, componentPath, newComponentPath, fileName, newName)) {
+        console.log(`✅ Updated imports in ${file}`);
+      }
+    }
+  }
+
+  if (existingConfig) {
+    await renameProjectComponentConfig(projectType, fileName, newName, movedFiles);
+  }
+  console.log(`✅ Renamed ${componentType} ${fileName} to ${newName}`);
+}
+
+/**
+ * Prints the components recorded in skaya.config.json
+ * @param {ComponentFilter} filter - Restricts the list by project, type or source
+ * @param {boolean} json - Print the entries as JSON instead of a table
+ */
+export async function listComponents(filter: ComponentFilter, json = false): Promise<void> {
+  const entries = collectComponents(await readConfig(), filter);
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (entries.length === 0) {
+    console.log("No components found.");
+  } else {
+    console.log(formatComponentTable(entries));
+  }
+}
+
+/**
+ * Prints the import graph of the components recorded in skaya.config.json
+ * @param {GraphFormat} format - text tree, Graphviz DOT or Mermaid
+ * @param {ProjectType} projectType - Restricts the graph to one project
+ */
+export async function graphComponents(format: GraphFormat, projectType?: ProjectType): Promise<void> {
+  const graph = buildComponentGraph(collectComponents(await readConfig(), { projectType }));
+  console.log(formatComponentGraph(graph, format));
+
+  if (format !== GraphFormat.TEXT && (graph.cycles.length > 0 || graph.unused.length > 0)) {
+    // Keep stdout a valid graph; report the findings next to it
+    console.error(
+      `⚠️  ${graph.cycles.length} import cycle(s), ${graph.unused.length} unused component(s)`
+    );
   }
 }
 
-// Helper to compare imports
-function areImportsEqual(
-  importsA: Array<{ name: string, data: string }> = [],
-  importsB: Array<{ name: string, data: string }> = []
-): boolean {
-  if (importsA.length !== importsB.length) return false;
+/**
+ * Reconciles skaya.config.json with the component folders on disk
+ * @param {object} options - Sync options
+ * @param {boolean} options.check - Only report drift, failing if there is any
+ * @param {ProjectType} options.projectType - Restricts the sync to one project
+ */
+export async function syncComponents(options: { check?: boolean; projectType?: ProjectType } = {}): Promise<void> {
+  const { changes, conflicts } = options.check
+    ? await syncConfig(await readConfig(), options.projectType)
+    : await updateConfig((config) => syncConfig(config, options.projectType));
+
+  for (const conflict of conflicts) {
+    console.warn(`⚠️  ${conflict}`);
+  }
+  if (changes.length === 0) {
+    console.log("✅ skaya.config.json is in sync with the filesystem.");
+    return;
+  }
 
-  const aNames = importsA.map(i => i.name).sort();
-  const bNames = importsB.map(i => i.name).sort();
+  console.log(formatSyncChanges(changes));
+  if (options.check) {
+    throw new Error(`skaya.config.json is out of sync (${changes.length} change(s)). Run \`skaya sync\` to update it.`);
+  }
+  console.log(`✅ Applied ${changes.length} change(s) to skaya.config.json`);
+}
 
-  return JSON.stringify(aNames) === JSON.stringify(bNames);
+/**
+ * Reverts the latest recorded `create` or `update`
+ */
+export async function undoLastChange(): Promise<void> {
+  const entry = await undoTransaction();
+  for (const file of entry.files) {
+    console.log(`↩️  ${file.before === null ? "Deleted" : "Restored"} ${file.path}`);
+  }
+  console.log(`✅ Undid ${entry.command} ${entry.componentType} ${entry.name}`);
 }
 
+/**
+ * Re-applies the most recently undone `create` or `update`
+ */
+export async function redoLastChange(): Promise<void> {
+  const entry = await redoTransaction();
+  for (const file of entry.files) {
+    console.log(`↪️  ${file.after === null ? "Deleted" : "Rewrote"} ${file.path}`);
+  }
+  console.log(`✅ Redid ${entry.command} ${entry.componentType} ${entry.name}`);
+}
+
+/**
+ * Prints the recorded `create` and `update` transactions
+ * @param {boolean} json - Print the entries, with file contents, as JSON
+ */
+export async function showHistory(json = false): Promise<void> {
+  const history = await readHistory();
+  console.log(json ? JSON.stringify(history, null, 2) : formatHistory(history));
+}
+
+/**
+ * Copies the bundled AI prompt templates into .skaya/prompts for editing
+ * @param {boolean} force - Overwrite templates that were already ejected
+ */
+export async function ejectPromptTemplates(force = false): Promise<void> {
+  const { copied, skipped } = await ejectPrompts(force);
+  for (const file of copied) {
+    console.log(`📝 ${path.join(PROMPTS_DIR, file)}`);
+  }
+  if (skipped.length > 0) {
+    console.log(`ℹ️  Kept ${skipped.length} existing template(s); use --force to overwrite them.`);
+  }
+  console.log(`✅ Ejected ${copied.length} prompt template(s) to ${PROMPTS_DIR}`);
+}
+
+/**
+ * Deletes the cached AI responses
+ */
+export async function clearAICache(): Promise<void> {
+  const count = await clearResponseCache();
+  console.log(`✅ Removed ${count} cached AI response(s) from ${AI_CACHE_DIR}`);
+}
+
+/**
+ * Prints the tokens and estimated cost of the logged AI calls
+ * @param {UsageGrouping[]} groupings - The tables to print
+ * @param {boolean} json - Print the logged calls as JSON instead
+ */
+export async function showAIUsage(groupings: UsageGrouping[], json = false): Promise<void> {
+  const entries = await readAIUsage();
+  console.log(json ? JSON.stringify(entries, null, 2) : formatUsageReport(entries, groupings));
+}
+
+/**
+ * Looks up a component by name, ignoring case, in the config and on disk
+ */
+async function findExistingComponent(params: {
+  projectType: ProjectType;
+  componentType: ComponentType;
+  fileName: string;
+}) {
+  const { componentType, projectType } = params;
+  const components = (await readConfig())[projectType]?.components || {};
+  const fileName =
+    Object.keys(components).find((name) => name.toLowerCase() === params.fileName.toLowerCase()) ||
+    params.fileName;
+  const existingConfig: ComponentConfig | undefined = components[fileName];
+
+  const targetFolder = await getDefaultFolderForComponentType(projectType, componentType);
+  const componentPath = TemplateService.resolveComponentFolder(fileName, targetFolder, componentType);
+  if (!existingConfig && !(await fs.pathExists(componentPath))) {
+    throw new Error(`Component ${fileName} not found at ${componentPath}`);
+  }
+  if (existingConfig && existingConfig.componentType !== componentType) {
+    throw new Error(`${fileName} is a ${existingConfig.componentType}, not a ${componentType}.`);
+  }
+
+  // API components also list shared files (apiEndpoints.ts, backendRequest.ts, the
+  // redux store); only the component folder and files named after it are its own
+  const files = (existingConfig?.files || []).map(resolveConfigPath);
+  const ownFiles = files.filter(
+    (file) =>
+      isInsideFolder(process.cwd(), file) &&
+      (isInsideFolder(componentPath, file) || path.basename(file).startsWith(`${fileName}.`))
+  );
+
+  return { components, fileName, existingConfig, targetFolder, componentPath, files, ownFiles };
+}
+
+function isInsideFolder(folder: string, filePath: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
 
 /**
  * Starts development environments showing all available scripts
@@ -1,36 +1,71 @@
-import OpenAI from "openai";
-import { readFileSync, existsSync } from 'fs';
-import path from 'path';
-import { ApiType, BackendComponentType, ComponentType, FrontendComponentType, ProjectType } from '../../bin/types/enums';
-import { ComponentGenerationOptions, TemplateFileInfo } from "../scripts/templateGenerator";
-import { getApiKey } from "../config";
+import path from "path";
+import { getDefaultFolderForComponentType } from "../../bin/utils/ProjectScanner";
+import {
+  AIResponseMode,
+  ApiType,
+  BlockchainFramework,
+  BlokchainComponentType,
+  ComponentType,
+  ProjectType,
+} from "../../bin/types/enums";
+import {
+  ComponentGenerationOptions,
+  TemplateFileInfo,
+} from "../scripts/templateGenerator";
+import {
+  AICancelledError,
+  AIProvider,
+  AIProviderError,
+  AIProviderOverrides,
+  createAIProvider,
+  resolveAIProviderSettings,
+} from "./providers";
+import { GenerationProgress } from "./progress";
+import { ProjectContext, buildProjectContext } from "./projectContext";
+import { PromptLookup, PromptVariables, renderPrompt } from "./prompts";
+import { StructuredFile, parseStructuredFiles, stripCodeFences } from "./responseParser";
 
+/**
+ * Extensions a component's main file can have, e.g. Button.tsx, Users.ts or
+ * Token.sol, in order of preference (a contract's Token.s.sol is a deploy script)
+ */
+const MAIN_FILE_EXTENSIONS = ["tsx", "jsx", "ts", "sol", "s.sol"];
 
+/**
+ * Generates a component's files, the main file first. A supporting file the
+ * provider fails on keeps its template content and gets a `fallbackReason`.
+ * When `signal` aborts, the files finished before it are returned.
+ * @throws {AIProviderError} If the provider fails on the main file (AICancelledError if cancelled before it finished), Error if it returns nothing for it
+ */
 export async function generateCodeWithAI(
   fileName: string,
   projectType: ProjectType,
   componentType: ComponentType | ApiType,
-  aiDescription: string = '',
+  aiDescription: string = "",
   options: ComponentGenerationOptions = {
-    style: 'css',
+    style: "css",
     typescript: true,
     withProps: true,
     withState: false,
     withEffects: false,
     withTests: true,
-    withStories: projectType === ProjectType.FRONTEND
+    withStories: projectType === ProjectType.FRONTEND,
   },
   templateFiles: TemplateFileInfo[] = [],
+  updateExistingTemplateFiles?: boolean,
   extraOptions: {
     importExisting?: boolean;
-    componentsToImport?: string[];
+    componentsToImport?: { name: string; data: string }[];
+    ai?: AIProviderOverrides;
+    context?: ProjectContext;
+    /** Stops generation, keeping the files finished so far */
+    signal?: AbortSignal;
   } = {}
 ): Promise<TemplateFileInfo[]> {
-
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error(`${apiKey} API key is required.`,);
-
-  const openai = new OpenAI({ apiKey });
+  const settings = await resolveAIProviderSettings(projectType, extraOptions.ai);
+  const provider = createAIProvider(settings);
+  console.log(`🤖 Generating with ${provider.name} (${provider.model})`);
+  const context = extraOptions.context || (await buildDefaultContext(fileName, projectType, componentType));
 
   const updatedFiles: TemplateFileInfo[] = [];
 
@@ -39,164 +74,513 @@ export async function generateCodeWithAI(
     aiDescription,
     projectType,
     componentType,
-    ...options
+    ...options,
   };
 
-  for (const fileTemplate of templateFiles) {
-    const templateDir = path.join(__dirname, '..', 'templates', projectType.toLowerCase(), componentType);
-    const sourcePath = path.join(templateDir, fileTemplate.originalFileName);
+  const mainFileName = MAIN_FILE_EXTENSIONS
+    .map((ext) => `${fileName}.${ext}`)
+    .find((name) => templateFiles.some((file) => file.targetFileName === name));
+  const isMainFile = (file: TemplateFileInfo) => file.targetFileName === mainFileName;
+
+  // Sort template files to ensure main component is processed first
+  const sortedTemplateFiles = [...templateFiles].sort((a, b) => {
+    // Main component should come first
+    if (isMainFile(a)) return -1;
+    if (isMainFile(b)) return 1;
+
+    // Then process CSS
+    if (a.targetFileName.endsWith(".css")) return -1;
+    if (b.targetFileName.endsWith(".css")) return 1;
+
+    // Then tests
+    if (a.targetFileName.includes(".test.")) return -1;
+    if (b.targetFileName.includes(".test.")) return 1;
+
+    // Finally stories
+    return 0;
+  });
 
-    if (!existsSync(sourcePath)) {
-        throw new Error(`Template file not found: ${sourcePath}`);
+  // Find and generate the main component file first
+  const componentFile = sortedTemplateFiles.find(isMainFile);
+
+  if (!componentFile) {
+    throw new Error(`No component file found for ${fileName}`);
+  }
+
+  if (settings.responseMode === AIResponseMode.STRUCTURED) {
+    try {
+      const files = await generateStructuredFiles(
+        provider,
+        baseConfig,
+        sortedTemplateFiles,
+        componentFile,
+        extraOptions.componentsToImport,
+        updateExistingTemplateFiles,
+        context,
+        extraOptions.signal
+      );
+      return sortedTemplateFiles.map((file) => ({
+        ...file,
+        content: files.find((generated) => generated.fileName === file.targetFileName)!.content,
+      }));
+    } catch (error) {
+      // Asking file by file would fail the same way
+      if (error instanceof AIProviderError) {
+        throw error;
+      }
+      console.warn(
+        `⚠️  ${provider.name} did not return the files as one structured response, generating them one by one.\n${(error as Error).message}`
+      );
     }
-    
-    const originalContent = readFileSync(sourcePath, 'utf-8');  // Now reading the file, not the directory
-    const fileType = path.extname(fileTemplate.originalFileName).replace('.', '');
-    const systemPrompt = getSystemPrompt(fileType, componentType);
-    const userPrompt = buildFilePrompt(originalContent, baseConfig, fileTemplate.originalFileName);
+  }
 
-    const aiUpdatedContent = await generateWithAI(openai, systemPrompt, userPrompt);
+  // Generate the component first
+  const componentExt = path
+    .extname(componentFile.originalFileName)
+    .replace(".", "");
+  const {
+    systemPrompt: componentSystemPrompt,
+    userPrompt: componentUserPrompt,
+  } = await getFileSpecificPrompts(
+    componentExt,
+    componentType,
+    componentFile.content || "",
+    baseConfig,
+    componentFile.originalFileName,
+    componentFile.targetFileName,
+    extraOptions.componentsToImport,
+    undefined,
+    updateExistingTemplateFiles,
+    context
+  );
+
+  const componentContent = await generateWithProvider(
+    provider,
+    componentSystemPrompt,
+    componentUserPrompt,
+    componentFile.targetFileName,
+    extraOptions.signal
+  );
+  if (!componentContent.trim()) {
+    throw new Error(`${provider.name} returned no content for ${componentFile.targetFileName}.`);
+  }
+  const generatedComponentContent = componentContent;
+
+  updatedFiles.push({
+    ...componentFile,
+    content: generatedComponentContent,
+  });
+
+  // Now generate supporting files in order
+  for (const fileTemplate of sortedTemplateFiles.filter(
+    (file) => file !== componentFile
+  )) {
+    const fileNameParts = fileTemplate.originalFileName.split(".");
+    let fileType =
+      fileNameParts.length > 1 ? fileNameParts.slice(1).join(".") : "";
+
+    const { systemPrompt, userPrompt } = await getFileSpecificPrompts(
+      fileType,
+      componentType,
+      fileTemplate.content || "",
+      baseConfig,
+      fileTemplate.originalFileName,
+      fileTemplate.targetFileName,
+      extraOptions.componentsToImport,
+      generatedComponentContent, // Always use the newly generated component
+      updateExistingTemplateFiles,
+      context
+    );
+
+    // A supporting file that cannot be generated keeps its template, the
+    // component and the other files are still used. Once cancelled, only the
+    // files finished so far are returned.
+    let aiUpdatedContent: string;
+    try {
+      aiUpdatedContent = await generateWithProvider(
+        provider,
+        systemPrompt,
+        userPrompt,
+        fileTemplate.targetFileName,
+        extraOptions.signal
+      );
+    } catch (error) {
+      if (error instanceof AICancelledError) {
+        break;
+      }
+      updatedFiles.push({ ...fileTemplate, fallbackReason: (error as Error).message });
+      continue;
+    }
+    if (!aiUpdatedContent.trim()) {
+      updatedFiles.push({ ...fileTemplate, fallbackReason: `${provider.name} returned no content` });
+      continue;
+    }
 
     updatedFiles.push({
-        ...fileTemplate,
-        content: aiUpdatedContent
+      ...fileTemplate,
+      content: aiUpdatedContent,
     });
-}
+  }
 
   return updatedFiles;
 }
 
+/**
+ * Generates one file of a component again, e.g. after it was rejected in
+ * review. Supporting files are written against the main file currently in
+ * `generatedFiles`; regenerating the main file leaves the others as they are.
+ * @param templateFile - The template (or existing file) the file was generated from
+ * @param generatedFiles - The component's files as generated so far
+ * @returns The file with its new content
+ * @throws {AIProviderError} If the provider fails, Error if it returns nothing
+ */
+export async function regenerateFileWithAI(
+  fileName: string,
+  projectType: ProjectType,
+  componentType: ComponentType | ApiType,
+  aiDescription: string,
+  options: ComponentGenerationOptions,
+  templateFile: TemplateFileInfo,
+  generatedFiles: TemplateFileInfo[],
+  updateExistingTemplateFiles?: boolean,
+  extraOptions: {
+    componentsToImport?: { name: string; data: string }[];
+    ai?: AIProviderOverrides;
+    context?: ProjectContext;
+  } = {}
+): Promise<TemplateFileInfo> {
+  const provider = createAIProvider(
+    await resolveAIProviderSettings(projectType, extraOptions.ai)
+  );
+  console.log(`🤖 Regenerating ${templateFile.targetFileName} with ${provider.name} (${provider.model})`);
 
-async function generateWithAI(openai: OpenAI, systemPrompt: string, userPrompt: string): Promise<string> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000
-    });
+  const mainFileName = MAIN_FILE_EXTENSIONS
+    .map((ext) => `${fileName}.${ext}`)
+    .find((name) => generatedFiles.some((file) => file.targetFileName === name));
+  const isMainFile = templateFile.targetFileName === mainFileName;
+  const fileNameParts = templateFile.originalFileName.split(".");
+  const fileType = isMainFile
+    ? path.extname(templateFile.originalFileName).replace(".", "")
+    : fileNameParts.length > 1 ? fileNameParts.slice(1).join(".") : "";
 
-    return response.choices[0]?.message?.content?.trim() || '';
-  } catch (error) {
-    console.error('Error generating file with AI:', error);
-    return '';
+  const { systemPrompt, userPrompt } = await getFileSpecificPrompts(
+    fileType,
+    componentType,
+    templateFile.content || "",
+    { componentName: fileName, aiDescription, projectType, componentType, ...options },
+    templateFile.originalFileName,
+    templateFile.targetFileName,
+    extraOptions.componentsToImport,
+    isMainFile
+      ? undefined
+      : generatedFiles.find((file) => file.targetFileName === mainFileName)?.content,
+    updateExistingTemplateFiles,
+    extraOptions.context || (await buildDefaultContext(fileName, projectType, componentType))
+  );
+
+  const content = await generateWithProvider(provider, systemPrompt, userPrompt, templateFile.targetFileName);
+  if (!content.trim()) {
+    throw new Error(`${provider.name} returned no content for ${templateFile.targetFileName}.`);
+  }
+  return { ...templateFile, content };
+}
+
+/**
+ * Asks the model to fix the compiler errors reported for a generated file
+ * @param projectType - The project type, used to pick the provider
+ * @param file - The generated file
+ * @param diagnostics - Compiler errors in the file, rendered by formatTypeDiagnostics
+ * @returns The file with its repaired content
+ * @throws {AIProviderError} If the provider fails, Error if it returns nothing
+ */
+export async function repairFileWithAI(
+  projectType: ProjectType,
+  file: TemplateFileInfo,
+  diagnostics: string,
+  ai?: AIProviderOverrides,
+  context?: ProjectContext
+): Promise<TemplateFileInfo> {
+  const provider = createAIProvider(await resolveAIProviderSettings(projectType, ai));
+
+  const lookup: PromptLookup = { projectType, kinds: ["repair"] };
+  const variables: PromptVariables = {
+    targetFileName: file.targetFileName,
+    diagnostics,
+    content: file.content || "",
+  };
+
+  const content = await generateWithProvider(
+    provider,
+    await withProjectContext(await renderPrompt(lookup, "system", variables), lookup, context),
+    await renderPrompt(lookup, "user", variables),
+    `${file.targetFileName} (type fixes)`
+  );
+  if (!content.trim()) {
+    throw new Error(`${provider.name} returned no content for ${file.targetFileName}.`);
   }
+  return { ...file, content };
 }
 
-function getSystemPrompt(fileType: string, componentType?: ComponentType | ApiType): string {
-  const basePrompt = `You are an expert full-stack developer. Generate clean, production-ready code that:
-- Follows best practices for the specific file type
-- Includes proper TypeScript types
-- Has clear, concise comments where needed
-- Is fully functional
-- Matches modern architectural patterns
-- Uses appropriate error handling
-- Follows security best practices`;
-
-  // Handle file extensions first
-  switch (fileType) {
-    case 'tsx':
-      return componentType === FrontendComponentType.PAGE
-        ? `${basePrompt} for React page components. Include:
-           - Proper page-level structure
-           - SEO considerations if applicable
-           - Data fetching methods if needed
-           - Layout integration`
-        : `${basePrompt} for React components. Include:
-           - Proper component structure
-           - TypeScript interfaces
-           - Clean JSX
-           - Accessibility best practices`;
-
-    case 'test.tsx':
-      return `${basePrompt} for React component tests. Include:
-              - Testing Library best practices
-              - Meaningful test cases
-              - Proper mocking where needed
-              - Accessibility tests`;
-
-    case 'stories.tsx':
-      return `${basePrompt} for Storybook stories. Include:
-              - Comprehensive controls
-              - Multiple interaction states
-              - Documentation`;
-
-    case 'css':
-    case 'scss':
-      return `${basePrompt} for styles. Include:
-              - Modular CSS patterns
-              - Responsive design considerations
-              - BEM naming if appropriate
-              - Variables for theming`;
-
-    case 'test.ts':
-      return `${basePrompt} for backend tests. Include:
-              - Unit tests for business logic
-              - Integration tests for APIs
-              - Proper test setup/teardown
-              - Mocking of external services`;
-
-    case 'ts':
-      // Handle backend-specific component types
-      if (componentType) {
-        switch (componentType) {
-          case BackendComponentType.ROUTE:
-            return `${basePrompt} for API routes. Include:
-                    - RESTful design principles
-                    - Proper HTTP status codes
-                    - Input validation
-                    - Error handling
-                    - Documentation`;
-
-          case BackendComponentType.CONTROLLER:
-            return `${basePrompt} for backend controllers. Include:
-                    - Business logic encapsulation
-                    - Clean separation of concerns
-                    - Proper error handling
-                    - Type-safe inputs/outputs
-                    - Dependency injection`;
-
-          default:
-            return `${basePrompt} for general TypeScript files`;
-        }
+/**
+ * Asks the model to fix a generated test file that fails against its component
+ * @param projectType - The project type, used to pick the provider
+ * @param testFile - Name and content of the failing test file
+ * @param componentFile - Name and content of the component it tests
+ * @param output - The test runner's output
+ * @returns The new test file content
+ * @throws {AIProviderError} If the provider fails, Error if it returns nothing
+ */
+export async function fixTestWithAI(
+  projectType: ProjectType,
+  testFile: { name: string; content: string },
+  componentFile: { name: string; content: string },
+  output: string,
+  ai?: AIProviderOverrides,
+  context?: ProjectContext
+): Promise<string> {
+  const provider = createAIProvider(await resolveAIProviderSettings(projectType, ai));
+
+  const lookup: PromptLookup = { projectType, kinds: ["fix-test"] };
+  const variables: PromptVariables = {
+    testFileName: testFile.name,
+    testContent: testFile.content,
+    componentFileName: componentFile.name,
+    componentContent: componentFile.content,
+    output,
+  };
+
+  const content = await generateWithProvider(
+    provider,
+    await withProjectContext(await renderPrompt(lookup, "system", variables), lookup, context),
+    await renderPrompt(lookup, "user", variables),
+    `${path.basename(testFile.name)} (test fixes)`
+  );
+  if (!content.trim()) {
+    throw new Error(`${provider.name} returned no content for ${testFile.name}.`);
+  }
+  return content;
+}
+
+/**
+ * Asks for every file of the component in one call, as JSON matching
+ * `{ "files": [{ "fileName", "content" }] }`, so the files share prop, export
+ * and class names
+ * @throws {StructuredResponseError} If the response is not valid
+ */
+async function generateStructuredFiles(
+  provider: AIProvider,
+  baseConfig: any,
+  templateFiles: TemplateFileInfo[],
+  componentFile: TemplateFileInfo,
+  componentsToImport?: { name: string; data: string }[],
+  updateExistingTemplateFiles?: boolean,
+  context?: ProjectContext,
+  signal?: AbortSignal
+): Promise<StructuredFile[]> {
+  const fileNames = templateFiles.map((file) => file.targetFileName);
+  const filesPrompt = templateFiles
+    .map((file) => `### ${file.targetFileName}${file === componentFile ? " (main file)" : ""}\n${file.content || ""}`)
+    .join("\n\n");
+
+  const lookup: PromptLookup = {
+    projectType: baseConfig.projectType,
+    componentType: baseConfig.componentType,
+    kinds: ["structured"],
+  };
+  const variables: PromptVariables = {
+    componentName: baseConfig.componentName,
+    projectType: baseConfig.projectType,
+    componentType: baseConfig.componentType,
+    description: baseConfig.aiDescription,
+    mainFileName: componentFile.targetFileName,
+    fileNames: fileNames.join(", "),
+    imports: formatImportsPrompt(componentsToImport),
+    files: filesPrompt,
+    updateExisting: updateExistingTemplateFiles,
+  };
+  const systemPrompt = await withProjectContext(await renderPrompt(lookup, "system", variables), lookup, context);
+  const userPrompt = await renderPrompt(lookup, "user", variables);
+
+  return parseStructuredFiles(
+    await requestWithProgress(provider, systemPrompt, userPrompt, fileNames.join(", "), signal),
+    fileNames
+  );
+}
+
+/**
+ * Formats the components a generated file should import, as listed in prompts
+ */
+function formatImportsPrompt(componentsToImport?: { name: string; data: string }[]): string {
+  return componentsToImport?.length
+    ? `\nComponents to import and use:\n${componentsToImport.map((comp) => `- ${comp.name}: ${comp.data}`).join("\n")}\n`
+    : "";
+}
+
+/**
+ * Picks the prompt templates for one file of a component and fills them in.
+ * The file kind (component, test, stories, style, deploy, ...) and, for
+ * blockchain files, the framework decide which templates are looked up.
+ */
+async function getFileSpecificPrompts(
+  fileType: string,
+  componentType: ComponentType | ApiType,
+  originalContent: string,
+  baseConfig: any,
+  originalFileName: string,
+  targetFileName: string,
+  componentsToImport?: { name: string; data: string }[],
+  componentContent?: string,
+  updateExistingTemplateFiles?: boolean,
+  context?: ProjectContext
+): Promise<{ systemPrompt: string; userPrompt: string }> {
+  let componentsUsageExample = "";
+  if (componentsToImport && componentsToImport.length > 0) {
+    componentsUsageExample = `\n\nComponent Usage Requirements:\n`;
+
+    componentsToImport.forEach((comp) => {
+      // Extract prop types from the component data if available
+      const propsMatch = comp.data.match(/interface\s+(\w+)Props\s*{([^}]*)}/);
+      if (propsMatch) {
+        const interfaceName = propsMatch[1];
+        const propsContent = propsMatch[2];
+        componentsUsageExample += `- For ${comp.name}, use these props (${interfaceName}Props): ${propsContent}\n`;
+      } else {
+        componentsUsageExample += `- For ${comp.name}, use according to its documentation\n`;
       }
-      return `${basePrompt} for general TypeScript files`;
+    });
+  }
+
+  const lookup: PromptLookup = {
+    projectType: baseConfig.projectType,
+    componentType,
+    kinds: getPromptKinds(baseConfig.projectType, componentType, fileType, originalFileName),
+  };
+  const variables: PromptVariables = {
+    targetFileName,
+    baseFileName: targetFileName.replace(/\.tsx$/, ""),
+    moduleName: targetFileName.replace(/(\.test)?\.ts$/, ""),
+    componentName: baseConfig.componentName,
+    projectType: baseConfig.projectType,
+    componentType,
+    description: baseConfig.aiDescription,
+    style: baseConfig.style,
+    imports: formatImportsPrompt(componentsToImport),
+    importUsage: componentsUsageExample,
+    firstImport: componentsToImport?.[0]?.name,
+    componentsImport: context?.componentsImport,
+    componentContent,
+    originalContent,
+    updateExisting: updateExistingTemplateFiles,
+  };
+  variables.base = await renderPrompt({ ...lookup, kinds: ["base"] }, "system", variables);
+
+  return {
+    systemPrompt: await withProjectContext(await renderPrompt(lookup, "system", variables), lookup, context),
+    userPrompt: await renderPrompt(lookup, "user", variables),
+  };
+}
 
-    default:
-      return basePrompt;
+/**
+ * Appends the project context, rendered with the `context` template, to a system prompt
+ */
+async function withProjectContext(
+  systemPrompt: string,
+  lookup: PromptLookup,
+  context?: ProjectContext
+): Promise<string> {
+  if (!context?.text) {
+    return systemPrompt;
   }
+  const contextPrompt = await renderPrompt({ ...lookup, kinds: ["context"] }, "system", {
+    projectContext: context.text,
+  });
+  return `${systemPrompt}\n\n${contextPrompt}`;
 }
 
-function buildFilePrompt(
-  originalFileContent: string,
-  config: Record<string, any>,
+/**
+ * Context for a component written to its type's default folder, for callers
+ * that did not collect one
+ */
+async function buildDefaultContext(
+  fileName: string,
+  projectType: ProjectType,
+  componentType: ComponentType | ApiType
+): Promise<ProjectContext> {
+  return buildProjectContext({
+    projectType,
+    componentType,
+    fileName,
+    targetFolder: await getDefaultFolderForComponentType(projectType, componentType),
+  });
+}
+
+/**
+ * The prompt template kinds for a file, most specific first
+ */
+function getPromptKinds(
+  projectType: ProjectType,
+  componentType: ComponentType | ApiType,
+  fileType: string,
   originalFileName: string
-): string {
-  return `
-Update the following file based on the configuration below:
-
-Configuration:
-- Component Name: ${config.componentName}
-- Component Type: ${config.componentType}
-- Description: ${config.description}
-- Project Type: ${config.projectType}
-- Style: ${config.style}
-- TypeScript: ${config.typescript}
-- With Props: ${config.withProps}
-- With State: ${config.withState}
-- With Effects: ${config.withEffects}
-- With Tests: ${config.withTests}
-- With Stories: ${config.withStories}
-- Original File Name: ${originalFileName}
-
-File Content:
-\`\`\`
-${originalFileContent}
-\`\`\`
-
-Return only the updated file content. Do not include explanation or markdown syntax.
-`;
-}
\ No newline at end of file
+): string[] {
+  if (projectType === ProjectType.BLOCKCHAIN) {
+    // Framework-specific files live in a hardhat/ or foundry/ template folder
+    const framework = Object.values(BlockchainFramework).find((name) => originalFileName.startsWith(`${name}/`));
+    const isDeployFile =
+      componentType !== BlokchainComponentType.SCRIPT && /\.(deploy\.ts|s\.sol)$/.test(originalFileName);
+    const kind = /\.(test\.ts|t\.sol)$/.test(originalFileName)
+      ? "test"
+      : isDeployFile
+        ? "deploy"
+        : originalFileName.endsWith("Harness.sol")
+          ? "harness"
+          : "component";
+    return framework ? [`${framework}-${kind}`, kind] : [kind];
+  }
+
+  if (originalFileName.includes(".test.")) {
+    return ["test"];
+  }
+  if (projectType === ProjectType.BACKEND) {
+    return ["component"];
+  }
+  if (originalFileName.includes(".stories.")) {
+    return ["stories"];
+  }
+  if (fileType === "tsx") {
+    return ["component"];
+  }
+  return fileType === "css" || fileType === "scss" ? ["style"] : ["file"];
+}
+
+async function generateWithProvider(
+  provider: AIProvider,
+  systemPrompt: string,
+  userPrompt: string,
+  label: string,
+  signal?: AbortSignal
+): Promise<string> {
+  return stripCodeFences(await requestWithProgress(provider, systemPrompt, userPrompt, label, signal));
+}
+
+/**
+ * Asks the provider for an answer, streaming its progress under `label`
+ */
+async function requestWithProgress(
+  provider: AIProvider,
+  systemPrompt: string,
+  userPrompt: string,
+  label: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const progress = new GenerationProgress(label);
+  try {
+    const { text } = await provider.generate(systemPrompt, userPrompt, { signal, onText: progress.update });
+    progress.update(text);
+    progress.finish();
+    return text;
+  } catch (error) {
+    progress.finish((error as Error).message);
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+import { estimateTokens } from "./projectContext";
+
+/**
+ * Last lines of the file being written shown under its progress line
+ */
+const TAIL_LINES = 3;
+
+const REDRAW_INTERVAL_MS = 100;
+
+const SPINNER = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+
+const ANSI = {
+  reset: "\u001b[0m",
+  dim: "\u001b[2m",
+  clearDown: "\u001b[J",
+  up: (lines: number) => `\u001b[${lines}A`,
+};
+
+/**
+ * Progress of one AI call: a spinner with the tokens received and the time
+ * elapsed, above a live tail of the text streaming in. When stdout is not a
+ * terminal only the final line is printed.
+ */
+export class GenerationProgress {
+  private text = "";
+  private startedAt = Date.now();
+  private drawnLines = 0;
+  private frame = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private label: string, private live: boolean = !!process.stdout.isTTY) {
+    if (this.live) {
+      this.timer = setInterval(() => this.draw(), REDRAW_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Records the text received so far
+   */
+  public update = (text: string): void => {
+    this.text = text;
+  };
+
+  /**
+   * Replaces the live display with the outcome
+   * @param {string} error - Why the call failed, if it did
+   */
+  public finish(error?: string): void {
+    clearInterval(this.timer);
+    this.clear();
+    const summary = `${this.label} (~${estimateTokens(this.text)} tokens, ${this.elapsed()})`;
+    if (error) {
+      console.log(`❌ ${summary}: ${error}`);
+    } else {
+      console.log(`✅ ${summary}`);
+    }
+  }
+
+  private draw(): void {
+    this.clear();
+    const width = Math.max(20, (process.stdout.columns || 80) - 4);
+    const dim = (line: string) => (process.env.NO_COLOR ? line : `${ANSI.dim}${line}${ANSI.reset}`);
+    const tail = this.text.trim()
+      ? this.text.trimEnd().split("\n").slice(-TAIL_LINES).map((line) => dim(`  │ ${line.slice(0, width)}`))
+      : [];
+    const spinner = SPINNER[this.frame++ % SPINNER.length];
+    const lines = [`${spinner} ${this.label} (~${estimateTokens(this.text)} tokens, ${this.elapsed()})`, ...tail];
+    process.stdout.write(`${lines.join("\n")}\n`);
+    this.drawnLines = lines.length;
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0) {
+      process.stdout.write(`${ANSI.up(this.drawnLines)}${ANSI.clearDown}`);
+      this.drawnLines = 0;
+    }
+  }
+
+  private elapsed(): string {
+    return `${((Date.now() - this.startedAt) / 1000).toFixed(1)}s`;
+  }
+}
+
+/**
+ * Runs `fn` with a signal that aborts on the first Ctrl-C, so generation can
+ * stop and keep what already finished. A second Ctrl-C quits as usual.
+ * @param {Function} fn - The work, given the signal
+ * @returns {Promise<T>} What `fn` returns
+ */
+export async function cancelOnInterrupt<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    console.warn("\n⏹  Cancelling, files that already finished are kept. Press Ctrl-C again to quit.");
+    controller.abort();
+  };
+  process.once("SIGINT", onInterrupt);
+  try {
+    return await fn(controller.signal);
+  } finally {
+    process.removeListener("SIGINT", onInterrupt);
+  }
+}
@@ -0,0 +1,247 @@
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import { ApiType, ComponentType, FrontendComponentType, ProjectType } from "../../bin/types/enums";
+import { readConfig, toConfigPath } from "../../bin/utils/configLogger";
+import { getDefaultFolderForComponentType } from "../../bin/utils/ProjectScanner";
+import TemplateService from "../services/TemplateService";
+
+/**
+ * Tokens of project context added to each prompt
+ */
+export const CONTEXT_BUDGET_TOKENS = 2_000;
+
+/**
+ * A section is dropped rather than cut shorter than this
+ */
+const MIN_SECTION_CHARS = 200;
+
+/**
+ * Existing components of the same type shown as examples of the project's conventions
+ */
+const MAX_SIBLINGS = 2;
+
+/**
+ * Packages whose presence decides how generated components look and are styled
+ */
+const UI_LIBRARY_PATTERN =
+  /^(@mui\/|@material-ui\/|@chakra-ui\/|@mantine\/|@radix-ui\/|@headlessui\/|@emotion\/|antd$|react-bootstrap$|bootstrap$|tailwindcss$|styled-components$|sass$|@openzeppelin\/)/;
+
+const LINT_CONFIG_FILES = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  ".eslintrc.json",
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc",
+  ".prettierrc",
+  ".prettierrc.json",
+  ".solhint.json",
+];
+
+const MAIN_FILE_PATTERN = /\.(tsx|jsx|ts|sol)$/;
+const SUPPORTING_FILE_PATTERN = /\.(test|spec|stories|deploy|t|s)\.[a-z]+$/;
+
+/**
+ * Signals collected from the target project for the AI
+ */
+export interface ProjectContext {
+  text: string; // Rendered sections, empty when nothing was found
+  sources: string[]; // Files the text was taken from, relative to the folder holding skaya.config.json
+  tokens: number; // Estimated size of the text
+  componentsImport: string; // How generated frontend files import components, e.g. '@/components'; empty for other projects
+}
+
+/**
+ * Rough token count of a text, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collects what the model should know about the target project, most useful
+ * first, until the budget is spent: path aliases, dependencies (UI and styling
+ * libraries first), lint and formatting config, the frontend's API endpoints
+ * and a sample of sibling components. A section that does not fit is cut
+ * short or left out.
+ * @param {Object} params - The component being generated
+ * @param {ProjectType} params.projectType - Project the component belongs to
+ * @param {ComponentType} params.componentType - The component's type
+ * @param {string} params.fileName - The component's name
+ * @param {string} params.targetFolder - The folder holding the component folders
+ * @param {string[]} params.exclude - Components already given to the model, not sampled as siblings
+ * @param {number} params.budgetTokens - Tokens the context may take
+ * @returns {Promise<ProjectContext>} The context
+ */
+export async function buildProjectContext(params: {
+  projectType: ProjectType;
+  componentType: ComponentType | ApiType;
+  fileName: string;
+  targetFolder: string;
+  exclude?: string[];
+  budgetTokens?: number;
+}): Promise<ProjectContext> {
+  const { projectType, componentType, fileName, targetFolder } = params;
+  const projectName = (await readConfig())[projectType]?.name || `${projectType}SkayaProject`;
+  const projectDir = path.join(process.cwd(), projectName);
+  const budgetChars = (params.budgetTokens ?? CONTEXT_BUDGET_TOKENS) * 4;
+
+  const sections: string[] = [];
+  const sources: string[] = [];
+  let usedChars = 0;
+  const addSection = (title: string, body: string, source: string) => {
+    const available = budgetChars - usedChars - title.length;
+    if (!body.trim() || available < Math.min(MIN_SECTION_CHARS, body.length)) {
+      return;
+    }
+    const section = `${title}\n${body.length > available ? `${body.slice(0, available)}\n... (truncated)` : body}`;
+    sections.push(section);
+    sources.push(toConfigPath(source));
+    usedChars += section.length + 2;
+  };
+
+  const tsconfig = readPathAliases(projectDir);
+  let componentsImport = "";
+  if (projectType === ProjectType.FRONTEND) {
+    const componentsFolder = path.join(
+      process.cwd(),
+      await getDefaultFolderForComponentType(projectType, FrontendComponentType.COMPONENT)
+    );
+    const alias = tsconfig?.aliases.find(({ target }) => isInsideOrEqual(target, componentsFolder));
+    componentsImport = alias
+      ? toImportPath(path.relative(alias.target, componentsFolder), alias.prefix)
+      : toImportPath(
+          path.relative(TemplateService.resolveComponentFolder(fileName, targetFolder, componentType), componentsFolder)
+        );
+  }
+  if (tsconfig) {
+    addSection(
+      "Import path aliases:",
+      tsconfig.aliases
+        .map(({ prefix, target }) => `- ${prefix}/* -> ${toImportPath(path.relative(projectDir, target))}/*`)
+        .join("\n"),
+      tsconfig.file
+    );
+  }
+  const remappings = path.join(projectDir, "remappings.txt");
+  if (await fs.pathExists(remappings)) {
+    addSection("Solidity import remappings:", (await fs.readFile(remappings, "utf-8")).trim(), remappings);
+  }
+
+  const packageJsonPath = path.join(projectDir, "package.json");
+  if (await fs.pathExists(packageJsonPath)) {
+    const packageJson = await fs.readJson(packageJsonPath).catch(() => ({}));
+    const listPackages = (packages: Record<string, string> = {}) =>
+      Object.entries(packages).map(([name, version]) => `${name}@${version}`).join(", ");
+    const uiLibraries = Object.entries({ ...packageJson.dependencies, ...packageJson.devDependencies })
+      .filter(([name]) => UI_LIBRARY_PATTERN.test(name))
+      .map(([name, version]) => `${name}@${version}`);
+    addSection(
+      "Dependencies:",
+      [
+        uiLibraries.length > 0 && `- UI and styling libraries, use them: ${uiLibraries.join(", ")}`,
+        packageJson.dependencies && `- dependencies: ${listPackages(packageJson.dependencies)}`,
+        packageJson.devDependencies && `- devDependencies: ${listPackages(packageJson.devDependencies)}`,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      packageJsonPath
+    );
+  }
+
+  for (const name of LINT_CONFIG_FILES) {
+    const file = path.join(projectDir, name);
+    if (await fs.pathExists(file)) {
+      addSection(`Lint and formatting rules (${name}):`, (await fs.readFile(file, "utf-8")).trim(), file);
+    }
+  }
+
+  if (projectType === ProjectType.FRONTEND) {
+    const endpoints = path.join(
+      process.cwd(),
+      await getDefaultFolderForComponentType(projectType, FrontendComponentType.API),
+      "apiEndpoints.ts"
+    );
+    if (await fs.pathExists(endpoints)) {
+      addSection("API endpoints (apiEndpoints.ts):", (await fs.readFile(endpoints, "utf-8")).trim(), endpoints);
+    }
+  }
+
+  const exclude = new Set([fileName, ...(params.exclude || [])].map((name) => name.toLowerCase()));
+  for (const file of (await findSiblingFiles(path.join(process.cwd(), targetFolder), exclude)).slice(0, MAX_SIBLINGS)) {
+    addSection(
+      `Existing ${componentType} (${path.basename(file)}), follow its conventions:`,
+      (await fs.readFile(file, "utf-8")).trim(),
+      file
+    );
+  }
+
+  const text = sections.join("\n\n");
+  return { text, sources, tokens: estimateTokens(text), componentsImport };
+}
+
+/**
+ * Reads the `paths` aliases of the project's tsconfig.json (or jsconfig.json),
+ * following `extends`
+ */
+function readPathAliases(projectDir: string): { file: string; aliases: { prefix: string; target: string }[] } | undefined {
+  const file = ["tsconfig.json", "jsconfig.json"]
+    .map((name) => path.join(projectDir, name))
+    .find((candidate) => ts.sys.fileExists(candidate));
+  if (!file) {
+    return undefined;
+  }
+
+  const { config } = ts.readConfigFile(file, ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config || {}, ts.sys, projectDir, undefined, file);
+  const baseDir = options.baseUrl || (options.pathsBasePath as string | undefined) || projectDir;
+  const aliases = Object.entries(options.paths || {}).flatMap(([pattern, targets]) =>
+    pattern.endsWith("/*") && targets[0]?.endsWith("/*")
+      ? [{ prefix: pattern.slice(0, -2), target: path.resolve(baseDir, targets[0].slice(0, -2)) }]
+      : []
+  );
+  return aliases.length > 0 ? { file, aliases } : undefined;
+}
+
+/**
+ * Main files of the other components in a folder, one per component folder
+ */
+async function findSiblingFiles(folder: string, exclude: Set<string>): Promise<string[]> {
+  if (!(await fs.pathExists(folder))) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of (await fs.readdir(folder, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+    const name = entry.name.replace(/Page$/, "");
+    if (!entry.isDirectory() || exclude.has(name.toLowerCase()) || entry.name === "redux") {
+      continue;
+    }
+    const mainFiles = (await fs.readdir(path.join(folder, entry.name))).filter(
+      (file) => MAIN_FILE_PATTERN.test(file) && !SUPPORTING_FILE_PATTERN.test(file)
+    );
+    const mainFile = mainFiles.find((file) => file.startsWith(`${name}.`)) || mainFiles[0];
+    if (mainFile) {
+      files.push(path.join(folder, entry.name, mainFile));
+    }
+  }
+  return files;
+}
+
+function isInsideOrEqual(folder: string, target: string): boolean {
+  const relative = path.relative(folder, target);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Joins an import prefix and a relative folder with forward slashes
+ */
+function toImportPath(relative: string, prefix?: string): string {
+  const parts = relative.split(path.sep).filter(Boolean);
+  if (prefix !== undefined) {
+    return [prefix, ...parts].join("/");
+  }
+  return parts.length === 0 ? "." : parts[0] === ".." ? parts.join("/") : `./${parts.join("/")}`;
+}
@@ -0,0 +1,150 @@
+import fs from "fs-extra";
+import path from "path";
+import { ProjectType } from "../../bin/types/enums";
+
+/**
+ * Project-level prompt templates, which take precedence over the bundled ones
+ */
+export const PROMPTS_DIR = path.join(".skaya", "prompts");
+
+const BUNDLED_PROMPTS_DIR = path.join(__dirname, "../../bin/templates/prompts");
+
+/**
+ * `{{#name}}...{{/name}}` keeps its text when the variable is truthy,
+ * `{{^name}}...{{/name}}` when it is falsy
+ */
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+/**
+ * The two prompts of a model call
+ */
+export type PromptRole = "system" | "user";
+
+/**
+ * Values substituted into a prompt template
+ */
+export type PromptVariables = Record<string, string | boolean | undefined>;
+
+/**
+ * Where to look for a prompt template. Each folder from the most specific
+ * (`<projectType>/<componentType>`) to the least (the prompts root) is tried
+ * with each kind in order, first in the project's PROMPTS_DIR and then in
+ * the bundled templates; the first `<kind>.<role>.md` found is used.
+ */
+export interface PromptLookup {
+  projectType?: ProjectType;
+  componentType?: string;
+  kinds: string[]; // e.g. ["hardhat-test", "test"]
+}
+
+/**
+ * Raised when a prompt template cannot be found or refers to a variable that
+ * is not provided
+ */
+export class PromptTemplateError extends Error {
+  constructor(public readonly file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "PromptTemplateError";
+  }
+}
+
+/**
+ * Fills in a prompt template. Variables are substituted in a single pass, so
+ * a value containing `{{...}}` (e.g. a component's source) is left as is.
+ * @param {string} template - Template text
+ * @param {PromptVariables} variables - Values for `{{name}}` and the sections
+ * @param {string} file - The template's path, named in errors
+ * @returns {string} The prompt
+ * @throws {PromptTemplateError} If the template uses an unknown variable
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables, file: string): string {
+  const lookup = (name: string) => {
+    if (!(name in variables)) {
+      throw new PromptTemplateError(file, `unknown variable {{${name}}}, use one of ${Object.keys(variables).join(", ")}`);
+    }
+    return variables[name];
+  };
+
+  return template
+    .replace(SECTION, (_match, type: string, name: string, text: string) =>
+      Boolean(lookup(name)) === (type === "#") ? text : ""
+    )
+    .replace(VARIABLE, (_match, name: string) => String(lookup(name)));
+}
+
+/**
+ * Finds the template for a prompt, preferring the project's PROMPTS_DIR
+ * @param {PromptLookup} lookup - Project, component type and file kinds to look for
+ * @param {PromptRole} role - System or user prompt
+ * @returns {Promise<{ file: string, template: string }>} The template's path and text, without its final newline
+ * @throws {PromptTemplateError} If no template exists for the kinds
+ */
+export async function loadPromptTemplate(
+  lookup: PromptLookup,
+  role: PromptRole
+): Promise<{ file: string; template: string }> {
+  const folders = [
+    lookup.projectType && lookup.componentType && path.join(lookup.projectType, lookup.componentType),
+    lookup.projectType,
+    "",
+  ].filter((folder): folder is string => folder !== undefined);
+
+  for (const root of [PROMPTS_DIR, BUNDLED_PROMPTS_DIR]) {
+    for (const folder of folders) {
+      for (const kind of lookup.kinds) {
+        const file = path.join(root, folder, `${kind}.${role}.md`);
+        if (await fs.pathExists(file)) {
+          const template = (await fs.readFile(file, "utf-8")).replace(/\r?\n$/, "");
+          return { file, template };
+        }
+      }
+    }
+  }
+  throw new PromptTemplateError(
+    path.join(PROMPTS_DIR, folders[0], `${lookup.kinds[0]}.${role}.md`),
+    "no prompt template found"
+  );
+}
+
+/**
+ * Loads and fills in the template for a prompt
+ * @param {PromptLookup} lookup - Project, component type and file kinds to look for
+ * @param {PromptRole} role - System or user prompt
+ * @param {PromptVariables} variables - Values for the template
+ * @returns {Promise<string>} The prompt
+ */
+export async function renderPrompt(lookup: PromptLookup, role: PromptRole, variables: PromptVariables): Promise<string> {
+  const { file, template } = await loadPromptTemplate(lookup, role);
+  return renderPromptTemplate(template, variables, file);
+}
+
+/**
+ * Copies the bundled prompt templates into PROMPTS_DIR for editing
+ * @param {boolean} force - Overwrite templates that already exist there
+ * @returns {Promise<{ copied: string[], skipped: string[] }>} Paths relative to PROMPTS_DIR
+ */
+export async function ejectPrompts(force = false): Promise<{ copied: string[]; skipped: string[] }> {
+  const copied: string[] = [];
+  const skipped: string[] = [];
+
+  const walk = async (folder: string) => {
+    for (const entry of await fs.readdir(path.join(BUNDLED_PROMPTS_DIR, folder), { withFileTypes: true })) {
+      const relativePath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+        continue;
+      }
+      const target = path.join(PROMPTS_DIR, relativePath);
+      if (!force && (await fs.pathExists(target))) {
+        skipped.push(relativePath);
+        continue;
+      }
+      await fs.copy(path.join(BUNDLED_PROMPTS_DIR, relativePath), target);
+      copied.push(relativePath);
+    }
+  };
+  await walk("");
+
+  return { copied: copied.sort(), skipped: skipped.sort() };
+}
@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { AIProviderType } from "../../../bin/types/enums";
+import { AIProviderError } from "./errors";
+import { AIGeneration, AIProvider, AIRequestOptions } from "./types";
+
+/**
+ * A recorded model response, stored as `<hash>.json` in the fixtures directory
+ */
+export interface RecordedResponse {
+  systemPrompt: string;
+  userPrompt: string;
+  response: string;
+}
+
+/**
+ * Hashes a prompt pair into the key used for fixture file names
+ */
+export function hashPrompt(systemPrompt: string, userPrompt: string): string {
+  return createHash("sha256")
+    .update(`${systemPrompt}\n\n${userPrompt}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Deterministic backend that replays canned responses keyed by prompt hash.
+ * With `recordFrom`, missing responses are fetched from that provider and
+ * saved, so fixtures can be refreshed against a real model.
+ */
+export class FakeProvider implements AIProvider {
+  public readonly name = AIProviderType.FAKE;
+
+  constructor(
+    public readonly model: string,
+    private fixturesDir: string,
+    private recordFrom?: AIProvider
+  ) {}
+
+  public async generate(systemPrompt: string, userPrompt: string, options: AIRequestOptions = {}): Promise<AIGeneration> {
+    const hash = hashPrompt(systemPrompt, userPrompt);
+    const fixturePath = path.join(this.fixturesDir, `${hash}.json`);
+
+    if (await fs.pathExists(fixturePath)) {
+      const recorded: RecordedResponse = await fs.readJson(fixturePath);
+      options.onText?.(recorded.response);
+      return { text: recorded.response };
+    }
+
+    if (!this.recordFrom) {
+      throw new AIProviderError(
+        this.name,
+        `No recorded AI response for prompt ${hash} in ${this.fixturesDir}. ` +
+        `Set SKAYA_AI_RECORD=<provider> to record one.`
+      );
+    }
+
+    const generation = await this.recordFrom.generate(systemPrompt, userPrompt, options);
+    const recorded: RecordedResponse = { systemPrompt, userPrompt, response: generation.text };
+    await fs.outputJson(fixturePath, recorded, { spaces: 2 });
+    return generation;
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  GenerativeModel,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+import { AIProviderType } from "../../../bin/types/enums";
+import { AIAuthError, AIProviderError, AIQuotaError, AIRateLimitError, AISafetyError } from "./errors";
+import { AIGeneration, AIProvider, AIRequestOptions } from "./types";
+
+/**
+ * Google Gemini backend
+ */
+export class GeminiProvider implements AIProvider {
+  public readonly name = AIProviderType.GEMINI;
+  private generativeModel: GenerativeModel;
+
+  constructor(public readonly model: string, apiKey: string) {
+    this.generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  public async generate(systemPrompt: string, userPrompt: string, options: AIRequestOptions = {}): Promise<AIGeneration> {
+    try {
+      const result = await this.generativeModel.generateContentStream(`${systemPrompt}\n\n${userPrompt}`, {
+        signal: options.signal,
+      });
+      // Rejects along with the stream; awaited once the stream is read
+      result.response.catch(() => undefined);
+      let text = "";
+      for await (const chunk of result.stream) {
+        text += chunk.text();
+        options.onText?.(text);
+      }
+      const usage = (await result.response).usageMetadata;
+      return {
+        text,
+        ...(usage && { usage: { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount } }),
+      };
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+}
+
+/**
+ * Maps an error of the Gemini SDK to an AIProviderError. Aborts and errors
+ * the SDK did not raise are returned as they are.
+ */
+export function toGeminiError(error: unknown): unknown {
+  const provider = AIProviderType.GEMINI;
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const details = JSON.stringify(error.errorDetails || []);
+    const message = `${error.status} ${error.statusText}`.trim();
+    if (error.status === 401 || error.status === 403 || /API_KEY_INVALID/.test(details)) {
+      return new AIAuthError(provider, message);
+    }
+    if (error.status === 429) {
+      // Daily and billing quotas reset long after any backoff gives up
+      if (/PerDay|billing/i.test(details)) {
+        return new AIQuotaError(provider, message);
+      }
+      const retryDelay = error.errorDetails?.find((detail) => typeof detail.retryDelay === "string")?.retryDelay;
+      const seconds = parseFloat(String(retryDelay));
+      return new AIRateLimitError(provider, message, Number.isNaN(seconds) ? undefined : seconds * 1000);
+    }
+    return new AIProviderError(provider, error.message, !!error.status && error.status >= 500);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError && /blocked/i.test(error.message)) {
+    return new AISafetyError(provider, error.message.replace(/^\[GoogleGenerativeAI Error\]: /, ""));
+  }
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return error;
+  }
+  if (error instanceof GoogleGenerativeAIError) {
+    // The request did not reach the server, e.g. no network
+    return new AIProviderError(provider, error.message, /Error fetching from/.test(error.message));
+  }
+  return error;
+}
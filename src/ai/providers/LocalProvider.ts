@@ -0,0 +1,16 @@
+import { AIProviderType } from "../../../bin/types/enums";
+import { OpenAIProvider } from "./OpenAIProvider";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Local OpenAI-compatible server such as Ollama or the llama.cpp server.
+ * These servers ignore the API key, but the client requires one.
+ */
+export class LocalProvider extends OpenAIProvider {
+  public readonly name = AIProviderType.LOCAL;
+
+  constructor(model: string, baseUrl: string = DEFAULT_LOCAL_BASE_URL, apiKey: string = "local") {
+    super(model, apiKey, baseUrl);
+  }
+}
@@ -0,0 +1,88 @@
+import OpenAI from "openai";
+import { AIProviderType } from "../../../bin/types/enums";
+import { AIAuthError, AIProviderError, AIQuotaError, AIRateLimitError, AISafetyError, parseRetryAfter } from "./errors";
+import { AIGeneration, AIProvider, AIRequestOptions } from "./types";
+
+/**
+ * OpenAI chat completions backend. Also used for OpenAI-compatible servers.
+ */
+export class OpenAIProvider implements AIProvider {
+  public readonly name: AIProviderType = AIProviderType.OPENAI;
+  protected client: OpenAI;
+
+  constructor(public readonly model: string, apiKey: string, baseUrl?: string) {
+    // Retries and timeouts are handled by RetryingProvider
+    this.client = new OpenAI({ apiKey, maxRetries: 0, ...(baseUrl && { baseURL: baseUrl }) });
+  }
+
+  public async generate(systemPrompt: string, userPrompt: string, options: AIRequestOptions = {}): Promise<AIGeneration> {
+    let text = "";
+    let finishReason: string | null = null;
+    let usage: OpenAI.CompletionUsage | undefined;
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt },
+          ],
+          temperature: 0.3,
+          stream: true,
+          // Compatible servers may not know the option; their usage is estimated
+          ...(this.name === AIProviderType.OPENAI && { stream_options: { include_usage: true } }),
+        },
+        { signal: options.signal }
+      );
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          text += choice.delta.content;
+          options.onText?.(text);
+        }
+        finishReason = choice?.finish_reason || finishReason;
+        usage = chunk.usage || usage;
+      }
+    } catch (error) {
+      throw toOpenAIError(this.name, error);
+    }
+
+    if (finishReason === "content_filter") {
+      throw new AISafetyError(this.name, "finish reason content_filter");
+    }
+    return {
+      text,
+      ...(usage && { usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } }),
+    };
+  }
+}
+
+/**
+ * Maps an error of the OpenAI SDK to an AIProviderError. Aborts and errors
+ * the SDK did not raise are returned as they are.
+ */
+export function toOpenAIError(provider: AIProviderType, error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError || !(error instanceof OpenAI.APIError)) {
+    return error;
+  }
+  const message = error.message;
+  if (error instanceof OpenAI.AuthenticationError || error instanceof OpenAI.PermissionDeniedError) {
+    return new AIAuthError(provider, message);
+  }
+  if (error instanceof OpenAI.RateLimitError) {
+    if (error.code === "insufficient_quota") {
+      return new AIQuotaError(provider, message);
+    }
+    const retryAfterMs = error.headers?.["retry-after-ms"];
+    return new AIRateLimitError(
+      provider,
+      message,
+      retryAfterMs ? Number(retryAfterMs) : parseRetryAfter(error.headers?.["retry-after"])
+    );
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    // Includes the client's own timeout; the server was never reached or never answered
+    return new AIProviderError(provider, message, true);
+  }
+  return new AIProviderError(provider, message, error.status !== undefined && (error.status >= 500 || error.status === 408));
+}
@@ -0,0 +1,133 @@
+import { AIProviderType } from "../../../bin/types/enums";
+import { AICancelledError, AIProviderError, AITimeoutError } from "./errors";
+import { AIGeneration, AIProvider, AIRequestOptions } from "./types";
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * Requests in flight per provider; more wait for a free slot
+ */
+export const MAX_CONCURRENT_REQUESTS = 2;
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * A provider asking to wait longer than this is reported rather than waited for
+ */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Runs at most `limit` tasks at once, starting waiting tasks in order
+ */
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // The slot passes straight to the next task, if there is one
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * Shared by every provider instance, so separate calls are limited together
+ */
+const limiters = new Map<AIProviderType, ConcurrencyLimiter>();
+
+/**
+ * Wraps a backend with a per-request timeout, a concurrency limit and retries
+ * of retryable failures with exponential backoff. A Retry-After the provider
+ * sent is waited for instead of the backoff.
+ */
+export class RetryingProvider implements AIProvider {
+  public readonly name: AIProviderType;
+  public readonly model: string;
+
+  constructor(
+    private inner: AIProvider,
+    private options: { timeoutMs: number; maxRetries?: number; baseDelayMs?: number }
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  public async generate(systemPrompt: string, userPrompt: string, options: AIRequestOptions = {}): Promise<AIGeneration> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const limiter = limiters.get(this.name) || new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+    limiters.set(this.name, limiter);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await limiter.run(() => this.attempt(systemPrompt, userPrompt, options));
+      } catch (error) {
+        if (!(error instanceof AIProviderError) || !error.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+        const backoff = Math.min(MAX_DELAY_MS, (this.options.baseDelayMs ?? BASE_DELAY_MS) * 2 ** attempt);
+        const delay = error.retryAfterMs ?? backoff * (1 + Math.random() * 0.25);
+        if (delay > MAX_RETRY_AFTER_MS) {
+          throw error;
+        }
+        console.warn(`⏳ ${error.message}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${maxRetries})`);
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delay);
+          options.signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            resolve();
+          }, { once: true });
+        });
+      }
+    }
+  }
+
+  /**
+   * One request, abandoned after the timeout or when the caller aborts, even
+   * if the backend ignores the abort
+   */
+  private async attempt(systemPrompt: string, userPrompt: string, options: AIRequestOptions): Promise<AIGeneration> {
+    if (options.signal?.aborted) {
+      throw new AICancelledError(this.name);
+    }
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new AITimeoutError(this.name, this.options.timeoutMs));
+      }, this.options.timeoutMs);
+      onAbort = () => {
+        controller.abort();
+        reject(new AICancelledError(this.name));
+      };
+      options.signal?.addEventListener("abort", onAbort);
+    });
+
+    try {
+      return await Promise.race([
+        this.inner.generate(systemPrompt, userPrompt, { signal: controller.signal, onText: options.onText }),
+        stopped,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort!);
+    }
+  }
+}
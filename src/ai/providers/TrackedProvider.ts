@@ -0,0 +1,59 @@
+import { AIProviderType } from "../../../bin/types/enums";
+import { estimateTokens } from "../projectContext";
+import { getCacheKey, readCachedResponse, writeCachedResponse } from "../responseCache";
+import { logAIUsage } from "../usage";
+import { AIGeneration, AIProvider, AIRequestOptions } from "./types";
+
+/**
+ * Wraps a real backend: answers repeated prompts from the response cache and
+ * logs the tokens of every call to Skayalogs.log. Tokens are estimated from
+ * the text when the backend does not report them.
+ */
+export class TrackedProvider implements AIProvider {
+  public readonly name: AIProviderType;
+  public readonly model: string;
+
+  constructor(private inner: AIProvider, private cache: boolean = true) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  public async generate(systemPrompt: string, userPrompt: string, options?: AIRequestOptions): Promise<AIGeneration> {
+    const key = getCacheKey(this.name, this.model, systemPrompt, userPrompt);
+    const cached = this.cache ? await readCachedResponse(key) : undefined;
+    if (cached) {
+      await logAIUsage({
+        provider: this.name,
+        model: this.model,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        cached: true,
+      });
+      options?.onText?.(cached.response);
+      return { text: cached.response };
+    }
+
+    const generation = await this.inner.generate(systemPrompt, userPrompt, options);
+    const usage = generation.usage || {
+      inputTokens: estimateTokens(`${systemPrompt}\n\n${userPrompt}`),
+      outputTokens: estimateTokens(generation.text),
+    };
+    // An empty answer is worth asking for again
+    if (this.cache && generation.text.trim()) {
+      await writeCachedResponse(key, {
+        provider: this.name,
+        model: this.model,
+        response: generation.text,
+        usage,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    await logAIUsage({
+      provider: this.name,
+      model: this.model,
+      usage,
+      estimatedTokens: !generation.usage,
+      cached: false,
+    });
+    return { text: generation.text, usage };
+  }
+}
@@ -0,0 +1,94 @@
+import { AIProviderType } from "../../../bin/types/enums";
+
+/**
+ * A failed call to a model backend. `retryable` failures (rate limits,
+ * timeouts, network and server errors) are retried with backoff; the others
+ * are reported straight away.
+ */
+export class AIProviderError extends Error {
+  constructor(
+    public readonly provider: AIProviderType,
+    message: string,
+    public readonly retryable: boolean = false,
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = "AIProviderError";
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to use the model
+ */
+export class AIAuthError extends AIProviderError {
+  constructor(provider: AIProviderType, message: string) {
+    super(provider, `authentication failed, check the API key (${message})`);
+    this.name = "AIAuthError";
+  }
+}
+
+/**
+ * The account's quota or billing limit is used up; waiting a few seconds does not help
+ */
+export class AIQuotaError extends AIProviderError {
+  constructor(provider: AIProviderType, message: string) {
+    super(provider, `quota exhausted (${message})`);
+    this.name = "AIQuotaError";
+  }
+}
+
+/**
+ * Too many requests; `retryAfterMs` is the wait the provider asked for, if it said
+ */
+export class AIRateLimitError extends AIProviderError {
+  constructor(provider: AIProviderType, message: string, retryAfterMs?: number) {
+    super(provider, `rate limited (${message})`, true, retryAfterMs);
+    this.name = "AIRateLimitError";
+  }
+}
+
+/**
+ * The request took longer than the configured timeout
+ */
+export class AITimeoutError extends AIProviderError {
+  constructor(provider: AIProviderType, public readonly timeoutMs: number) {
+    super(provider, `no answer within ${timeoutMs / 1000}s`, true);
+    this.name = "AITimeoutError";
+  }
+}
+
+/**
+ * The caller gave up on the request, e.g. on Ctrl-C
+ */
+export class AICancelledError extends AIProviderError {
+  constructor(provider: AIProviderType) {
+    super(provider, "cancelled");
+    this.name = "AICancelledError";
+  }
+}
+
+/**
+ * The prompt or the answer was blocked by the provider's safety filters
+ */
+export class AISafetyError extends AIProviderError {
+  constructor(provider: AIProviderType, message: string) {
+    super(provider, `blocked by safety filters (${message})`);
+    this.name = "AISafetyError";
+  }
+}
+
+/**
+ * Reads a Retry-After header: a number of seconds or an HTTP date
+ * @returns {number | undefined} The wait in milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,150 @@
+import path from "path";
+import { AIProviderType, ProjectType } from "../../../bin/types/enums";
+import { AIConfig, readConfig } from "../../../bin/utils/configLogger";
+import { isValidAIProvider } from "../../../bin/utils/validator";
+import { findApiKey, getApiKey } from "../../config";
+import { GeminiProvider } from "./GeminiProvider";
+import { FakeProvider } from "./FakeProvider";
+import { DEFAULT_LOCAL_BASE_URL, LocalProvider } from "./LocalProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { RetryingProvider } from "./RetryingProvider";
+import { TrackedProvider } from "./TrackedProvider";
+import { AIProvider, AIProviderOverrides, AIProviderSettings } from "./types";
+
+export * from "./errors";
+export * from "./types";
+
+export const DEFAULT_AI_PROVIDER = AIProviderType.GEMINI;
+
+export const DEFAULT_MODELS: Record<AIProviderType, string> = {
+  [AIProviderType.GEMINI]: "gemini-2.0-flash",
+  [AIProviderType.OPENAI]: "gpt-4o",
+  [AIProviderType.LOCAL]: "llama3.1",
+  [AIProviderType.FAKE]: "recorded",
+};
+
+/**
+ * Seconds a request may take; local models on a CPU can be slow to answer
+ */
+export const DEFAULT_TIMEOUT_SECONDS: Record<Exclude<AIProviderType, AIProviderType.FAKE>, number> = {
+  [AIProviderType.GEMINI]: 120,
+  [AIProviderType.OPENAI]: 120,
+  [AIProviderType.LOCAL]: 600,
+};
+
+export const DEFAULT_FIXTURES_DIR = path.join(".skaya", "ai-fixtures");
+
+/**
+ * Resolves provider settings. Later layers win: top-level `ai` config, then the
+ * project's `ai` config, then per-call overrides. A layer that switches provider
+ * drops the model, base URL and fixtures directory inherited from the layers below it;
+ * the response mode, timeout and retries apply to every provider. The response
+ * cache can only be turned off per call.
+ * @param projectType - Project whose `ai` config applies
+ * @param overrides - Per-call overrides such as `--provider` / `--model`
+ */
+export async function resolveAIProviderSettings(
+  projectType?: ProjectType,
+  overrides: AIProviderOverrides = {}
+): Promise<AIProviderSettings> {
+  const config = await readConfig();
+  const layers: AIConfig[] = [
+    config.ai || {},
+    (projectType && config[projectType]?.ai) || {},
+    overrides,
+  ];
+
+  let resolved: AIConfig = { provider: DEFAULT_AI_PROVIDER };
+  for (const layer of layers) {
+    const switchesProvider = layer.provider && layer.provider !== resolved.provider;
+    resolved = {
+      provider: layer.provider || resolved.provider,
+      model: layer.model || (switchesProvider ? undefined : resolved.model),
+      baseUrl: layer.baseUrl || (switchesProvider ? undefined : resolved.baseUrl),
+      fixturesDir: layer.fixturesDir || (switchesProvider ? undefined : resolved.fixturesDir),
+      responseMode: layer.responseMode || resolved.responseMode,
+      timeoutSeconds: layer.timeoutSeconds ?? resolved.timeoutSeconds,
+      maxRetries: layer.maxRetries ?? resolved.maxRetries,
+    };
+  }
+
+  const provider = resolved.provider as string;
+  if (!isValidAIProvider(provider)) {
+    throw new Error(
+      `Invalid AI provider "${provider}". Use '${Object.values(AIProviderType).join("', '")}'.`
+    );
+  }
+
+  return {
+    provider,
+    model: resolved.model || DEFAULT_MODELS[provider],
+    ...(resolved.baseUrl && { baseUrl: resolved.baseUrl }),
+    ...(resolved.fixturesDir && { fixturesDir: resolved.fixturesDir }),
+    ...(resolved.responseMode && { responseMode: resolved.responseMode }),
+    ...(resolved.timeoutSeconds !== undefined && { timeoutSeconds: resolved.timeoutSeconds }),
+    ...(resolved.maxRetries !== undefined && { maxRetries: resolved.maxRetries }),
+    ...(overrides.cache === false && { cache: false }),
+  };
+}
+
+/**
+ * Instantiates the provider described by the settings. Real backends get a
+ * timeout, retries and a concurrency limit, and go through the response cache
+ * and usage log; recorded responses do not.
+ */
+export function createAIProvider(settings: AIProviderSettings): AIProvider {
+  let backend: AIProvider;
+  switch (settings.provider) {
+    case AIProviderType.GEMINI:
+      backend = new GeminiProvider(settings.model, getApiKey(AIProviderType.GEMINI));
+      break;
+    case AIProviderType.OPENAI:
+      backend = new OpenAIProvider(settings.model, getApiKey(AIProviderType.OPENAI), settings.baseUrl);
+      break;
+    case AIProviderType.LOCAL:
+      backend = new LocalProvider(
+        settings.model,
+        settings.baseUrl || DEFAULT_LOCAL_BASE_URL,
+        findApiKey(AIProviderType.LOCAL, false)
+      );
+      break;
+    case AIProviderType.FAKE:
+      return createFakeProvider(settings);
+    default:
+      const exhaustiveCheck: never = settings.provider;
+      throw new Error(`Unhandled AI provider: ${exhaustiveCheck}`);
+  }
+
+  const timeoutSeconds = settings.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS[settings.provider];
+  return new TrackedProvider(
+    new RetryingProvider(backend, { timeoutMs: timeoutSeconds * 1000, maxRetries: settings.maxRetries }),
+    settings.cache !== false
+  );
+}
+
+/**
+ * Builds the replaying provider. SKAYA_AI_FIXTURES overrides the fixtures
+ * directory and SKAYA_AI_RECORD=<provider> records missing responses from a
+ * real provider.
+ */
+function createFakeProvider(settings: AIProviderSettings): FakeProvider {
+  const fixturesDir = path.resolve(
+    process.cwd(),
+    process.env.SKAYA_AI_FIXTURES || settings.fixturesDir || DEFAULT_FIXTURES_DIR
+  );
+
+  const recordProvider = process.env.SKAYA_AI_RECORD;
+  if (!recordProvider) {
+    return new FakeProvider(settings.model, fixturesDir);
+  }
+
+  if (!isValidAIProvider(recordProvider) || recordProvider === AIProviderType.FAKE) {
+    throw new Error(`Invalid SKAYA_AI_RECORD provider "${recordProvider}".`);
+  }
+
+  return new FakeProvider(
+    settings.model,
+    fixturesDir,
+    createAIProvider({ provider: recordProvider, model: DEFAULT_MODELS[recordProvider] })
+  );
+}
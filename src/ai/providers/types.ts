@@ -0,0 +1,62 @@
+import { AIProviderType, AIResponseMode } from "../../../bin/types/enums";
+
+/**
+ * Resolved settings used to construct a provider
+ */
+export interface AIProviderSettings {
+  provider: AIProviderType;
+  model: string;
+  /** Base URL of an OpenAI-compatible server (local provider) */
+  baseUrl?: string;
+  /** Directory of recorded responses (fake provider) */
+  fixturesDir?: string;
+  /** How generated files are requested, per file when unset */
+  responseMode?: AIResponseMode;
+  /** Reuse and save responses in the response cache, on unless `false` */
+  cache?: boolean;
+  /** Seconds a request may take before it is abandoned and retried */
+  timeoutSeconds?: number;
+  /** Retries of a request that failed with a retryable error */
+  maxRetries?: number;
+}
+
+/**
+ * Per-call overrides, e.g. from `--provider` / `--model`
+ */
+export type AIProviderOverrides = Partial<AIProviderSettings>;
+
+/**
+ * Tokens a call consumed, as reported by the provider
+ */
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A model's answer; `usage` is missing when the backend does not report it
+ */
+export interface AIGeneration {
+  text: string;
+  usage?: AIUsage;
+}
+
+/**
+ * Per-request options passed to a backend
+ */
+export interface AIRequestOptions {
+  /** Aborts the request, e.g. when it timed out or on Ctrl-C */
+  signal?: AbortSignal;
+  /** Called with the text received so far as the answer streams in */
+  onText?: (text: string) => void;
+}
+
+/**
+ * A model backend that turns a system and user prompt into text. Backends
+ * report failures as AIProviderError where they can tell what went wrong.
+ */
+export interface AIProvider {
+  readonly name: AIProviderType;
+  readonly model: string;
+  generate(systemPrompt: string, userPrompt: string, options?: AIRequestOptions): Promise<AIGeneration>;
+}
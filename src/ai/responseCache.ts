@@ -0,0 +1,61 @@
+import { createHash } from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { AIProviderType } from "../../bin/types/enums";
+import { AIUsage } from "./providers/types";
+
+export const AI_CACHE_DIR = path.join(".skaya", "cache", "ai");
+
+/**
+ * A saved model response, stored as `<key>.json` in the cache directory
+ */
+export interface CachedResponse {
+  provider: AIProviderType;
+  model: string;
+  response: string;
+  usage?: AIUsage; // What the call that produced the response consumed
+  createdAt: string;
+}
+
+/**
+ * Content address of a response: the provider, the model and the full prompt
+ */
+export function getCacheKey(provider: AIProviderType, model: string, systemPrompt: string, userPrompt: string): string {
+  return createHash("sha256").update(JSON.stringify([provider, model, systemPrompt, userPrompt])).digest("hex");
+}
+
+/**
+ * Looks up a cached response; an unreadable entry counts as a miss
+ * @param {string} key - The result of getCacheKey
+ * @returns {Promise<CachedResponse | undefined>} The entry, if there is one
+ */
+export async function readCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  return fs.readJson(getCachePath(key)).catch(() => undefined);
+}
+
+/**
+ * Saves a response under its key
+ * @param {string} key - The result of getCacheKey
+ * @param {CachedResponse} entry - The response
+ */
+export async function writeCachedResponse(key: string, entry: CachedResponse): Promise<void> {
+  await fs.outputJson(getCachePath(key), entry, { spaces: 2 });
+}
+
+/**
+ * Deletes every cached response
+ * @returns {Promise<number>} How many responses were deleted
+ */
+export async function clearResponseCache(): Promise<number> {
+  const cacheDir = path.join(process.cwd(), AI_CACHE_DIR);
+  if (!(await fs.pathExists(cacheDir))) {
+    return 0;
+  }
+  const count = (await fs.readdir(cacheDir)).filter((file) => file.endsWith(".json")).length;
+  await fs.remove(cacheDir);
+  return count;
+}
+
+function getCachePath(key: string): string {
+  return path.join(process.cwd(), AI_CACHE_DIR, `${key}.json`);
+}
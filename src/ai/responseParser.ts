@@ -0,0 +1,116 @@
+/**
+ * A fenced code block: ```lang, the code, then ``` on its own line
+ */
+const FENCED_BLOCK = /```[^\n`]*\r?\n([\s\S]*?)\r?\n[ \t]*```/g;
+const WHOLE_FENCED_BLOCK = /^```[^\n`]*\r?\n([\s\S]*?)\r?\n[ \t]*```$/;
+const OPENING_FENCE = /^```[^\n`]*\r?\n/;
+
+/**
+ * A file in a structured (multi-file JSON) model response
+ */
+export interface StructuredFile {
+  fileName: string;
+  content: string;
+}
+
+/**
+ * Raised when a structured response is not JSON or does not match the
+ * expected shape; `issues` name each problem
+ */
+export class StructuredResponseError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid structured AI response:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "StructuredResponseError";
+  }
+}
+
+/**
+ * Extracts the code from a model response that may wrap it in a Markdown
+ * fence. Handles a response that is one fenced block (which may contain
+ * fences of its own), a lead-in line or trailing prose around the blocks
+ * (the longest block wins), any language tag, CRLF line endings and a
+ * closing fence cut off by the output limit. Other responses are returned
+ * trimmed, so fences inside code (e.g. in a doc comment) are left alone.
+ * @param {string} text - The raw response
+ * @returns {string} The code
+ */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+
+  const whole = trimmed.match(WHOLE_FENCED_BLOCK);
+  if (whole) {
+    return whole[1];
+  }
+
+  const leadIn = trimmed.slice(0, Math.max(trimmed.indexOf("```"), 0));
+  const blocks = [...trimmed.matchAll(FENCED_BLOCK)].map((match) => match[1]);
+  if (blocks.length > 0 && leadIn.trim().split("\n").length <= 1) {
+    return blocks.reduce((longest, block) => (block.length > longest.length ? block : longest));
+  }
+
+  return trimmed.replace(OPENING_FENCE, "");
+}
+
+/**
+ * Parses a structured response of the form
+ * `{ "files": [{ "fileName": "...", "content": "..." }] }`, which may be
+ * fenced or surrounded by prose. Every expected file must be present once,
+ * with non-empty content, and no other files are allowed.
+ * @param {string} text - The raw response
+ * @param {string[]} expectedFileNames - The file names that were asked for
+ * @returns {StructuredFile[]} The files, with fences stripped from their content
+ * @throws {StructuredResponseError} If the response does not match
+ */
+export function parseStructuredFiles(text: string, expectedFileNames: string[]): StructuredFile[] {
+  const body = stripCodeFences(text);
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new StructuredResponseError(["(root): no JSON object found"]);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.slice(start, end + 1));
+  } catch (error) {
+    throw new StructuredResponseError([`(root): not valid JSON (${(error as Error).message})`]);
+  }
+
+  const files = (parsed as { files?: unknown })?.files;
+  if (!Array.isArray(files)) {
+    throw new StructuredResponseError(["files: must be an array"]);
+  }
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  const result: StructuredFile[] = [];
+  files.forEach((file: any, index: number) => {
+    if (typeof file !== "object" || file === null || Array.isArray(file)) {
+      issues.push(`files[${index}]: must be an object`);
+      return;
+    }
+    if (typeof file.fileName !== "string" || !expectedFileNames.includes(file.fileName)) {
+      issues.push(`files[${index}].fileName: must be one of ${expectedFileNames.map((name) => `'${name}'`).join(", ")}`);
+      return;
+    }
+    if (seen.has(file.fileName)) {
+      issues.push(`files[${index}].fileName: '${file.fileName}' appears more than once`);
+      return;
+    }
+    seen.add(file.fileName);
+    if (typeof file.content !== "string" || !file.content.trim()) {
+      issues.push(`files[${index}].content: must be a non-empty string`);
+      return;
+    }
+    const fenced = file.content.trim().match(WHOLE_FENCED_BLOCK);
+    result.push({ fileName: file.fileName, content: fenced ? fenced[1] : file.content });
+  });
+  for (const fileName of expectedFileNames.filter((name) => !seen.has(name))) {
+    issues.push(`files: '${fileName}' is missing`);
+  }
+
+  if (issues.length > 0) {
+    throw new StructuredResponseError(issues);
+  }
+  return result;
+}
@@ -0,0 +1,216 @@
+import { AIProviderType, ComponentType, ProjectType, UsageGrouping } from "../../bin/types/enums";
+import { appendLogEntry, readLogEntries } from "../../bin/utils/configLogger";
+import { AIUsage } from "./providers/types";
+
+/**
+ * USD per million input and output tokens. A model is priced by the longest
+ * name it starts with, so dated snapshots such as gpt-4o-2024-08-06 match.
+ */
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+};
+
+/**
+ * The component a `create` or `update` is generating, recorded with each AI call
+ */
+export interface AIUsageScope {
+  projectType: ProjectType;
+  componentType: ComponentType;
+  component: string;
+}
+
+/**
+ * One AI call as logged in Skayalogs.log
+ */
+export interface AIUsageEntry extends Partial<AIUsageScope>, AIUsage {
+  timestamp: string;
+  event: "ai-usage";
+  provider: AIProviderType;
+  model: string;
+  estimatedTokens?: boolean; // Counted from the text, the provider reported no usage
+  cached: boolean; // Answered from the response cache, consuming no tokens
+  cost: number | null; // Estimated USD, null when the model's price is unknown
+}
+
+/**
+ * Totals of the calls sharing a day, component or model
+ */
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  cached: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpriced: number; // Calls to models without a known price, left out of `cost`
+}
+
+/**
+ * The component the running `create` or `update` generates
+ */
+let activeScope: AIUsageScope | undefined;
+
+/**
+ * Attributes the AI calls made by `fn` to a component
+ * @param {AIUsageScope} scope - The component being generated
+ * @param {Function} fn - The work
+ * @returns {Promise<T>} What `fn` returns
+ */
+export async function withAIUsageScope<T>(scope: AIUsageScope, fn: () => Promise<T>): Promise<T> {
+  const previous = activeScope;
+  activeScope = scope;
+  try {
+    return await fn();
+  } finally {
+    activeScope = previous;
+  }
+}
+
+/**
+ * Estimated cost of a call in USD
+ * @returns {number | null} The cost, 0 for local and recorded models, null for models without a known price
+ */
+export function estimateCost(provider: AIProviderType, model: string, usage: AIUsage): number | null {
+  if (provider === AIProviderType.LOCAL || provider === AIProviderType.FAKE) {
+    return 0;
+  }
+  const name = Object.keys(MODEL_PRICES)
+    .filter((priced) => model === priced || model.startsWith(`${priced}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) {
+    return null;
+  }
+  const price = MODEL_PRICES[name];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Logs an AI call, attributed to the component of the running scope
+ * @param {object} call - The provider, model and tokens of the call
+ */
+export async function logAIUsage(call: {
+  provider: AIProviderType;
+  model: string;
+  usage: AIUsage;
+  estimatedTokens?: boolean;
+  cached: boolean;
+}): Promise<void> {
+  const { provider, model, usage, estimatedTokens, cached } = call;
+  const entry: AIUsageEntry = {
+    timestamp: new Date().toISOString(),
+    event: "ai-usage",
+    provider,
+    model,
+    ...activeScope,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    ...(estimatedTokens && { estimatedTokens }),
+    cached,
+    cost: cached ? 0 : estimateCost(provider, model, usage),
+  };
+  await appendLogEntry(entry);
+}
+
+/**
+ * Reads the AI calls logged in Skayalogs.log
+ * @returns {Promise<AIUsageEntry[]>} The calls, oldest first
+ */
+export async function readAIUsage(): Promise<AIUsageEntry[]> {
+  return (await readLogEntries()).filter((entry): entry is AIUsageEntry & Record<string, unknown> => entry.event === "ai-usage");
+}
+
+/**
+ * Sums calls by day (UTC), component or model. Days are listed oldest first,
+ * components and models by the tokens they used.
+ * @param {AIUsageEntry[]} entries - The logged calls
+ * @param {UsageGrouping} grouping - What to sum by
+ * @returns {UsageSummary[]} One summary per day, component or model
+ */
+export function summarizeUsage(entries: AIUsageEntry[], grouping: UsageGrouping): UsageSummary[] {
+  const groups = new Map<string, AIUsageEntry[]>();
+  for (const entry of entries) {
+    const key = getGroupKey(entry, grouping);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  return [...groups].map(([key, group]) => sumUsage(key, group)).sort((a, b) =>
+    grouping === UsageGrouping.DAY
+      ? a.key.localeCompare(b.key)
+      : b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens) || a.key.localeCompare(b.key)
+  );
+}
+
+/**
+ * Renders one table per grouping, each ending with the total
+ * @param {AIUsageEntry[]} entries - The logged calls
+ * @param {UsageGrouping[]} groupings - The tables to render
+ * @returns {string} The report
+ */
+export function formatUsageReport(entries: AIUsageEntry[], groupings: UsageGrouping[]): string {
+  if (entries.length === 0) {
+    return "No AI usage recorded yet.";
+  }
+
+  const total = sumUsage("total", entries);
+  const tables = groupings.map((grouping) => {
+    const rows = [...summarizeUsage(entries, grouping), total].map((summary) => [
+      summary.key,
+      String(summary.calls),
+      String(summary.cached),
+      summary.inputTokens.toLocaleString("en-US"),
+      summary.outputTokens.toLocaleString("en-US"),
+      `$${summary.cost.toFixed(4)}${summary.unpriced > 0 ? "*" : ""}`,
+    ]);
+    const header = [`by ${grouping}`, "calls", "cached", "input tokens", "output tokens", "est. cost"];
+    const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map((row) => row[column].length)));
+    const line = (cells: string[]) =>
+      `  ${cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ")}`;
+    return [line(header), ...rows.map(line)].join("\n");
+  });
+  if (total.unpriced > 0) {
+    tables.push(`* ${total.unpriced} call(s) to models without a known price are not included in the cost.`);
+  }
+  return tables.join("\n\n");
+}
+
+function sumUsage(key: string, entries: AIUsageEntry[]): UsageSummary {
+  const summary: UsageSummary = { key, calls: 0, cached: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 };
+  for (const entry of entries) {
+    summary.calls++;
+    summary.cached += entry.cached ? 1 : 0;
+    summary.inputTokens += entry.inputTokens;
+    summary.outputTokens += entry.outputTokens;
+    if (entry.cost === null) {
+      summary.unpriced++;
+    } else {
+      summary.cost += entry.cost;
+    }
+  }
+  return summary;
+}
+
+function getGroupKey(entry: AIUsageEntry, grouping: UsageGrouping): string {
+  switch (grouping) {
+    case UsageGrouping.DAY:
+      return entry.timestamp.slice(0, 10);
+    case UsageGrouping.COMPONENT:
+      return entry.component ? `${entry.projectType} ${entry.componentType} ${entry.component}` : "(no component)";
+    case UsageGrouping.MODEL:
+      return `${entry.provider} ${entry.model}`;
+    default:
+      const exhaustiveCheck: never = grouping;
+      throw new Error(`Unhandled usage grouping: ${exhaustiveCheck}`);
+  }
+}
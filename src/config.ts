@@ -3,38 +3,63 @@ import { existsSync, readFileSync } from 'fs';
 import path from 'path';
 import { homedir } from 'os';
 import dotenv from 'dotenv';
+import { AIProviderType } from '../bin/types/enums';
+import { AIAuthError } from './ai/providers/errors';
 
 // Load .env file if exists
 dotenv.config();
 
-// src/config.ts
-export function getApiKey(): string {
-  // Check environment variable first
-  const envKey = process.env.SKAYA_API_KEY;
-  if (envKey) return envKey;
+/**
+ * Looks up an API key without failing. Provider-specific keys
+ * (SKAYA_OPENAI_API_KEY, skaya_openai_api_key) win over the shared SKAYA_API_KEY.
+ * @param provider - Provider to look up a specific key for
+ * @param includeShared - Whether to fall back to the shared SKAYA_API_KEY
+ */
+export function findApiKey(provider?: AIProviderType, includeShared: boolean = true): string | undefined {
+  const names = [
+    ...(provider ? [`skaya_${provider}_api_key`] : []),
+    ...(includeShared || !provider ? ['skaya_api_key'] : []),
+  ];
+
+  // Check environment variables first
+  for (const name of names) {
+    const envKey = process.env[name.toUpperCase()];
+    if (envKey) return envKey;
+  }
 
   // Then check .npmrc files
-  const checkNpmrc = (filePath: string): string | undefined => {
+  const checkNpmrc = (filePath: string, name: string): string | undefined => {
     if (existsSync(filePath)) {
       const npmrc = readFileSync(filePath, 'utf-8');
-      const match = npmrc.match(/skaya_api_key\s*=\s*(.+)/);
+      const match = npmrc.match(new RegExp(`^\\s*${name}\\s*=\\s*(.+)`, 'm'));
       return match?.[1]?.trim();
     }
   };
 
-  const localNpmrcKey = checkNpmrc(path.join(process.cwd(), '.npmrc'));
-  if (localNpmrcKey) return localNpmrcKey;
+  for (const name of names) {
+    const localNpmrcKey = checkNpmrc(path.join(process.cwd(), '.npmrc'), name);
+    if (localNpmrcKey) return localNpmrcKey;
 
-  const globalNpmrcKey = checkNpmrc(path.join(homedir(), '.npmrc'));
-  if (globalNpmrcKey) return globalNpmrcKey;
+    const globalNpmrcKey = checkNpmrc(path.join(homedir(), '.npmrc'), name);
+    if (globalNpmrcKey) return globalNpmrcKey;
+  }
 
-  throw new Error(`
-    API key not found. Please configure it in one of these ways:
+  return undefined;
+}
 
-    1. Environment variable (recommended):
-       export SKAYA_API_KEY=your_key_here
+/**
+ * Looks up the API key for a provider
+ * @param provider - Provider the key is for, Gemini if not given
+ * @throws AIAuthError if no key is configured, so nothing is generated without one
+ */
+export function getApiKey(provider?: AIProviderType): string {
+  // SKAYA_API_KEY has always held a Gemini key; other vendors must not be sent it
+  const key = findApiKey(provider, !provider || provider === AIProviderType.GEMINI);
+  if (key) return key;
 
-    2. Local .npmrc file:
-       echo 'skaya_api_key=your_key_here' >> .npmrc
-  `);
-}
\ No newline at end of file
+  const envName = provider ? `SKAYA_${provider.toUpperCase()}_API_KEY` : 'SKAYA_API_KEY';
+  throw new AIAuthError(
+    provider || AIProviderType.GEMINI,
+    `no key found; export ${envName}=your_key_here, or add ${envName.toLowerCase()}=your_key_here to .npmrc`
+  );
+}
@@ -0,0 +1,371 @@
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import { BackendComponentType, ProjectType } from "../../../../bin/types/enums";
+import { getDefaultFolderForComponentType } from "../../../../bin/utils/ProjectScanner";
+import { trackFileChange } from "../../../../bin/utils/history";
+
+/**
+ * Files searched for the router the routes are mounted on, relative to the
+ * backend `src` folder, in order of preference
+ */
+const ROUTER_ENTRY_CANDIDATES = [
+  "routes/index.ts",
+  "routes/index.js",
+  "app.ts",
+  "app.js",
+  "index.ts",
+  "index.js",
+  "server.ts",
+  "server.js",
+];
+
+/**
+ * A parsed router entry file and the variable routes are mounted on
+ */
+interface RouterEntry {
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  /** `router` for `Router()`, `app` for `express()` */
+  mountTarget: string;
+}
+
+/**
+ * A text insertion or deletion at a source offset
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Mounts a generated route on the project's router entry file by adding its
+ * import and a `router.use('/<name>', [middlewares...,] <name>Route)` call.
+ * Running it again for a registered route leaves the file untouched.
+ * @param {string} routeName - The route component name
+ * @param {string[]} createdFiles - Files written for the route
+ * @param {string[]} middlewares - Middleware components to run before the route
+ * @returns {Promise<string | undefined>} The entry file path, if the route is registered there
+ */
+export async function registerRoute(
+  routeName: string,
+  createdFiles: string[],
+  middlewares: string[] = []
+): Promise<string | undefined> {
+  const routeFile = createdFiles.find((file) =>
+    [`${routeName}.ts`, `${routeName}.js`].includes(path.basename(file))
+  );
+  if (!routeFile) {
+    return undefined;
+  }
+
+  const entry = await findRouterEntry();
+  if (!entry) {
+    console.warn(`⚠️  No router entry file found. Register ${routeName} manually.`);
+    return undefined;
+  }
+
+  const { filePath, sourceFile, mountTarget } = entry;
+  const edits: TextEdit[] = [];
+  const routeIdentifier = ensureDefaultImport(
+    sourceFile,
+    toImportPath(filePath, routeFile),
+    `${lowerFirst(routeName)}Route`,
+    edits
+  );
+
+  if (findMountStatements(sourceFile, routeIdentifier).length > 0) {
+    return filePath;
+  }
+
+  const middlewareFolder = await getDefaultFolderForComponentType(
+    ProjectType.BACKEND,
+    BackendComponentType.MIDDLEWARE
+  );
+  const middlewareIdentifiers = middlewares.map((name) =>
+    ensureDefaultImport(
+      sourceFile,
+      toImportPath(filePath, path.join(process.cwd(), middlewareFolder, name, `${name}.ts`)),
+      `${lowerFirst(name)}Middleware`,
+      edits
+    )
+  );
+
+  const handlers = [...middlewareIdentifiers, routeIdentifier].join(", ");
+  const mountLine = `${mountTarget}.use('/${routeName.toLowerCase()}', ${handlers});`;
+  edits.push(getMountInsertion(sourceFile, mountTarget, mountLine));
+
+  await trackFileChange(filePath);
+  await fs.writeFile(filePath, applyEdits(sourceFile.text, edits));
+  return filePath;
+}
+
+/**
+ * Reverses {@link registerRoute}: removes the route's mount calls and its
+ * import, plus imports of middlewares that are no longer referenced.
+ * @param {string} routeName - The route component name
+ * @param {string[]} routeFiles - Files of the route component
+ * @returns {Promise<string | undefined>} The entry file path, if it was changed
+ */
+export async function unregisterRoute(
+  routeName: string,
+  routeFiles: string[]
+): Promise<string | undefined> {
+  const entry = await findRouterEntry();
+  if (!entry) {
+    return undefined;
+  }
+
+  const { filePath, sourceFile } = entry;
+  const routeImportPaths = routeFiles.map((file) => toImportPath(filePath, file));
+  const routeImport = sourceFile.statements
+    .filter(ts.isImportDeclaration)
+    .find((statement) => routeImportPaths.includes(getModuleName(statement)));
+  const routeIdentifier =
+    routeImport?.importClause?.name?.text ?? `${lowerFirst(routeName)}Route`;
+
+  const mounts = findMountStatements(sourceFile, routeIdentifier);
+  if (!routeImport && mounts.length === 0) {
+    return undefined;
+  }
+
+  const removed = new Set<ts.Node>([...mounts, ...(routeImport ? [routeImport] : [])]);
+  const handlerNames = mounts.flatMap((statement) =>
+    getUseArguments(statement).filter(ts.isIdentifier).map((arg) => arg.text)
+  );
+
+  for (const statement of sourceFile.statements.filter(ts.isImportDeclaration)) {
+    const localName = statement.importClause?.name?.text;
+    if (
+      localName &&
+      localName !== routeIdentifier &&
+      handlerNames.includes(localName) &&
+      !isReferencedOutside(sourceFile, localName, new Set([...removed, statement]))
+    ) {
+      removed.add(statement);
+    }
+  }
+
+  const edits = [...removed].map((node) => removeLines(sourceFile.text, node));
+  await fs.writeFile(filePath, applyEdits(sourceFile.text, edits));
+  return filePath;
+}
+
+/**
+ * Finds the first candidate entry file that creates an Express router or app
+ * @returns {Promise<RouterEntry | undefined>} The parsed entry file
+ */
+async function findRouterEntry(): Promise<RouterEntry | undefined> {
+  const srcFolder = await getDefaultFolderForComponentType(ProjectType.BACKEND);
+
+  for (const candidate of ROUTER_ENTRY_CANDIDATES) {
+    const filePath = path.join(process.cwd(), srcFolder, candidate);
+    if (!(await fs.pathExists(filePath))) {
+      continue;
+    }
+
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      await fs.readFile(filePath, "utf-8"),
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const mountTarget = findMountTarget(sourceFile);
+    if (mountTarget) {
+      return { filePath, sourceFile, mountTarget };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the name of the top-level variable initialised with `Router()`,
+ * `express.Router()` or `express()`, preferring routers
+ * @param {ts.SourceFile} sourceFile - The parsed entry file
+ * @returns {string | undefined} The variable name
+ */
+function findMountTarget(sourceFile: ts.SourceFile): string | undefined {
+  let app: string | undefined;
+
+  for (const statement of sourceFile.statements.filter(ts.isVariableStatement)) {
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+        continue;
+      }
+      const initializer = declaration.initializer;
+      if (!ts.isCallExpression(initializer)) {
+        continue;
+      }
+
+      const callee = initializer.expression;
+      const calleeName = ts.isPropertyAccessExpression(callee)
+        ? callee.name.text
+        : ts.isIdentifier(callee)
+          ? callee.text
+          : undefined;
+
+      if (calleeName === "Router") {
+        return declaration.name.text;
+      }
+      if (calleeName === "express") {
+        app = declaration.name.text;
+      }
+    }
+  }
+  return app;
+}
+
+/**
+ * Returns the local name of the default import from `moduleName`, queueing
+ * a new import after the existing ones when there is none
+ * @param {ts.SourceFile} sourceFile - The parsed entry file
+ * @param {string} moduleName - The import specifier
+ * @param {string} identifier - Local name used for a new import
+ * @param {TextEdit[]} edits - Edits to add the import to
+ * @returns {string} The local name to reference
+ */
+function ensureDefaultImport(
+  sourceFile: ts.SourceFile,
+  moduleName: string,
+  identifier: string,
+  edits: TextEdit[]
+): string {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const existing = imports.find((statement) => getModuleName(statement) === moduleName);
+  if (existing?.importClause?.name) {
+    return existing.importClause.name.text;
+  }
+
+  const importLine = `import ${identifier} from '${moduleName}';`;
+  const lastImport = imports[imports.length - 1];
+  edits.push(
+    lastImport
+      ? { start: lastImport.end, end: lastImport.end, text: `\n${importLine}` }
+      : { start: 0, end: 0, text: `${importLine}\n` }
+  );
+  return identifier;
+}
+
+/**
+ * Places a new mount call after the last path mount, otherwise before the
+ * default export, otherwise at the end of the file
+ * @param {ts.SourceFile} sourceFile - The parsed entry file
+ * @param {string} mountTarget - The router or app variable
+ * @param {string} mountLine - The statement to insert
+ * @returns {TextEdit} The insertion
+ */
+function getMountInsertion(
+  sourceFile: ts.SourceFile,
+  mountTarget: string,
+  mountLine: string
+): TextEdit {
+  const pathMounts = sourceFile.statements.filter(
+    (statement) =>
+      isUseCall(statement, mountTarget) &&
+      ts.isStringLiteralLike(getUseArguments(statement)[0] ?? statement)
+  );
+  const lastMount = pathMounts[pathMounts.length - 1];
+  if (lastMount) {
+    return { start: lastMount.end, end: lastMount.end, text: `\n${mountLine}` };
+  }
+
+  const defaultExport = sourceFile.statements.find(ts.isExportAssignment);
+  if (defaultExport) {
+    const start = defaultExport.getStart(sourceFile);
+    return { start, end: start, text: `${mountLine}\n\n` };
+  }
+
+  return {
+    start: sourceFile.text.trimEnd().length,
+    end: sourceFile.text.length,
+    text: `\n${mountLine}\n`,
+  };
+}
+
+/**
+ * Top-level `<target>.use(...)` statements that pass `identifier` as a handler
+ */
+function findMountStatements(sourceFile: ts.SourceFile, identifier: string): ts.Statement[] {
+  return sourceFile.statements.filter((statement) =>
+    isUseCall(statement) &&
+    getUseArguments(statement).some((arg) => ts.isIdentifier(arg) && arg.text === identifier)
+  );
+}
+
+function isUseCall(statement: ts.Statement, mountTarget?: string): boolean {
+  if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) {
+    return false;
+  }
+  const callee = statement.expression.expression;
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    callee.name.text === "use" &&
+    ts.isIdentifier(callee.expression) &&
+    (!mountTarget || callee.expression.text === mountTarget)
+  );
+}
+
+function getUseArguments(statement: ts.Statement): readonly ts.Expression[] {
+  return ((statement as ts.ExpressionStatement).expression as ts.CallExpression).arguments;
+}
+
+function getModuleName(statement: ts.ImportDeclaration): string {
+  return (statement.moduleSpecifier as ts.StringLiteral).text;
+}
+
+/**
+ * Whether `name` is referenced anywhere except inside the given nodes
+ */
+function isReferencedOutside(
+  sourceFile: ts.SourceFile,
+  name: string,
+  excluded: Set<ts.Node>
+): boolean {
+  const visit = (node: ts.Node): boolean => {
+    if (excluded.has(node)) {
+      return false;
+    }
+    if (ts.isIdentifier(node) && node.text === name) {
+      return true;
+    }
+    return ts.forEachChild(node, visit) ?? false;
+  };
+  return ts.forEachChild(sourceFile, visit) ?? false;
+}
+
+/**
+ * Deletes the whole lines a statement occupies, collapsing the blank lines
+ * around it when it stood alone
+ */
+function removeLines(text: string, node: ts.Node): TextEdit {
+  const start = text.lastIndexOf("\n", node.getStart() - 1) + 1;
+  const lineEnd = text.indexOf("\n", node.end);
+  let end = lineEnd === -1 ? text.length : lineEnd + 1;
+  if (text.slice(start - 2, start) === "\n\n" && text[end] === "\n") {
+    end += 1;
+  }
+  return { start, end, text: "" };
+}
+
+/**
+ * Applies edits back to front so earlier offsets stay valid
+ */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
+
+function toImportPath(fromFile: string, toFile: string): string {
+  const importPath = path
+    .relative(path.dirname(fromFile), toFile)
+    .replace(/\.[jt]s$/, "")
+    .split(path.sep)
+    .join("/");
+  return importPath.startsWith(".") ? importPath : `./${importPath}`;
+}
+
+function lowerFirst(name: string): string {
+  return `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+}
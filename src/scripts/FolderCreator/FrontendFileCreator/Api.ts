@@ -1,5 +1,4 @@
 
-import inquirer from "inquirer";
 import {
   ApiType,
   ComponentType,
@@ -9,7 +8,8 @@ import {
 import path from "path";
 import fs from "fs-extra";
 import { readConfig } from "../../../../bin/utils/configLogger";
-import { askApiEndpointConfig } from "../../../../bin/utils/prompt";
+import { trackFileChange } from "../../../../bin/utils/history";
+import { askApiEndpointConfig, promptAnswers } from "../../../../bin/utils/prompt";
 import { ApiEndpointConfig } from "../../../../bin/types/interfaces";
 import TemplateService from "../../../services/TemplateService";
 import {
@@ -36,7 +36,7 @@ export async function handleApiComponentType(
   let apiType: ApiType;
   let apiConfig: ApiEndpointConfig;
 
-  const { selectedApiType } = await inquirer.prompt([
+  const { selectedApiType } = await promptAnswers([
     {
       type: "list",
       name: "selectedApiType",
@@ -50,6 +50,66 @@ export async function handleApiComponentType(
   apiType = selectedApiType;
   apiConfig = await askApiEndpointConfig();
 
+  createdFiles.push(...(await ensureReduxStore(projectType, componentType)));
+
+  // Convert fileName to uppercase for the endpoint key
+  const endpointKey = fileName.toUpperCase();
+
+  try {
+    const baseFiles = TemplateService.getBaseTemplateFiles(
+      FrontendComponentType.API
+    );
+
+    // --- Start of new logic to handle base files ---
+    const targetDir = path.join(process.cwd(), targetFolder);
+    await fs.ensureDir(targetDir);
+
+    const apiSliceFolder = path.join(targetDir, fileName); // Create a new folder for the slice
+    const apiSliceIndexPath = path.join(apiSliceFolder, "index.ts"); // The index.ts file inside the new folder
+
+    const apiSliceTemplatePath = path.join(
+      getDefaultTemplateDirectory(projectType, componentType),
+      "apiSlice.tsx"
+    );
+
+    for (const file of baseFiles) {
+      if (file === "apiSlice.tsx") {
+        await fs.ensureDir(apiSliceFolder); // Ensure the new folder exists
+        if (await fs.pathExists(apiSliceTemplatePath)) {
+          const content = renameApiSlice(await fs.readFile(apiSliceTemplatePath, "utf-8"), fileName);
+
+          await trackFileChange(apiSliceIndexPath);
+          await fs.outputFile(apiSliceIndexPath, content); // Save the file as index.ts in the new folder
+          createdFiles.push(apiSliceIndexPath);
+        } else {
+          console.warn(`Template file not found: ${apiSliceTemplatePath}`);
+        }
+      } else if (file === "backendRequest.ts") {
+        createdFiles.push(...(await copyBackendRequest(projectType, componentType, targetDir)));
+      }
+    }
+    // --- End of new logic ---
+
+    await upsertApiEndpoints(apiFilePath, { [endpointKey]: apiConfig });
+    createdFiles.push(apiFilePath);
+
+    return createdFiles;
+  } catch (error) {
+    throw new Error(`Failed to update API endpoints file: ${error}`);
+  }
+}
+
+/**
+ * Creates the Redux store and its provider in the API folder if the frontend
+ * project does not have them yet
+ * @returns {Promise<string[]>} The files created
+ */
+export async function ensureReduxStore(
+  projectType: ProjectType,
+  componentType: ComponentType
+): Promise<string[]> {
+  const createdFiles: string[] = [];
+
   // Check if Redux store files already exist
   const config = await readConfig();
   if (config?.frontend) {
@@ -85,6 +145,7 @@ export async function handleApiComponentType(
 
           if (await fs.pathExists(sourcePath)) {
             let content = await fs.readFile(sourcePath, "utf-8");
+            await trackFileChange(targetPath);
             await fs.outputFile(targetPath, content); // Use targetPath instead of targetFolder
             createdFiles.push(targetPath);
           }
@@ -95,142 +156,267 @@ export async function handleApiComponentType(
     }
   }
 
-  // Convert fileName to uppercase for the endpoint key
-  const endpointKey = fileName.toUpperCase();
-
-  // Create the new API endpoint object
-  const newEndpoint = {
-    apiId: apiConfig.apiId,
-    withAuth: apiConfig.withAuth,
-    url: apiConfig.url,
-    method: apiConfig.method,
-  };
-
-  // Format the new endpoint as a string to be added to the file
-  const newEndpointString = `${endpointKey}: ${JSON.stringify(
-    newEndpoint,
-    null,
-    2
-  ).replace(/"([^"]+)":/g, "$1:")},`;
-
-  try {
-    let fileContent = "";
+  return createdFiles;
+}
 
-    const baseFiles = TemplateService.getBaseTemplateFiles(
-      FrontendComponentType.API
+/**
+ * Copies the `backendRequest.ts` helper the slices call into the API folder,
+ * unless it is already there
+ * @param {string} targetDir - Absolute path of the API folder
+ * @returns {Promise<string[]>} The file, if it was created
+ */
+export async function copyBackendRequest(
+  projectType: ProjectType,
+  componentType: ComponentType,
+  targetDir: string
+): Promise<string[]> {
+  const file = "backendRequest.ts";
+  const targetBackendRequestPath = path.join(targetDir, file);
+  const sourceBackendRequestPath = path.join(
+    getDefaultTemplateDirectory(projectType, componentType),
+    file
+  );
+  // Only copy if it doesn't already exist
+  if (await fs.pathExists(targetBackendRequestPath)) {
+    return [];
+  }
+  if (!(await fs.pathExists(sourceBackendRequestPath))) {
+    console.warn(
+      `Template file not found: ${sourceBackendRequestPath}`
     );
+    return [];
+  }
+  const content = await fs.readFile(sourceBackendRequestPath, "utf-8");
+  await trackFileChange(targetBackendRequestPath);
+  await fs.outputFile(targetBackendRequestPath, content);
+  console.log(`Backend API Call added: ${targetBackendRequestPath}`);
+  return [targetBackendRequestPath];
+}
 
-    // --- Start of new logic to handle base files ---
-    const targetDir = path.join(process.cwd(), targetFolder);
-    await fs.ensureDir(targetDir);
-
-    const apiSliceFolder = path.join(targetDir, fileName); // Create a new folder for the slice
-    const apiSliceIndexPath = path.join(apiSliceFolder, "index.ts"); // The index.ts file inside the new folder
+/**
+ * Renames the `api`/`Api`/`API` identifiers of the apiSlice template after
+ * the slice, e.g. `fetchApiData` to `fetchUsersData`
+ * @param {string} content - The template content
+ * @param {string} name - The slice name
+ * @returns {string} The renamed content
+ */
+export function renameApiSlice(content: string, name: string): string {
+  // Use a single regex with a callback to handle all cases
+  return content.replace(
+    /(fetch|create|reset|set|select)?(Api|api|API)(Data|State|Loading|Error)?/g,
+    (match, prefix, caseMatch, suffix) => {
+      let replacement = "";
 
-    const apiSliceTemplatePath = path.join(
-      getDefaultTemplateDirectory(projectType, componentType),
-      "apiSlice.tsx"
-    );
+      // Handle the casing of the core "Api" part
+      if (caseMatch === "api") {
+        replacement = name.toLowerCase(); // 'api' -> 'filename'
+      } else if (caseMatch === "Api") {
+        // Capitalize the first letter for PascalCase
+        replacement =
+          name.charAt(0).toUpperCase() + name.slice(1); // 'Api' -> 'Filename'
+      } else if (caseMatch === "API") {
+        replacement = name.toUpperCase(); // 'API' -> 'FILENAME'
+      } else {
+        // This case shouldn't be reached, but as a fallback, return the original
+        return match;
+      }
 
-    for (const file of baseFiles) {
-      let content = "";
+      // Reassemble the replaced string with its prefix and suffix
+      return (prefix || "") + replacement + (suffix || "");
+    }
+  );
+}
 
-      if (file === "apiSlice.tsx") {
-        await fs.ensureDir(apiSliceFolder); // Ensure the new folder exists
-        if (await fs.pathExists(apiSliceTemplatePath)) {
-          content = await fs.readFile(apiSliceTemplatePath, "utf-8");
-
-          // Use a single regex with a callback to handle all cases
-          content = content.replace(
-            /(fetch|create|reset|set|select)?(Api|api|API)(Data|State|Loading|Error)?/g,
-            (match, prefix, caseMatch, suffix) => {
-              let replacement = "";
-
-              // Handle the casing of the core "Api" part
-              if (caseMatch === "api") {
-                replacement = fileName.toLowerCase(); // 'api' -> 'filename'
-              } else if (caseMatch === "Api") {
-                // Capitalize the first letter for PascalCase
-                replacement =
-                  fileName.charAt(0).toUpperCase() + fileName.slice(1); // 'Api' -> 'Filename'
-              } else if (caseMatch === "API") {
-                replacement = fileName.toUpperCase(); // 'API' -> 'FILENAME'
-              } else {
-                // This case shouldn't be reached, but as a fallback, return the original
-                return match;
-              }
-
-              // Reassemble the replaced string with its prefix and suffix
-              return (prefix || "") + replacement + (suffix || "");
-            }
-          );
+/**
+ * Adds endpoints to `apiEndpoints.ts`, replacing entries with the same key in
+ * place, and creates the file if it does not exist
+ * @param {string} apiFilePath - Absolute path of `apiEndpoints.ts`
+ * @param {Record<string, ApiEndpointConfig>} endpoints - Endpoints by key
+ * @param {string[]} removedKeys - Endpoints to drop from the file
+ */
+export async function upsertApiEndpoints(
+  apiFilePath: string,
+  endpoints: Record<string, ApiEndpointConfig>,
+  removedKeys: string[] = []
+): Promise<void> {
+  let fileContent = removedKeys.reduce(
+    removeEndpointEntry,
+    (await fs.pathExists(apiFilePath)) ? await fs.readFile(apiFilePath, "utf-8") : ""
+  );
 
-          await fs.outputFile(apiSliceIndexPath, content); // Save the file as index.ts in the new folder
-          createdFiles.push(apiSliceIndexPath);
-        } else {
-          console.warn(`Template file not found: ${apiSliceTemplatePath}`);
-        }
-      } else if (file === "backendRequest.ts") {
-        const targetBackendRequestPath = path.join(targetDir, file);
-        const sourceBackendRequestPath = path.join(
-          getDefaultTemplateDirectory(projectType, componentType),
-          file
-        );
-        // Only copy if it doesn't already exist
-        if (!(await fs.pathExists(targetBackendRequestPath))) {
-          if (await fs.pathExists(sourceBackendRequestPath)) {
-            content = await fs.readFile(sourceBackendRequestPath, "utf-8");
-            await fs.outputFile(targetBackendRequestPath, content);
-            createdFiles.push(targetBackendRequestPath);
-            console.log(`Backend API Call added: ${targetBackendRequestPath}`);
-          } else {
-            console.warn(
-              `Template file not found: ${sourceBackendRequestPath}`
-            );
-          }
-        }
-      }
-    }
-    // --- End of new logic ---
+  for (const [endpointKey, apiConfig] of Object.entries(endpoints)) {
+    // Create the new API endpoint object
+    const newEndpoint = {
+      apiId: apiConfig.apiId,
+      withAuth: apiConfig.withAuth,
+      url: apiConfig.url,
+      method: apiConfig.method,
+    };
 
-    // Check if file exists
-    if (await fs.pathExists(apiFilePath)) {
-      fileContent = await fs.readFile(apiFilePath, "utf-8");
+    // Format the new endpoint as a string to be added to the file
+    const newEndpointString = `${endpointKey}: ${JSON.stringify(
+      newEndpoint,
+      null,
+      2
+    ).replace(/"([^"]+)":/g, "$1:")},`;
 
-      // Check if endpoint already exists
-      const endpointRegex = new RegExp(
-        `^\\s*${endpointKey}:\\s*{[^}]*},?\\s*$`,
-        "m"
-      );
-      if (endpointRegex.test(fileContent)) {
-        // Update existing endpoint
-        fileContent = fileContent.replace(endpointRegex, newEndpointString);
-      } else {
-        // Add new endpoint before the closing brace
-        const lastBraceIndex = fileContent.lastIndexOf("}");
-        if (lastBraceIndex !== -1) {
-          fileContent =
-            fileContent.slice(0, lastBraceIndex) +
-            (fileContent.trimEnd().endsWith("}") ? "\n" : "") +
-            newEndpointString +
-            "\n" +
-            fileContent.slice(lastBraceIndex);
-        } else {
-          // If no closing brace found, create a new file
-          fileContent = `export const ApiEndpoint: Record<string, any> = {\n${newEndpointString}\n};`;
-        }
-      }
+    // Check if endpoint already exists
+    const endpointRegex = getEndpointRegex(endpointKey);
+    const lastBraceIndex = fileContent.lastIndexOf("}");
+    if (endpointRegex.test(fileContent)) {
+      // Update existing endpoint
+      fileContent = fileContent.replace(endpointRegex, newEndpointString);
+    } else if (lastBraceIndex !== -1) {
+      // Add new endpoint before the closing brace
+      fileContent =
+        fileContent.slice(0, lastBraceIndex) +
+        (fileContent.trimEnd().endsWith("}") ? "\n" : "") +
+        newEndpointString +
+        "\n" +
+        fileContent.slice(lastBraceIndex);
     } else {
-      // Create new file with the endpoint
+      // If no closing brace found, create a new file
       fileContent = `export const ApiEndpoint: Record<string, any> = {\n${newEndpointString}\n};`;
     }
+  }
 
-    // Write the updated content back to the file
-    await fs.outputFile(apiFilePath, fileContent);
-    createdFiles.push(apiFilePath);
+  // Write the updated content back to the file
+  await trackFileChange(apiFilePath);
+  await fs.outputFile(apiFilePath, fileContent);
+}
 
-    return createdFiles;
-  } catch (error) {
-    throw new Error(`Failed to update API endpoints file: ${error}`);
+/**
+ * Reads the ids of the endpoints in `apiEndpoints.ts`, by key
+ * @param {string} apiFilePath - Absolute path of `apiEndpoints.ts`
+ * @returns {Promise<Record<string, number>>} The ids
+ */
+export async function readApiEndpointIds(apiFilePath: string): Promise<Record<string, number>> {
+  if (!(await fs.pathExists(apiFilePath))) {
+    return {};
   }
-}
\ No newline at end of file
+  const fileContent = await fs.readFile(apiFilePath, "utf-8");
+  return Object.fromEntries(
+    [...fileContent.matchAll(/^\s*(\w+):\s*{[^}]*?\bapiId:\s*(\d+)/gm)].map(([, key, id]) => [key, Number(id)])
+  );
+}
+
+/**
+ * Removes an API component's endpoints from `apiEndpoints.ts`: the one named
+ * after it and those its files call. The slice folder is deleted with the
+ * component; the shared request and store files are kept.
+ * @param {string} targetFolder - The folder holding `apiEndpoints.ts`
+ * @param {string} fileName - The API endpoint name
+ * @param {string[]} files - The component's files
+ * @returns {Promise<string | undefined>} The endpoints file path, if it was changed
+ */
+export async function removeApiEndpoint(
+  targetFolder: string,
+  fileName: string,
+  files: string[] = []
+): Promise<string | undefined> {
+  const apiFilePath = path.join(process.cwd(), targetFolder, "apiEndpoints.ts");
+  if (!(await fs.pathExists(apiFilePath))) {
+    return undefined;
+  }
+
+  const fileContent = await fs.readFile(apiFilePath, "utf-8");
+  // Endpoints other slices still call are kept
+  const otherFiles = (await listFilesRecursively(path.dirname(apiFilePath))).filter(
+    (file) => !files.includes(file)
+  );
+  const stillCalled = await findCalledEndpoints(otherFiles);
+  const keys = [
+    fileName.toUpperCase(),
+    ...(await findCalledEndpoints(files)).filter((key) => !stillCalled.includes(key)),
+  ];
+  const updatedContent = keys.reduce(removeEndpointEntry, fileContent);
+  if (updatedContent === fileContent) {
+    return undefined;
+  }
+
+  await fs.outputFile(apiFilePath, updatedContent);
+  return apiFilePath;
+}
+
+/**
+ * Reads the endpoint keys the given slice files pass to `Request`
+ * @param {string[]} files - Files to search, missing ones are skipped
+ * @returns {Promise<string[]>} The keys, without duplicates
+ */
+export async function findCalledEndpoints(files: string[]): Promise<string[]> {
+  const keys = new Set<string>();
+  for (const file of files) {
+    if (!file.endsWith(".ts") || !(await fs.pathExists(file))) {
+      continue;
+    }
+    const content = await fs.readFile(file, "utf-8");
+    for (const [, key] of content.matchAll(/endpointId:\s*'(\w+)'/g)) {
+      keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Renames an API component's endpoint key in `apiEndpoints.ts`
+ * @param {string} targetFolder - The folder holding `apiEndpoints.ts`
+ * @param {string} oldName - The current API endpoint name
+ * @param {string} newName - The new API endpoint name
+ * @returns {Promise<string | undefined>} The endpoints file path, if it was changed
+ */
+export async function renameApiEndpoint(
+  targetFolder: string,
+  oldName: string,
+  newName: string
+): Promise<string | undefined> {
+  const apiFilePath = path.join(process.cwd(), targetFolder, "apiEndpoints.ts");
+  if (!(await fs.pathExists(apiFilePath))) {
+    return undefined;
+  }
+
+  const fileContent = await fs.readFile(apiFilePath, "utf-8");
+  const endpointRegex = getEndpointRegex(oldName.toUpperCase());
+  if (!endpointRegex.test(fileContent)) {
+    return undefined;
+  }
+
+  await fs.outputFile(
+    apiFilePath,
+    fileContent.replace(endpointRegex, (entry) =>
+      entry.replace(`${oldName.toUpperCase()}:`, `${newName.toUpperCase()}:`)
+    )
+  );
+  return apiFilePath;
+}
+
+/**
+ * Lists the files under a folder, skipping node_modules
+ */
+async function listFilesRecursively(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && entry.name !== "node_modules") {
+      files.push(...(await listFilesRecursively(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Drops an endpoint entry with its line break, so no blank line is left behind
+ */
+function removeEndpointEntry(fileContent: string, endpointKey: string): string {
+  const entryLineRegex = new RegExp(`${getEndpointRegex(endpointKey).source}\\n?`, "m");
+  return fileContent.replace(entryLineRegex, "");
+}
+
+/**
+ * Matches an endpoint entry (`KEY: { ... },`) with its surrounding whitespace.
+ * Braces inside quoted values, e.g. `/pets/{petId}`, do not end the entry.
+ */
+function getEndpointRegex(endpointKey: string): RegExp {
+  return new RegExp(`^\\s*${endpointKey}:\\s*{(?:[^{}"]|"(?:[^"\\\\]|\\\\.)*")*},?\\s*$`, "m");
+}
@@ -0,0 +1,448 @@
+import path from "path";
+import fs from "fs-extra";
+import {
+  BlockchainFramework,
+  ComponentType,
+  ProjectType,
+} from "../../../../bin/types/enums";
+import { readConfig } from "../../../../bin/utils/configLogger";
+import { trackFileChange } from "../../../../bin/utils/history";
+import { getBlockchainFramework } from "../../../../bin/utils/ProjectScanner";
+import { promptAnswers } from "../../../../bin/utils/prompt";
+
+/**
+ * A parameter or return value in a contract ABI
+ */
+interface AbiParameter {
+  name: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+/**
+ * An entry of a contract ABI
+ */
+interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: "pure" | "view" | "nonpayable" | "payable";
+}
+
+/**
+ * A compiled contract read from the blockchain project's build output
+ */
+export interface ContractArtifact {
+  contractName: string;
+  /** Source file relative to the blockchain project, e.g. src/contracts/Token/Token.sol */
+  sourceName: string;
+  abi: AbiItem[];
+  artifactPath: string;
+}
+
+/**
+ * Sources whose contracts are never wrapped: dependencies, tests and scripts
+ */
+const IGNORED_SOURCE_PATTERN = /^(@|lib\/|node_modules\/|hardhat\/|test\/|script\/)|\.(t|s)\.sol$/;
+
+/**
+ * Generates a typed viem client and wagmi React hooks for a compiled contract
+ * of the blockchain project into the frontend `apis` folder
+ * @param {ProjectType} projectType - The project type (frontend)
+ * @param {ComponentType} componentType - The component type (contract-client)
+ * @param {string} targetFolder - The target folder path
+ * @param {string} fileName - The client name, matched against contract names
+ * @returns {Promise<string[]>} Array of created/updated file paths
+ */
+export async function handleContractClientComponentType(
+  projectType: ProjectType,
+  componentType: ComponentType,
+  targetFolder: string,
+  fileName: string
+): Promise<string[]> {
+  const config = await readConfig();
+  const blockchainProject = config.blockchain;
+  if (!blockchainProject) {
+    throw new Error(
+      `No blockchain project found in skaya.config.json. Run "skaya init ${ProjectType.BLOCKCHAIN}" first.`
+    );
+  }
+
+  const blockchainRoot = path.join(process.cwd(), blockchainProject.name);
+  const framework = getBlockchainFramework(blockchainProject.template);
+  const artifacts = await findContractArtifacts(blockchainRoot, framework);
+  if (artifacts.length === 0) {
+    throw new Error(
+      `No compiled contracts found in ${blockchainRoot}. Run "${
+        framework === BlockchainFramework.FOUNDRY ? "forge build" : "npx hardhat compile"
+      }" in the blockchain project first.`
+    );
+  }
+
+  const choices = artifacts.map((artifact) => ({
+    name: `${artifact.contractName} (${artifact.sourceName})`,
+    value: getArtifactId(artifact, artifacts),
+  }));
+  const matching = artifacts.find(
+    (artifact) => artifact.contractName.toLowerCase() === fileName.toLowerCase()
+  );
+  const { contractName } = await promptAnswers<{ contractName: string }>([
+    {
+      type: "list",
+      name: "contractName",
+      message: `Select the contract to generate ${componentType} ${fileName} from:`,
+      choices,
+      default: matching ? getArtifactId(matching, artifacts) : undefined,
+    },
+  ]);
+  const artifact = artifacts.find((item) => getArtifactId(item, artifacts) === contractName)!;
+
+  const clientFolder = path.join(process.cwd(), targetFolder, fileName);
+  const clientPath = path.join(clientFolder, `${fileName}.ts`);
+  const addressesPath = path.join(clientFolder, `${fileName}.addresses.ts`);
+  const hooksPath = path.join(clientFolder, `use${fileName}.ts`);
+
+  await trackFileChange(clientPath);
+  await fs.outputFile(clientPath, renderContractClient(fileName, artifact, blockchainRoot));
+  await trackFileChange(hooksPath);
+  await fs.outputFile(hooksPath, renderContractHooks(fileName, artifact));
+
+  // Addresses are filled in by hand after deploying, so they survive regeneration
+  if (!(await fs.pathExists(addressesPath))) {
+    const deployments =
+      framework === BlockchainFramework.FOUNDRY
+        ? await findFoundryDeployments(blockchainRoot, artifact.contractName)
+        : {};
+    await trackFileChange(addressesPath);
+    await fs.outputFile(addressesPath, renderContractAddresses(fileName, deployments));
+  }
+
+  await warnAboutMissingDependencies(config.frontend?.name);
+
+  return [clientPath, addressesPath, hooksPath];
+}
+
+/**
+ * Reads the ABIs of contracts compiled by Hardhat (`artifacts/`) or Foundry
+ * (`out/`), skipping dependencies, tests, scripts and contracts without an ABI
+ * @param {string} blockchainRoot - Absolute path of the blockchain project
+ * @param {BlockchainFramework} framework - Toolchain of the project
+ * @returns {Promise<ContractArtifact[]>} Artifacts sorted by contract name
+ */
+export async function findContractArtifacts(
+  blockchainRoot: string,
+  framework: BlockchainFramework
+): Promise<ContractArtifact[]> {
+  const outputDir = path.join(
+    blockchainRoot,
+    framework === BlockchainFramework.FOUNDRY
+      ? await getFoundryOutputDir(blockchainRoot)
+      : "artifacts"
+  );
+  if (!(await fs.pathExists(outputDir))) {
+    return [];
+  }
+
+  const artifacts: ContractArtifact[] = [];
+  const walk = async (dir: string) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "build-info") {
+          await walk(entryPath);
+        }
+        continue;
+      }
+      if (!entry.name.endsWith(".json") || entry.name.endsWith(".dbg.json")) {
+        continue;
+      }
+
+      const json = await fs.readJson(entryPath).catch(() => undefined);
+      if (!Array.isArray(json?.abi) || json.abi.length === 0) {
+        continue;
+      }
+
+      const sourceName: string =
+        json.sourceName ??
+        json.ast?.absolutePath ??
+        Object.keys(json.metadata?.settings?.compilationTarget ?? {})[0] ??
+        path.relative(outputDir, path.dirname(entryPath));
+      if (IGNORED_SOURCE_PATTERN.test(sourceName)) {
+        continue;
+      }
+
+      artifacts.push({
+        contractName: json.contractName ?? path.basename(entry.name, ".json"),
+        sourceName,
+        abi: json.abi,
+        artifactPath: entryPath,
+      });
+    }
+  };
+  await walk(outputDir);
+
+  return artifacts.sort((a, b) => a.contractName.localeCompare(b.contractName));
+}
+
+/**
+ * Renders the client module: the ABI as a const and a viem contract factory
+ * @param {string} name - The client name
+ * @param {ContractArtifact} artifact - The compiled contract
+ * @param {string} blockchainRoot - Used to show where the ABI came from
+ * @returns {string} The module source
+ */
+export function renderContractClient(
+  name: string,
+  artifact: ContractArtifact,
+  blockchainRoot: string
+): string {
+  const abiName = `${lowerFirst(name)}Abi`;
+  const artifactPath = path
+    .relative(blockchainRoot, artifact.artifactPath)
+    .split(path.sep)
+    .join("/");
+
+  return `// Generated by skaya from ${artifact.contractName} (${artifactPath}).
+// Re-run \`skaya create contract-client\` after recompiling; edits to this file are overwritten.
+import { getContract, type Address, type Client } from "viem";
+
+export { ${lowerFirst(name)}Address } from "./${name}.addresses";
+
+export const ${abiName} = ${JSON.stringify(artifact.abi, null, 2)} as const;
+
+/**
+ * Typed ${artifact.contractName} instance with \`read\`, \`write\` and \`watchEvent\` methods
+ */
+export function get${name}Contract(address: Address, client: Client) {
+  return getContract({ abi: ${abiName}, address, client });
+}
+`;
+}
+
+/**
+ * Renders wagmi hooks: one per read function, write function and event
+ * @param {string} name - The client name
+ * @param {ContractArtifact} artifact - The compiled contract
+ * @returns {string} The module source
+ */
+export function renderContractHooks(name: string, artifact: ContractArtifact): string {
+  const abiName = `${lowerFirst(name)}Abi`;
+  const addressName = `${lowerFirst(name)}Address`;
+  const functions = uniqueByName(artifact.abi.filter((item) => item.type === "function"));
+  const events = uniqueByName(artifact.abi.filter((item) => item.type === "event"));
+  const reads = functions.filter((fn) => fn.stateMutability === "view" || fn.stateMutability === "pure");
+  const writes = functions.filter((fn) => !reads.includes(fn));
+
+  const hooks = [
+    ...reads.map((fn) => {
+      const params = fn.inputs?.length
+        ? `\n  args: ContractFunctionArgs<typeof ${abiName}, "pure" | "view", "${fn.name}">,\n  options: ContractOptions = {}\n`
+        : "options: ContractOptions = {}";
+      return `/**
+ * Reads \`${formatSignature(fn)}\`
+ */
+export function use${name}${upperFirst(fn.name!)}(${params}) {
+  const address = use${name}Address(options.address);
+  return useReadContract({
+    abi: ${abiName},
+    address,
+    functionName: "${fn.name}",${fn.inputs?.length ? "\n    args," : ""}
+    query: { enabled: !!address },
+  });
+}`;
+    }),
+    ...writes.map((fn) => {
+      const params = [
+        ...(fn.inputs?.length
+          ? [`args: ContractFunctionArgs<typeof ${abiName}, "nonpayable" | "payable", "${fn.name}">`]
+          : []),
+        ...(fn.stateMutability === "payable" ? ["value?: bigint"] : []),
+      ];
+      const paramNames = params.map((param) => param.split(/\??:/)[0]).join(", ");
+      return `/**
+ * Sends \`${formatSignature(fn)}\`
+ */
+export function use${name}${upperFirst(fn.name!)}(options: ContractOptions = {}) {
+  const address = use${name}Address(options.address);
+  const { writeContract, writeContractAsync, ...mutation } = useWriteContract();
+  const request = (${params.join(", ")}) => ({
+    abi: ${abiName},
+    address: requireAddress(address),
+    functionName: "${fn.name}",${fn.inputs?.length ? "\n    args," : ""}${fn.stateMutability === "payable" ? "\n    value," : ""}
+  } as const);
+
+  return {
+    ...mutation,
+    write: (${params.join(", ")}) => writeContract(request(${paramNames})),
+    writeAsync: (${params.join(", ")}) => writeContractAsync(request(${paramNames})),
+  };
+}`;
+    }),
+    ...events.map((event) => `/**
+ * Watches \`${formatSignature(event)}\` events
+ */
+export function use${name}${upperFirst(event.name!)}Event(
+  onLogs: NonNullable<UseWatchContractEventParameters<typeof ${abiName}, "${event.name}">["onLogs"]>,
+  options: ContractOptions = {}
+) {
+  const address = use${name}Address(options.address);
+  useWatchContractEvent({
+    abi: ${abiName},
+    address,
+    eventName: "${event.name}",
+    onLogs,
+    enabled: !!address,
+  });
+}`),
+  ];
+
+  const viemTypes = ["type Address", ...(functions.some((fn) => fn.inputs?.length) ? ["type ContractFunctionArgs"] : [])];
+  const wagmiImports = [
+    "useChainId",
+    ...(reads.length ? ["useReadContract"] : []),
+    ...(events.length ? ["useWatchContractEvent"] : []),
+    ...(writes.length ? ["useWriteContract"] : []),
+    ...(events.length ? ["type UseWatchContractEventParameters"] : []),
+  ];
+
+  return `// Generated by skaya from ${artifact.contractName}. Edits to this file are overwritten.
+import { ${viemTypes.join(", ")} } from "viem";
+import {
+${wagmiImports.map((item) => `  ${item},`).join("\n")}
+} from "wagmi";
+import { ${abiName}, ${addressName} } from "./${name}";
+
+type ContractOptions = {
+  /** Overrides the address of the connected chain from ${name}.addresses.ts */
+  address?: Address;
+};
+
+function use${name}Address(address?: Address): Address | undefined {
+  const chainId = useChainId();
+  return address ?? ${addressName}[chainId];
+}
+${writes.length ? `
+function requireAddress(address: Address | undefined): Address {
+  if (!address) {
+    throw new Error("${artifact.contractName} has no address for the connected chain in ${name}.addresses.ts");
+  }
+  return address;
+}
+` : ""}
+${hooks.join("\n\n")}
+`;
+}
+
+/**
+ * Renders the per-chain address map, created once and then edited by hand
+ * @param {string} name - The client name
+ * @param {Record<number, string>} deployments - Known addresses by chain id
+ * @returns {string} The module source
+ */
+export function renderContractAddresses(name: string, deployments: Record<number, string>): string {
+  const entries = Object.entries(deployments)
+    .map(([chainId, address]) => `  ${chainId}: "${address}",\n`)
+    .join("");
+
+  return `import type { Address } from "viem";
+
+/**
+ * Deployed ${name} addresses by chain id. Add an entry after each deployment;
+ * regenerating the client keeps this file.
+ */
+export const ${lowerFirst(name)}Address: Partial<Record<number, Address>> = {${entries ? `\n${entries}` : ""}};
+`;
+}
+
+/**
+ * Reads the latest address of a contract per chain from Foundry's
+ * `broadcast/<script>/<chainId>/run-latest.json` files
+ */
+async function findFoundryDeployments(
+  blockchainRoot: string,
+  contractName: string
+): Promise<Record<number, string>> {
+  const broadcastDir = path.join(blockchainRoot, "broadcast");
+  const deployments: Record<number, string> = {};
+  if (!(await fs.pathExists(broadcastDir))) {
+    return deployments;
+  }
+
+  for (const script of await fs.readdir(broadcastDir)) {
+    const scriptDir = path.join(broadcastDir, script);
+    if (!(await fs.stat(scriptDir)).isDirectory()) {
+      continue;
+    }
+    for (const chainId of await fs.readdir(scriptDir)) {
+      const run = await fs
+        .readJson(path.join(scriptDir, chainId, "run-latest.json"))
+        .catch(() => undefined);
+      const created = (run?.transactions ?? []).filter(
+        (tx: any) => tx.transactionType === "CREATE" && tx.contractName === contractName
+      );
+      if (created.length > 0 && /^\d+$/.test(chainId)) {
+        deployments[Number(chainId)] = created[created.length - 1].contractAddress;
+      }
+    }
+  }
+  return deployments;
+}
+
+/**
+ * Reads `out` from foundry.toml, defaulting to Foundry's `out`
+ */
+async function getFoundryOutputDir(blockchainRoot: string): Promise<string> {
+  const foundryToml = await fs
+    .readFile(path.join(blockchainRoot, "foundry.toml"), "utf-8")
+    .catch(() => "");
+  return foundryToml.match(/^\s*out\s*=\s*["']([^"']+)["']/m)?.[1] ?? "out";
+}
+
+async function warnAboutMissingDependencies(frontendName?: string): Promise<void> {
+  const packageJson = await fs
+    .readJson(path.join(process.cwd(), frontendName || "", "package.json"))
+    .catch(() => undefined);
+  const installed = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const missing = ["viem", "wagmi", "@tanstack/react-query"].filter((dep) => !installed[dep]);
+
+  if (missing.length > 0) {
+    console.warn(`⚠️  Contract clients need ${missing.join(", ")}: npm install ${missing.join(" ")}`);
+  }
+}
+
+/**
+ * Contract name, or `source:name` when several sources define the same name
+ */
+function getArtifactId(artifact: ContractArtifact, artifacts: ContractArtifact[]): string {
+  const duplicated = artifacts.some(
+    (other) => other !== artifact && other.contractName === artifact.contractName
+  );
+  return duplicated ? `${artifact.sourceName}:${artifact.contractName}` : artifact.contractName;
+}
+
+/**
+ * Keeps the first entry per name; overloads share one hook, whose args
+ * accept every overload
+ */
+function uniqueByName(items: AbiItem[]): AbiItem[] {
+  return items.filter(
+    (item, index) => items.findIndex((other) => other.name === item.name) === index
+  );
+}
+
+function formatSignature(item: AbiItem): string {
+  const inputs = (item.inputs ?? [])
+    .map((input) => (input.name ? `${input.type} ${input.name}` : input.type))
+    .join(", ");
+  return `${item.name}(${inputs})`;
+}
+
+function lowerFirst(name: string): string {
+  return `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+}
+
+function upperFirst(name: string): string {
+  return `${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
@@ -0,0 +1,567 @@
+import path from "path";
+import fs from "fs-extra";
+import YAML from "yaml";
+import { ComponentType, ProjectType } from "../../../../bin/types/enums";
+import { ApiEndpointConfig } from "../../../../bin/types/interfaces";
+import { trackFileChange } from "../../../../bin/utils/history";
+import { getDefaultTemplateDirectory } from "../../../../bin/utils/ProjectScanner";
+import {
+  copyBackendRequest,
+  ensureReduxStore,
+  findCalledEndpoints,
+  readApiEndpointIds,
+  renameApiSlice,
+  upsertApiEndpoints,
+} from "./Api";
+
+/**
+ * A JSON schema as OpenAPI documents use it
+ */
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+}
+
+interface MediaTypes {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, { schema?: SchemaObject }>;
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: MediaTypes;
+  responses?: Record<string, MediaTypes>;
+  security?: Record<string, string[]>[];
+  servers?: ServerObject[];
+}
+
+interface ServerObject {
+  url: string;
+  variables?: Record<string, { default: string }>;
+}
+
+/**
+ * The parts of an OpenAPI 3 document endpoints and types are generated from
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string };
+  servers?: ServerObject[];
+  paths?: Record<string, Record<string, unknown> & { parameters?: ParameterObject[]; servers?: ServerObject[] }>;
+  components?: { schemas?: Record<string, SchemaObject> };
+  security?: Record<string, string[]>[];
+}
+
+/**
+ * An operation of the document, named for the endpoint, thunk and types generated for it
+ */
+export interface OpenApiOperation {
+  /** Key in `apiEndpoints.ts`, e.g. SHOW_PET_BY_ID */
+  endpointKey: string;
+  /** Name of the thunk, e.g. showPetById */
+  name: string;
+  /** Prefix of the request and response types, e.g. ShowPetById */
+  typeName: string;
+  /** Slice the operation belongs to: its first tag, or the operation itself */
+  slice: string;
+  method: ApiEndpointConfig["method"];
+  path: string;
+  url: string;
+  withAuth: boolean;
+  summary?: string;
+  pathParams: ParameterObject[];
+  queryParams: ParameterObject[];
+  requestBody?: { type: string; required: boolean };
+  responseType: string;
+}
+
+/**
+ * HTTP methods `apiEndpoints.ts` entries support, in the order operations are generated
+ */
+const SUPPORTED_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+/**
+ * Generates `apiEndpoints.ts` entries, typed request and response interfaces
+ * and one Redux slice per tag from a local OpenAPI 3 document. Running it
+ * again updates the entries in place and removes the slices and endpoints of
+ * operations no longer in the document.
+ * @param {ProjectType} projectType - The project type (frontend)
+ * @param {ComponentType} componentType - The component type (api)
+ * @param {string} targetFolder - The folder holding `apiEndpoints.ts`
+ * @param {string} fileName - The component name, the folder the types and slices are written to
+ * @param {string} specPath - The OpenAPI document, YAML or JSON
+ * @returns {Promise<string[]>} Array of created/updated file paths
+ */
+export async function handleOpenApiComponentType(
+  projectType: ProjectType,
+  componentType: ComponentType,
+  targetFolder: string,
+  fileName: string,
+  specPath: string
+): Promise<string[]> {
+  const document = await readOpenApiDocument(specPath);
+  const operations = collectOperations(document);
+  if (operations.length === 0) {
+    throw new Error(`${specPath} has no GET, POST, PUT, PATCH or DELETE operations to generate.`);
+  }
+
+  const targetDir = path.join(process.cwd(), targetFolder);
+  const componentFolder = path.join(targetDir, fileName);
+  const apiFilePath = path.join(targetDir, "apiEndpoints.ts");
+  const templatePath = path.join(getDefaultTemplateDirectory(projectType, componentType), "apiSlice.tsx");
+  const template = await fs.readFile(templatePath, "utf-8");
+
+  // Slices of the previous run, to drop the ones whose operations are gone
+  const previousSlices = await findSliceFiles(componentFolder);
+  const previousKeys = await findCalledEndpoints(previousSlices);
+
+  const createdFiles = await ensureReduxStore(projectType, componentType);
+  createdFiles.push(...(await copyBackendRequest(projectType, componentType, targetDir)));
+  await warnAboutOutdatedRequest(path.join(targetDir, "backendRequest.ts"), operations);
+
+  const typesPath = path.join(componentFolder, "types.ts");
+  await trackFileChange(typesPath);
+  await fs.outputFile(typesPath, renderOpenApiTypes(document, operations, path.basename(specPath)));
+  createdFiles.push(typesPath);
+
+  const slices = new Map<string, OpenApiOperation[]>();
+  for (const operation of operations) {
+    slices.set(operation.slice, [...(slices.get(operation.slice) || []), operation]);
+  }
+  for (const [slice, sliceOperations] of slices) {
+    const slicePath = path.join(componentFolder, slice, "index.ts");
+    await trackFileChange(slicePath);
+    await fs.outputFile(slicePath, renderOpenApiSlice(template, slice, sliceOperations));
+    createdFiles.push(slicePath);
+  }
+
+  for (const file of previousSlices.filter((slicePath) => !createdFiles.includes(slicePath))) {
+    await trackFileChange(file);
+    await fs.remove(file);
+    if ((await fs.readdir(path.dirname(file))).length === 0) {
+      await fs.remove(path.dirname(file));
+    }
+    console.log(`🗑️  Deleted ${file}, its operations are no longer in ${specPath}`);
+  }
+
+  // Known endpoints keep their ids, new ones are numbered after the highest
+  const ids = await readApiEndpointIds(apiFilePath);
+  let nextId = Math.max(0, ...Object.values(ids)) + 1;
+  const endpoints: Record<string, ApiEndpointConfig> = {};
+  for (const operation of operations) {
+    endpoints[operation.endpointKey] = {
+      apiId: ids[operation.endpointKey] ?? nextId++,
+      withAuth: operation.withAuth,
+      url: operation.url,
+      method: operation.method,
+    };
+  }
+  const removedKeys = previousKeys.filter((key) => !(key in endpoints));
+  await upsertApiEndpoints(apiFilePath, endpoints, removedKeys);
+  createdFiles.push(apiFilePath);
+
+  return createdFiles;
+}
+
+/**
+ * Reads an OpenAPI 3 document from a YAML or JSON file
+ * @param {string} specPath - Path relative to the current directory
+ * @returns {Promise<OpenApiDocument>} The document
+ * @throws Error if the file is missing, does not parse or is not OpenAPI 3
+ */
+export async function readOpenApiDocument(specPath: string): Promise<OpenApiDocument> {
+  const fullPath = path.resolve(process.cwd(), specPath);
+  if (!(await fs.pathExists(fullPath))) {
+    throw new Error(`OpenAPI document not found: ${fullPath}`);
+  }
+
+  let document: any;
+  try {
+    // YAML is a superset of JSON, so one parser reads both
+    document = YAML.parse(await fs.readFile(fullPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`${fullPath} is not valid YAML or JSON: ${(error as Error).message}`);
+  }
+  if (!document || typeof document !== "object" || !String(document.openapi || "").startsWith("3.")) {
+    throw new Error(
+      `${fullPath} is not an OpenAPI 3 document${document?.swagger ? ` (Swagger ${document.swagger} is not supported)` : ""}.`
+    );
+  }
+  return document;
+}
+
+/**
+ * Lists the operations of the document with supported methods, in document order
+ * @param {OpenApiDocument} document - The document
+ * @returns {OpenApiOperation[]} The operations
+ */
+export function collectOperations(document: OpenApiDocument): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+  const skipped: string[] = [];
+
+  for (const [apiPath, pathItem] of Object.entries(document.paths || {})) {
+    for (const [method, value] of Object.entries(pathItem)) {
+      if (method === "parameters" || method === "servers" || !value || typeof value !== "object") {
+        continue;
+      }
+      if (!SUPPORTED_METHODS.includes(method as (typeof SUPPORTED_METHODS)[number])) {
+        skipped.push(`${method.toUpperCase()} ${apiPath}`);
+        continue;
+      }
+      const operation = value as OperationObject;
+
+      // Operation parameters override the path's ones with the same name and location
+      const parameters = new Map<string, ParameterObject>();
+      for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+        const resolved = resolveRef<ParameterObject>(document, parameter);
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+
+      const name = toCamelCase(operation.operationId || `${method} ${apiPath}`);
+      const server = (operation.servers || pathItem.servers || document.servers || [])[0];
+      const security = operation.security || document.security || [];
+      const requestBody = operation.requestBody && resolveRef<MediaTypes>(document, operation.requestBody);
+
+      operations.push({
+        endpointKey: toConstantCase(name),
+        name,
+        typeName: toPascalCase(name),
+        slice: toPascalCase(operation.tags?.[0] || name),
+        method: method.toUpperCase() as ApiEndpointConfig["method"],
+        path: apiPath,
+        url: `${server ? getServerUrl(server).replace(/\/$/, "") : ""}${apiPath}`,
+        withAuth: security.some((requirement) => Object.keys(requirement).length > 0),
+        summary: operation.summary,
+        pathParams: [...parameters.values()].filter((parameter) => parameter.in === "path"),
+        queryParams: [...parameters.values()].filter((parameter) => parameter.in === "query"),
+        ...(requestBody?.content && {
+          requestBody: { type: getContentType(requestBody), required: !!requestBody.required },
+        }),
+        responseType: getResponseType(document, operation),
+      });
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`⚠️  Skipped operations with methods apiEndpoints.ts does not support: ${skipped.join(", ")}`);
+  }
+  return operations;
+}
+
+/**
+ * Renders the schemas of the document as TypeScript types, followed by the
+ * request and response types of each operation
+ * @param {OpenApiDocument} document - The document
+ * @param {OpenApiOperation[]} operations - Its operations
+ * @param {string} source - File name of the document, for the header
+ * @returns {string} The types file content
+ */
+export function renderOpenApiTypes(
+  document: OpenApiDocument,
+  operations: OpenApiOperation[],
+  source: string
+): string {
+  const declarations = Object.entries(document.components?.schemas || {}).map(([name, schema]) => {
+    const declaration =
+      schema.properties && !schema.allOf && !schema.oneOf && !schema.anyOf
+        ? `export interface ${toPascalCase(name)} ${toTypeScript(schema, "")}`
+        : `export type ${toPascalCase(name)} = ${toTypeScript(schema, "")};`;
+    return `${renderDocComment(schema.description, "")}${declaration}`;
+  });
+
+  for (const operation of operations) {
+    const members = [
+      operation.pathParams.length > 0 && `  path: ${renderParameters(operation.pathParams)};`,
+      operation.queryParams.length > 0 &&
+        `  query${operation.queryParams.some((parameter) => parameter.required) ? "" : "?"}: ${renderParameters(
+          operation.queryParams
+        )};`,
+      operation.requestBody && `  body${operation.requestBody.required ? "" : "?"}: ${operation.requestBody.type};`,
+    ].filter(Boolean);
+    const title = `${operation.method} ${operation.path}${operation.summary ? `: ${operation.summary}` : ""}`;
+    declarations.push(
+      [
+        renderDocComment(title, ""),
+        members.length > 0
+          ? `export interface ${operation.typeName}Request {\n${members.join("\n")}\n}\n`
+          : `export type ${operation.typeName}Request = void;\n`,
+        `export type ${operation.typeName}Response = ${operation.responseType};`,
+      ].join("")
+    );
+  }
+
+  return `// Generated by skaya from ${source}. Run "skaya create api --from-openapi" again after changing it.\n\n${declarations.join(
+    "\n\n"
+  )}\n`;
+}
+
+/**
+ * Builds a slice from the apiSlice template with a thunk per operation in
+ * place of the template's example thunks
+ * @param {string} template - The apiSlice.tsx template
+ * @param {string} slice - The slice name
+ * @param {OpenApiOperation[]} operations - The operations of the slice
+ * @returns {string} The slice file content
+ * @throws Error if the template has no thunks to replace
+ */
+export function renderOpenApiSlice(template: string, slice: string, operations: OpenApiOperation[]): string {
+  // Renamed first: the generated thunk names must not be renamed with it
+  let content = renameApiSlice(template, slice);
+  const thunksStart = content.search(/^export const \w+ = createAsyncThunk\(/m);
+  const thunksEnd = content.search(/^const \w+ = createSlice\(/m);
+  const matchers = /^([ \t]*)addRequestMatchers\(\w+\);\n(?:[ \t]*addRequestMatchers\(\w+\);\n)*/m;
+  if (thunksStart === -1 || thunksEnd < thunksStart || !matchers.test(content)) {
+    throw new Error("The apiSlice.tsx template has no createAsyncThunk thunks to replace.");
+  }
+
+  const typeNames = operations.flatMap((operation) => [`${operation.typeName}Request`, `${operation.typeName}Response`]);
+  content =
+    content.slice(0, thunksStart) +
+    operations.map((operation) => renderThunk(slice, operation)).join("\n") +
+    "\n" +
+    content.slice(thunksEnd);
+  content = content.replace(matchers, (_, indent: string) =>
+    operations.map((operation) => `${indent}addRequestMatchers(${operation.name});\n`).join("")
+  );
+
+  // Slices sit one folder deeper than the template expects, next to the types
+  return content.replace(
+    /^import Request from '\.\.\/backendRequest';(.*)$/m,
+    `import Request from '../../backendRequest';$1\nimport type { ${typeNames.join(", ")} } from '../types';`
+  );
+}
+
+function renderThunk(slice: string, operation: OpenApiOperation): string {
+  const requestFields = [
+    `        endpointId: '${operation.endpointKey}', // Must match your ApiEndpoint key`,
+    operation.pathParams.length > 0 && "        pathParams: params.path,",
+    operation.queryParams.length > 0 && "        query: params.query,",
+    operation.requestBody && "        data: params.body,",
+  ].filter(Boolean);
+
+  // Operations without parameters take none; an unused `params` fails noUnusedParameters
+  const argument = requestFields.length > 1 ? "params" : "_params";
+
+  return `export const ${operation.name} = createAsyncThunk(
+  '${slice.toLowerCase()}/${operation.name}',
+  async (${argument}: ${operation.typeName}Request, { rejectWithValue }:{rejectWithValue:any}) => {
+    try {
+      const response: ${operation.typeName}Response = await Request({
+${requestFields.join("\n")}
+      });
+      return response;
+    } catch (error: any) {
+      return rejectWithValue(error.message || '${operation.method} ${operation.path} failed');
+    }
+  }
+);
+`;
+}
+
+/**
+ * Lists the slice files a previous run wrote into the component folder
+ */
+async function findSliceFiles(componentFolder: string): Promise<string[]> {
+  if (!(await fs.pathExists(componentFolder))) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of await fs.readdir(componentFolder, { withFileTypes: true })) {
+    const slicePath = path.join(componentFolder, entry.name, "index.ts");
+    if (entry.isDirectory() && (await fs.pathExists(slicePath))) {
+      files.push(slicePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Warns when the project's `backendRequest.ts` predates path and query
+ * parameters, which the generated slices pass to it
+ */
+async function warnAboutOutdatedRequest(requestPath: string, operations: OpenApiOperation[]): Promise<void> {
+  const usesParameters = operations.some(
+    (operation) => operation.pathParams.length > 0 || operation.queryParams.length > 0
+  );
+  if (usesParameters && !(await fs.readFile(requestPath, "utf-8").catch(() => "")).includes("pathParams")) {
+    console.warn(
+      `⚠️  ${requestPath} ignores path and query parameters. Delete it and run the command again to get the current version.`
+    );
+  }
+}
+
+/**
+ * Converts a schema to a TypeScript type, inlining objects
+ * @param {SchemaObject} schema - The schema
+ * @param {string} indent - Indentation of the line the type starts on
+ * @returns {string} The type
+ */
+function toTypeScript(schema: SchemaObject | undefined, indent: string): string {
+  if (!schema) {
+    return "unknown";
+  }
+  if (schema.$ref) {
+    const name = schema.$ref.match(/^#\/components\/schemas\/(.+)$/)?.[1];
+    return name ? toPascalCase(name) : "unknown";
+  }
+
+  let type: string;
+  if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf || schema.anyOf)!.map((option) => toTypeScript(option, indent)).join(" | ");
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part) => toTypeScript(part, indent)).join(" & ");
+  } else {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    type = types.map((single) => toSingleType(schema, single, indent)).join(" | ");
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function toSingleType(schema: SchemaObject, type: string | undefined, indent: string): string {
+  switch (type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const items = toTypeScript(schema.items, indent);
+      return /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+    }
+  }
+  if (schema.properties) {
+    const inner = `${indent}  `;
+    const members = Object.entries(schema.properties).map(([name, property]) => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+      const optional = schema.required?.includes(name) ? "" : "?";
+      return `${renderDocComment(property.description, inner)}${inner}${key}${optional}: ${toTypeScript(property, inner)};`;
+    });
+    return `{\n${members.join("\n")}\n${indent}}`;
+  }
+  if (type === "object" || schema.additionalProperties) {
+    const values = typeof schema.additionalProperties === "object" ? toTypeScript(schema.additionalProperties, indent) : "unknown";
+    return `Record<string, ${values}>`;
+  }
+  return "unknown";
+}
+
+function renderParameters(parameters: ParameterObject[]): string {
+  const members = parameters.map((parameter) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(parameter.name) ? parameter.name : JSON.stringify(parameter.name);
+    return `${key}${parameter.required ? "" : "?"}: ${toTypeScript(parameter.schema, "    ")}`;
+  });
+  return `{ ${members.join("; ")} }`;
+}
+
+function renderDocComment(text: string | undefined, indent: string): string {
+  const line = text?.trim().split("\n")[0].replace(/\*\//g, "*\\/");
+  return line ? `${indent}/** ${line} */\n` : "";
+}
+
+/**
+ * The type of a request body or response content, preferring JSON. Form
+ * bodies are sent as FormData.
+ */
+function getContentType(media: MediaTypes): string {
+  const content = media.content || {};
+  const json = Object.keys(content).find((mediaType) => /json/.test(mediaType));
+  if (json) {
+    return toTypeScript(content[json].schema, "");
+  }
+  if (content["multipart/form-data"] || content["application/x-www-form-urlencoded"]) {
+    return "FormData";
+  }
+  const [first] = Object.values(content);
+  return first ? toTypeScript(first.schema, "") : "void";
+}
+
+/**
+ * The type of the first success response, `void` if it has no content
+ */
+function getResponseType(document: OpenApiDocument, operation: OperationObject): string {
+  const responses = operation.responses || {};
+  const status = Object.keys(responses).sort().find((code) => /^2(\d\d|XX)$/.test(code));
+  if (!status) {
+    return "unknown";
+  }
+  return getContentType(resolveRef<MediaTypes>(document, responses[status]));
+}
+
+function getServerUrl(server: ServerObject): string {
+  return server.url.replace(/{(\w+)}/g, (match, name: string) => server.variables?.[name]?.default ?? match);
+}
+
+/**
+ * Follows a local `$ref` (e.g. #/components/parameters/Limit) to the object it points to
+ */
+function resolveRef<T extends { $ref?: string }>(document: OpenApiDocument, value: T): T {
+  let resolved: any = value;
+  // Refs may point to refs; a cycle stops at the depth limit
+  for (let depth = 0; resolved?.$ref && depth < 10; depth++) {
+    const ref: string = resolved.$ref;
+    if (!ref.startsWith("#/")) {
+      throw new Error(`External $ref "${ref}" is not supported, bundle the document first.`);
+    }
+    resolved = ref
+      .slice(2)
+      .split("/")
+      .reduce((node: any, segment) => node?.[segment.replace(/~1/g, "/").replace(/~0/g, "~")], document);
+    if (!resolved) {
+      throw new Error(`$ref "${ref}" points to nothing in the document.`);
+    }
+  }
+  return resolved;
+}
+
+function toWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toPascalCase(value: string): string {
+  const name = toWords(value)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function toCamelCase(value: string): string {
+  const name = toPascalCase(value);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function toConstantCase(value: string): string {
+  return toWords(value).join("_").toUpperCase();
+}
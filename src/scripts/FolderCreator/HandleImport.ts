@@ -1,8 +1,8 @@
-import inquirer from "inquirer";
 import {
   loadComponentConfig,
   scanExistingComponents,
 } from "../../../bin/utils/ProjectScanner";
+import { promptAnswers } from "../../../bin/utils/prompt";
 import { ApiType, ComponentType, ProjectType } from "../../../bin/types/enums";
 
 const componentConfig = loadComponentConfig();
@@ -35,7 +35,7 @@ export async function handleComponentImport(
   const requiredImports = config.requiredImports || [];
 
   if (requiredImports.length > 0) {
-    const { selectedRequiredImports } = await inquirer.prompt([
+    const { selectedRequiredImports } = await promptAnswers<{ selectedRequiredImports: string[] }>([
       {
         type: "checkbox",
         name: "selectedRequiredImports",
@@ -55,10 +55,11 @@ export async function handleComponentImport(
       ) as { name: string; data: string; fileLocation: string; componentType: ComponentType }[]; // Explicitly cast for clarity
 
       if (existingComponentsForType?.length > 0) {
-        const { selectedDependencies } = await inquirer.prompt([
+        const answerName = `${depType}Imports`;
+        const { [answerName]: selectedDependencies } = await promptAnswers([
           {
             type: "checkbox",
-            name: "selectedDependencies",
+            name: answerName,
             message: `Select ${depType} components to import:`,
             choices: existingComponentsForType.map((component) => ({
               name: component.name,
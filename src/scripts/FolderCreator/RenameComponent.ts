@@ -0,0 +1,256 @@
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+
+/**
+ * A text replacement at a source offset
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Replaces a component name in every casing saveTemplateFiles writes it in:
+ * `TokenProps`, `useToken`, `tokenAbi`, `.token`, `TOKEN`. A match running
+ * into a lowercase letter (`Cardinal` for `Card`) is left alone, as is a
+ * lowercase match inside a longer word (`discard`).
+ * @param {string} text - File content or file name
+ * @param {string} oldName - Current component name
+ * @param {string} newName - New component name
+ * @returns {string} The text with the name replaced
+ */
+export function replaceComponentName(text: string, oldName: string, newName: string): string {
+  const replacements = new Map<string, string>([
+    [oldName, newName],
+    [lowerFirst(oldName), lowerFirst(newName)],
+    [oldName.toLowerCase(), newName.toLowerCase()],
+    [oldName.toUpperCase(), newName.toUpperCase()],
+  ]);
+  const lower = [...new Set([lowerFirst(oldName), oldName.toLowerCase()])].map(escapeRegExp);
+  const pattern = new RegExp(
+    [
+      `(?<![A-Za-z])(?:${lower.join("|")})(?![a-z])`,
+      `(?<![A-Z])${escapeRegExp(oldName.toUpperCase())}(?![A-Z])`,
+      `${escapeRegExp(oldName)}(?![a-z])`,
+    ].join("|"),
+    "g"
+  );
+  return text.replace(pattern, (match) => replacements.get(match) ?? match);
+}
+
+/**
+ * Moves a component folder and the component's files outside it (tests,
+ * deploy scripts) to their new names, rewriting the name inside each file
+ * @param {string} oldFolder - Absolute path of the current component folder
+ * @param {string} newFolder - Absolute path of the renamed component folder
+ * @param {string[]} outsideFiles - Files of the component outside its folder
+ * @param {string} oldName - Current component name
+ * @param {string} newName - New component name
+ * @returns {Promise<Map<string, string>>} New paths keyed by old path
+ */
+export async function renameComponentFiles(
+  oldFolder: string,
+  newFolder: string,
+  outsideFiles: string[],
+  oldName: string,
+  newName: string
+): Promise<Map<string, string>> {
+  const moves = new Map<string, string>();
+
+  if (await fs.pathExists(oldFolder)) {
+    for (const file of await listFiles(oldFolder)) {
+      const relative = path.relative(oldFolder, file);
+      moves.set(
+        file,
+        path.join(newFolder, path.dirname(relative), replaceComponentName(path.basename(relative), oldName, newName))
+      );
+    }
+  }
+  for (const file of outsideFiles) {
+    if (await fs.pathExists(file)) {
+      moves.set(file, path.join(path.dirname(file), replaceComponentName(path.basename(file), oldName, newName)));
+    }
+  }
+
+  for (const [oldPath, newPath] of moves) {
+    const content = await fs.readFile(oldPath, "utf-8");
+    await fs.outputFile(newPath, replaceComponentName(content, oldName, newName));
+    if (newPath !== oldPath) {
+      await fs.remove(oldPath);
+    }
+  }
+  if (oldFolder !== newFolder) {
+    await fs.remove(oldFolder);
+  }
+  return moves;
+}
+
+/**
+ * Points the imports of a renamed component in an importing file at its new
+ * folder, and renames the identifiers bound by those imports
+ * @param {string} filePath - The importing file
+ * @param {string} oldFolder - Absolute path of the former component folder
+ * @param {string} newFolder - Absolute path of the renamed component folder
+ * @param {string} oldName - Former component name
+ * @param {string} newName - New component name
+ * @returns {Promise<boolean>} Whether the file was changed
+ */
+export async function rewriteImporter(
+  filePath: string,
+  oldFolder: string,
+  newFolder: string,
+  oldName: string,
+  newName: string
+): Promise<boolean> {
+  if (!(await fs.pathExists(filePath))) {
+    return false;
+  }
+
+  const text = await fs.readFile(filePath, "utf-8");
+  const rewritePath = (specifier: string) =>
+    rewriteImportPath(specifier, path.basename(oldFolder), path.basename(newFolder), oldName, newName);
+  const updated = filePath.endsWith(".sol")
+    ? rewriteSolidityImports(text, rewritePath, oldName, newName)
+    : rewriteScriptImports(filePath, text, rewritePath, oldName, newName);
+
+  if (updated === text) {
+    return false;
+  }
+  await fs.writeFile(filePath, updated);
+  return true;
+}
+
+/**
+ * Rewrites `import` and `export ... from` declarations through the compiler
+ * API; identifiers are renamed only when an import binds the old name
+ */
+function rewriteScriptImports(
+  filePath: string,
+  text: string,
+  rewritePath: (specifier: string) => string | undefined,
+  oldName: string,
+  newName: string
+): string {
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true);
+  const edits: TextEdit[] = [];
+  let bindsOldName = false;
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !(ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) ||
+      !statement.moduleSpecifier ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier;
+    const newSpecifier = rewritePath(specifier.text);
+    if (!newSpecifier) {
+      continue;
+    }
+
+    edits.push({ start: specifier.getStart(sourceFile) + 1, end: specifier.end - 1, text: newSpecifier });
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      const namedBindings = clause?.namedBindings;
+      bindsOldName ||=
+        clause?.name?.text === oldName ||
+        (!!namedBindings &&
+          ts.isNamedImports(namedBindings) &&
+          namedBindings.elements.some((element) => element.name.text === oldName));
+    }
+  }
+
+  if (bindsOldName) {
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && node.text === oldName) {
+        edits.push({ start: node.getStart(sourceFile), end: node.end, text: newName });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return applyEdits(text, edits);
+}
+
+/**
+ * Rewrites Solidity `import` paths, and the old name as a whole word when
+ * one of them pointed at the component
+ */
+function rewriteSolidityImports(
+  text: string,
+  rewritePath: (specifier: string) => string | undefined,
+  oldName: string,
+  newName: string
+): string {
+  let imported = false;
+  const updated = text.replace(
+    /^(\s*import\s+(?:[^"';]*\s+from\s+)?["'])([^"']+)(["'])/gm,
+    (match, before: string, specifier: string, after: string) => {
+      const newSpecifier = rewritePath(specifier);
+      if (!newSpecifier) {
+        return match;
+      }
+      imported = true;
+      return `${before}${newSpecifier}${after}`;
+    }
+  );
+  return imported
+    ? updated.replace(new RegExp(`\\b${escapeRegExp(oldName)}\\b`, "g"), newName)
+    : updated;
+}
+
+/**
+ * Rewrites a module specifier whose last or second-to-last segment is the
+ * component folder, e.g. `@/components/Button/Button` or `../Button`
+ */
+function rewriteImportPath(
+  specifier: string,
+  oldFolderName: string,
+  newFolderName: string,
+  oldName: string,
+  newName: string
+): string | undefined {
+  const segments = specifier.split("/");
+  const index = [segments.length - 2, segments.length - 1].find(
+    (candidate) => candidate >= 0 && segments[candidate] === oldFolderName
+  );
+  if (index === undefined) {
+    return undefined;
+  }
+
+  segments[index] = newFolderName;
+  if (index === segments.length - 2) {
+    segments[index + 1] = replaceComponentName(segments[index + 1], oldName, newName);
+  }
+  return segments.join("/");
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    files.push(...(entry.isDirectory() ? await listFiles(entryPath) : [entryPath]));
+  }
+  return files;
+}
+
+/**
+ * Applies edits back to front so earlier offsets stay valid
+ */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function lowerFirst(name: string): string {
+  return `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * @file Review of generated files before they are written
+ * @module scripts/review
+ * @version 1.0.0
+ * @license MIT
+ */
+
+import fs from "fs-extra";
+import { ApiType, ComponentType, ProjectType } from "../../bin/types/enums";
+import { toConfigPath } from "../../bin/utils/configLogger";
+import { colorizeDiff, createUnifiedDiff } from "../../bin/utils/diff";
+import { isNonInteractive, promptAnswers } from "../../bin/utils/prompt";
+import TemplateService from "../services/TemplateService";
+import { TemplateFileInfo } from "./templateGenerator";
+
+/**
+ * Regenerates one file with an extra instruction from the reviewer
+ */
+export type RegenerateFile = (
+  file: TemplateFileInfo,
+  instruction: string,
+  files: TemplateFileInfo[]
+) => Promise<TemplateFileInfo>;
+
+/**
+ * Where the files of a component are written
+ */
+interface ReviewTarget {
+  fileName: string;
+  targetFolder: string;
+  componentType: ComponentType | ApiType;
+  projectType: ProjectType;
+}
+
+/**
+ * Prints the diff of every file against what is on disk, writing nothing
+ * @param {Object} params - The files and where they would be written
+ */
+export async function printTemplateDiffs(params: ReviewTarget & { templateFiles: TemplateFileInfo[] }): Promise<void> {
+  for (const file of params.templateFiles) {
+    const { relativePath, diff } = await diffTemplateFile(file, params);
+    console.log(diff ? colorizeDiff(diff) : `${relativePath}: unchanged`);
+  }
+}
+
+/**
+ * Shows the diff of each file against what is on disk and asks whether to
+ * write it, skip it or generate it again with an extra instruction. Files
+ * that would not change are kept without asking.
+ * @param {Object} params - The files, where they are written and how to regenerate one
+ * @returns {Promise<{ accepted: TemplateFileInfo[], rejected: string[] }>} The files to write, and the paths of the rejected ones
+ */
+export async function reviewTemplateFiles(
+  params: ReviewTarget & { templateFiles: TemplateFileInfo[]; regenerate?: RegenerateFile }
+): Promise<{ accepted: TemplateFileInfo[]; rejected: string[] }> {
+  const files = [...params.templateFiles];
+  const rejected: string[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    for (;;) {
+      const { targetPath, relativePath, diff } = await diffTemplateFile(files[index], params);
+      if (!diff) {
+        break;
+      }
+      console.log(colorizeDiff(diff));
+
+      const { reviewAction } = await promptAnswers([
+        {
+          type: "list",
+          name: "reviewAction",
+          message: `Write ${relativePath}?`,
+          choices: [
+            { name: "Accept", value: "accept" },
+            { name: "Reject (keep what is on disk)", value: "reject" },
+            // A preset answer would regenerate forever without a human to stop it
+            ...(params.regenerate && !isNonInteractive()
+              ? [{ name: "Regenerate with an extra instruction", value: "regenerate" }]
+              : []),
+          ],
+          default: "accept",
+        },
+      ]);
+
+      if (reviewAction === "reject") {
+        rejected.push(targetPath);
+      } else if (reviewAction === "regenerate" && params.regenerate) {
+        const { reviewInstruction } = await promptAnswers([
+          {
+            type: "input",
+            name: "reviewInstruction",
+            message: `What should change in ${files[index].targetFileName}?`,
+            validate: (input: string) => !!input.trim() || "Instruction cannot be empty",
+          },
+        ]);
+        try {
+          files[index] = await params.regenerate(files[index], reviewInstruction, files);
+        } catch (error) {
+          console.error(`❌ Could not regenerate ${relativePath}: ${(error as Error).message}`);
+        }
+        continue;
+      }
+      break;
+    }
+  }
+
+  return {
+    accepted: files.filter(
+      (file) => !rejected.includes(TemplateService.resolveTargetPath(file, params.fileName, params.targetFolder, params.componentType))
+    ),
+    rejected,
+  };
+}
+
+async function diffTemplateFile(
+  file: TemplateFileInfo,
+  target: ReviewTarget
+): Promise<{ targetPath: string; relativePath: string; diff: string }> {
+  const { fileName, targetFolder, componentType, projectType } = target;
+  const targetPath = TemplateService.resolveTargetPath(file, fileName, targetFolder, componentType);
+  const relativePath = toConfigPath(targetPath);
+  const before = (await fs.pathExists(targetPath)) ? await fs.readFile(targetPath, "utf-8") : null;
+  const after = TemplateService.renderTemplateFile(file, fileName, componentType, projectType);
+  return { targetPath, relativePath, diff: createUnifiedDiff(before, after, relativePath) };
+}
@@ -12,21 +12,34 @@ import {
   FrontendComponentType,
   ProjectType,
 } from "../../bin/types/enums";
-import { generateCodeWithAI } from "../ai/geminiCodeGenerator";
-import inquirer from "inquirer";
+import { generateCodeWithAI, regenerateFileWithAI, repairFileWithAI } from "../ai/codeGenerator";
+import { ProjectContext, buildProjectContext } from "../ai/projectContext";
+import { cancelOnInterrupt } from "../ai/progress";
+import { AICancelledError, AIProviderOverrides } from "../ai/providers";
 import {
   getDefaultFolderForComponentType,
   getDefaultTemplateDirectory,
   getFilesInFolder,
 } from "../../bin/utils/ProjectScanner";
 import { handleApiComponentType } from "./FolderCreator/FrontendFileCreator/Api";
+import { handleContractClientComponentType } from "./FolderCreator/FrontendFileCreator/ContractClient";
+import { handleOpenApiComponentType } from "./FolderCreator/FrontendFileCreator/OpenApi";
 import TemplateService from "../services/TemplateService";
+import { printTemplateDiffs, reviewTemplateFiles } from "./reviewChanges";
 import { handleComponentImport } from "./FolderCreator/HandleImport";
+import { promptAnswers } from "../../bin/utils/prompt";
+import { checkTypeScriptFiles, formatTypeDiagnostics } from "../../bin/utils/typeCheck";
 import {
   logComponentCreation,
   saveProjectComponentConfig,
+  toConfigPath,
 } from "../../bin/utils/configLogger";
 
+/**
+ * Times the AI is asked to fix compiler errors in generated files
+ */
+const MAX_REPAIR_ROUNDS = 2;
+
 export interface ComponentGenerationOptions {
   style: "css" | "scss" | "styled-components" | "none"; // todo add css type to enums
   typescript: boolean;
@@ -41,6 +54,10 @@ export interface TemplateFileInfo {
   originalFileName: string;
   targetFileName: string;
   content?: string;
+  /** Folder (relative to the working directory) to write the file to instead of the component folder */
+  targetFolder?: string;
+  /** Why the AI output could not be used and the template was kept */
+  fallbackReason?: string;
 }
 
 /**
@@ -50,6 +67,10 @@ export interface TemplateFileInfo {
  * @param {ProjectType} params.projectType - The project type (frontend/backend/blockchain)
  * @param {string} params.fileName - The base name for the component
  * @param {string} params.targetFolder - The target folder path
+ * @param {AIProviderOverrides} params.ai - Per-call AI provider/model overrides
+ * @param {boolean} params.skipReview - Write AI output without showing the diffs for review
+ * @param {boolean} params.dryRun - Print the diffs of the files that would be written and write nothing
+ * @param {string} params.openApiSpec - OpenAPI document an API component is generated from
  * @returns {Promise<string[]>} Array of created file paths
  */
 export async function generateFromTemplate(params: {
@@ -58,20 +79,58 @@ export async function generateFromTemplate(params: {
   fileName: string;
   targetFolder?: string;
   updateExistingTemplateFiles?: boolean;
+  ai?: AIProviderOverrides;
+  skipReview?: boolean;
+  dryRun?: boolean;
+  openApiSpec?: string;
 }): Promise<{
   createdFiles: string[];
+  /** Files rejected in review, left as they are on disk */
+  rejectedFiles?: string[];
   aiDescription?: string;
   templateFiles: TemplateFileInfo[];
-  imports?: { name: string; data: string }[];
+  imports?: { name: string; data: string; componentType?: ComponentType }[];
+  /** Project context the AI was given */
+  context?: ProjectContext;
 }> {
-  let { componentType, projectType, fileName, updateExistingTemplateFiles } = params;
+  let { componentType, projectType, fileName, updateExistingTemplateFiles, dryRun } = params;
   let targetFolder =
     params.targetFolder ||
     (await getDefaultFolderForComponentType(projectType, componentType));
 
+  if (
+    dryRun &&
+    (componentType === FrontendComponentType.API || componentType === FrontendComponentType.CONTRACT_CLIENT)
+  ) {
+    throw new Error(`--dry-run is not supported for ${componentType} components.`);
+  }
+
   // Handle API component type separately as an integration process
   if (componentType === FrontendComponentType.API) {
-    const createdFiles = await handleApiComponentType(
+    const createdFiles = params.openApiSpec
+      ? await handleOpenApiComponentType(projectType, componentType, targetFolder, fileName, params.openApiSpec)
+      : await handleApiComponentType(
+          projectType,
+          componentType,
+          targetFolder,
+          fileName
+        );
+    for (const file of createdFiles) {
+      await logComponentCreation({
+        componentType: componentType,
+        projectType: projectType,
+        fileName: file,
+        description: params.openApiSpec
+          ? `Generated API component from ${params.openApiSpec}.`
+          : `Generated API component using template.`,
+      });
+    }
+    return { createdFiles, templateFiles: [] };
+  }
+
+  // Contract clients are generated from the blockchain project's compiled ABIs
+  if (componentType === FrontendComponentType.CONTRACT_CLIENT) {
+    const createdFiles = await handleContractClientComponentType(
       projectType,
       componentType,
       targetFolder,
@@ -82,7 +141,7 @@ export async function generateFromTemplate(params: {
         componentType: componentType,
         projectType: projectType,
         fileName: file,
-        description: `Generated API component using template.`,
+        description: `Generated contract client from compiled ABI.`,
       });
     }
     return { createdFiles, templateFiles: [] };
@@ -94,14 +153,22 @@ export async function generateFromTemplate(params: {
       projectType,
     )
   if (updateExistingTemplateFiles) {
-    templateFiles = await getFilesInFolder(
-      fileName,
-      componentType,
-      projectType,
-    );
+    // Blockchain components also own files outside their folder (tests, deploy scripts)
+    templateFiles = projectType === ProjectType.BLOCKCHAIN
+      ? await TemplateService.getExistingTemplateFiles(
+          templateFiles,
+          fileName,
+          targetFolder,
+          componentType
+        )
+      : await getFilesInFolder(
+          fileName,
+          componentType,
+          projectType,
+        );
   }
 
-  const answers = await inquirer.prompt([
+  const answers = await promptAnswers([
     {
       type: "confirm",
       name: "useAI",
@@ -111,8 +178,10 @@ export async function generateFromTemplate(params: {
   ]);
 
   let createdFiles: string[] = [];
+  let rejectedFiles: string[] | undefined = undefined;
   let aiDescription: string | undefined = undefined;
-  let imports: { name: string; data: string }[] | undefined = undefined;
+  let imports: { name: string; data: string; componentType?: ComponentType }[] | undefined = undefined;
+  let context: ProjectContext | undefined = undefined;
 
   if (answers.useAI) {
     const importResult = await handleComponentImport(
@@ -120,26 +189,59 @@ export async function generateFromTemplate(params: {
       componentType
     );
     const importExisting = importResult.importExisting;
-    imports = Object.values(importResult.dependencies).flat();
+    imports = Object.entries(importResult.dependencies).flatMap(([depType, deps]) =>
+      deps.map((dep) => ({ ...dep, componentType: depType as ComponentType }))
+    );
 
     const aiGenerationResult = await generateWithAI({
       fileName,
       projectType,
       componentType,
+      targetFolder,
       templateFiles,
       updateExistingTemplateFiles,
       importExisting: importExisting,
       componentsToImport: imports,
+      ai: params.ai,
     });
 
+    const sourceFiles = templateFiles;
     templateFiles = aiGenerationResult.files;
     aiDescription = aiGenerationResult.description;
+    context = aiGenerationResult.context;
+    const target = { fileName, targetFolder, componentType, projectType };
+
+    if (dryRun) {
+      await printTemplateDiffs({ ...target, templateFiles });
+      return { createdFiles, aiDescription, templateFiles, imports, context };
+    }
+    if (!params.skipReview) {
+      const review = await reviewTemplateFiles({
+        ...target,
+        templateFiles,
+        regenerate: (file, instruction, files) =>
+          regenerateFileWithAI(
+            fileName,
+            projectType,
+            componentType,
+            `${aiDescription}\n\nAdditional instruction: ${instruction}`,
+            getGenerationOptions(projectType),
+            sourceFiles.find((source) => source.targetFileName === file.targetFileName) || file,
+            files,
+            updateExistingTemplateFiles,
+            { componentsToImport: imports, ai: params.ai, context }
+          ),
+      });
+      templateFiles = review.accepted;
+      rejectedFiles = review.rejected;
+    }
 
     createdFiles = await TemplateService.saveTemplateFiles({
       templateFiles,
       fileName,
       targetFolder,
       componentType,
+      projectType,
     });
 
     for (const file of createdFiles) {
@@ -151,11 +253,17 @@ export async function generateFromTemplate(params: {
       });
     }
   } else {
+    if (dryRun) {
+      await printTemplateDiffs({ fileName, targetFolder, componentType, projectType, templateFiles });
+      return { createdFiles, templateFiles };
+    }
+
     createdFiles = await TemplateService.saveTemplateFiles({
       templateFiles,
       fileName,
       targetFolder,
       componentType,
+      projectType,
     });
 
     for (const file of createdFiles) {
@@ -168,7 +276,24 @@ export async function generateFromTemplate(params: {
     }
   }
 
-  return { createdFiles, aiDescription, templateFiles, imports };
+  return { createdFiles, rejectedFiles, aiDescription, templateFiles, imports, context };
+}
+
+/**
+ * Options the AI generates components with
+ * @param {ProjectType} projectType - The project type
+ * @returns {ComponentGenerationOptions} The options
+ */
+function getGenerationOptions(projectType: ProjectType): ComponentGenerationOptions {
+  return {
+    style: "css",
+    typescript: true,
+    withProps: true,
+    withState: false,
+    withEffects: false,
+    withTests: true,
+    withStories: projectType === ProjectType.FRONTEND,
+  };
 }
 
 /**
@@ -177,74 +302,195 @@ export async function generateFromTemplate(params: {
  * @param {string} params.fileName - The base name for the component
  * @param {ProjectType} params.projectType - The project type (frontend/backend)
  * @param {ComponentType} params.componentType - The type of component to generate
+ * @param {string} params.targetFolder - The target folder path
  * @param {TemplateFileInfo[]} params.templateFiles - Template files information
  * @param {boolean} params.importExisting - Whether to import existing components
  * @param {Array} params.componentsToImport - Components to import
- * @returns {Promise<{ files: TemplateFileInfo[], description: string }>} A promise that resolves to an object containing the generated files and the user's prompt.
+ * @param {AIProviderOverrides} params.ai - Per-call AI provider/model overrides
+ * @returns {Promise<{ files: TemplateFileInfo[], description: string, context: ProjectContext }>} A promise that resolves to an object containing the generated files, the user's prompt and the project context sent with it.
+ * @throws Error if the main file cannot be generated, if the generated files do not compile and the user discards them, or if cancelled before the main file finished
  */
 async function generateWithAI(params: {
   fileName: string;
   projectType: ProjectType;
   componentType: ComponentType | ApiType;
+  targetFolder: string;
   templateFiles: TemplateFileInfo[];
   importExisting?: boolean;
   updateExistingTemplateFiles?: boolean;
   componentsToImport?: { name: string; data: string }[];
-}): Promise<{ files: TemplateFileInfo[]; description: string }> {
+  ai?: AIProviderOverrides;
+}): Promise<{ files: TemplateFileInfo[]; description: string; context: ProjectContext }> {
   const { fileName, projectType, componentType, templateFiles,updateExistingTemplateFiles } = params;
 
-  const answers = await inquirer.prompt([
+  const answers = await promptAnswers([
     {
       type: "input",
       name: "description",
       message: "Enter AI Prompt on how the files and code should work:",
-      default: "",
+      // No default, so a run without prompts fails rather than generating from an empty prompt
     },
   ]);
 
   const aiDescription = answers.description || "";
-  const options: ComponentGenerationOptions = {
-    style: "css",
-    typescript: true,
-    withProps: true,
-    withState: false,
-    withEffects: false,
-    withTests: true,
-    withStories: projectType === ProjectType.FRONTEND,
-  };
+  const options = getGenerationOptions(projectType);
+  const context = await buildProjectContext({
+    projectType,
+    componentType,
+    fileName,
+    targetFolder: params.targetFolder,
+    exclude: (params.componentsToImport || []).map((component) => component.name),
+  });
 
+  let aiResult: TemplateFileInfo[];
+  let cancelled = false;
   try {
-    const aiResult = await generateCodeWithAI(
-      fileName,
-      projectType,
-      componentType,
-      aiDescription,
-      options,
-      templateFiles,
-      updateExistingTemplateFiles,
-      {
-        importExisting: params.importExisting,
-        componentsToImport: params.componentsToImport || [],
-      }
-    );
+    aiResult = await cancelOnInterrupt(async (signal) => {
+      const files = await generateCodeWithAI(
+        fileName,
+        projectType,
+        componentType,
+        aiDescription,
+        options,
+        templateFiles,
+        updateExistingTemplateFiles,
+        {
+          importExisting: params.importExisting,
+          componentsToImport: params.componentsToImport || [],
+          ai: params.ai,
+          context,
+          signal,
+        }
+      );
+      cancelled = signal.aborted;
+      return files;
+    });
+  } catch (error) {
+    if (error instanceof AICancelledError) {
+      throw new Error(`Cancelled before ${fileName} was generated, nothing was written.`);
+    }
+    // A missing key, a rejected request or an unusable main file would leave
+    // nothing but templates passed off as AI output
+    throw new Error(`${(error as Error).message}\nAI generation of ${fileName} failed, nothing was written.`);
+  }
+  reportTemplateFallbacks(aiResult);
 
-    // Check if any file has empty content (which would indicate generation failed)
-    const hasEmptyContent = aiResult.some(
-      (file) => !file.content || file.content.trim() === ""
+  // Only the finished files are kept; checking them against files that were
+  // never written would report errors that are not theirs
+  if (cancelled) {
+    const skipped = templateFiles.filter(
+      (file) => !aiResult.some((generated) => generated.targetFileName === file.targetFileName)
     );
-    if (hasEmptyContent) {
-      console.error(
-        "AI generation failed for some files, returning template files"
+    if (skipped.length > 0) {
+      console.warn(
+        `⏹  Generation cancelled, skipped:\n${skipped.map((file) => `  - ${file.targetFileName}`).join("\n")}`
       );
-      return { files: templateFiles, description: aiDescription }; // Return original templates and the prompt
     }
+    return { files: aiResult, description: aiDescription, context };
+  }
 
-    return {
-      files: aiResult.map((file) => ({ ...file })),
-      description: aiDescription, // Return the prompt
-    };
-  } catch (error) {
-    console.error("Error generating with AI:", error);
-    return { files: templateFiles, description: aiDescription }; // Return original template files and the prompt on error
+  // Templates kept for files the AI failed on are not its output to repair
+  const repaired = await repairTypeErrors({
+    ...params,
+    files: aiResult.filter((file) => !file.fallbackReason).map((file) => ({ ...file })),
+    context,
+  });
+  return {
+    files: aiResult.map(
+      (file) => repaired.find((generated) => generated.targetFileName === file.targetFileName) || file
+    ),
+    description: aiDescription, // Return the prompt
+    context,
+  };
+}
+
+/**
+ * Tells which files were generated from templates instead of AI, and why
+ */
+function reportTemplateFallbacks(files: TemplateFileInfo[]): void {
+  const fallbacks = files.filter((file) => file.fallbackReason);
+  if (fallbacks.length === 0) {
+    return;
+  }
+  console.warn(
+    `⚠️  AI output could not be used for ${fallbacks.length} file(s), they were generated from templates:\n${fallbacks
+      .map((file) => `  - ${file.targetFileName}: ${file.fallbackReason}`)
+      .join("\n")}`
+  );
+}
+
+/**
+ * Type-checks generated TypeScript files against the target project and asks
+ * the AI to fix the errors, up to MAX_REPAIR_ROUNDS times. Errors left after
+ * that are reported and the user chooses whether to keep the files.
+ * Blockchain projects are skipped: their scripts import types generated by
+ * compiling the contracts.
+ * @param {Object} params - The generated files and where they are written
+ * @returns {Promise<TemplateFileInfo[]>} The files, repaired where the AI managed to
+ * @throws Error if errors remain and the user discards the files
+ */
+async function repairTypeErrors(params: {
+  files: TemplateFileInfo[];
+  fileName: string;
+  projectType: ProjectType;
+  componentType: ComponentType | ApiType;
+  targetFolder: string;
+  ai?: AIProviderOverrides;
+  context?: ProjectContext;
+}): Promise<TemplateFileInfo[]> {
+  const { fileName, projectType, componentType, targetFolder } = params;
+  if (projectType === ProjectType.BLOCKCHAIN) {
+    return params.files;
+  }
+
+  let files = params.files;
+  const resolvePath = (file: TemplateFileInfo) =>
+    TemplateService.resolveTargetPath(file, fileName, targetFolder, componentType);
+  const check = () =>
+    checkTypeScriptFiles(
+      files.map((file) => ({
+        path: resolvePath(file),
+        content: TemplateService.renderTemplateFile(file, fileName, componentType, projectType),
+      }))
+    );
+
+  let diagnostics = check();
+  for (let round = 1; round <= MAX_REPAIR_ROUNDS && diagnostics.length > 0; round++) {
+    console.log(
+      `🔧 ${diagnostics.length} TypeScript error(s) in the generated files, asking the AI to fix them (${round}/${MAX_REPAIR_ROUNDS})`
+    );
+    const repaired: TemplateFileInfo[] = [];
+    for (const file of files) {
+      const fileDiagnostics = diagnostics.filter((diagnostic) => diagnostic.file === toConfigPath(resolvePath(file)));
+      if (fileDiagnostics.length === 0) {
+        repaired.push(file);
+        continue;
+      }
+      try {
+        repaired.push(await repairFileWithAI(projectType, file, formatTypeDiagnostics(fileDiagnostics), params.ai, params.context));
+      } catch (error) {
+        console.error(`❌ Could not repair ${file.targetFileName}: ${(error as Error).message}`);
+        repaired.push(file);
+      }
+    }
+    files = repaired;
+    diagnostics = check();
+  }
+
+  if (diagnostics.length === 0) {
+    return files;
+  }
+  console.warn(`⚠️  ${diagnostics.length} TypeScript error(s) remain in the generated files:\n${formatTypeDiagnostics(diagnostics)}`);
+  const { saveWithErrors } = await promptAnswers([
+    {
+      type: "confirm",
+      name: "saveWithErrors",
+      message: "Save the generated files anyway?",
+      default: true,
+    },
+  ]);
+  if (!saveWithErrors) {
+    throw new Error(`Discarded the generated ${componentType} ${fileName}, it has ${diagnostics.length} TypeScript error(s).`);
   }
+  return files;
 }
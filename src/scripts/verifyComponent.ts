@@ -0,0 +1,96 @@
+/**
+ * @file Runs a component's generated tests and has the AI fix failing ones
+ * @module scripts/verify
+ * @version 1.0.0
+ * @license MIT
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { ProjectType } from "../../bin/types/enums";
+import { ComponentVerification, toConfigPath } from "../../bin/utils/configLogger";
+import { trackFileChange } from "../../bin/utils/history";
+import { TestRunner, runTestFiles } from "../../bin/utils/testRunner";
+import { fixTestWithAI } from "../ai/codeGenerator";
+import { ProjectContext } from "../ai/projectContext";
+import { AIProviderOverrides } from "../ai/providers";
+
+/**
+ * Times the AI is asked to fix failing tests
+ */
+const MAX_FIX_ROUNDS = 2;
+
+/**
+ * Runner output sent to the model, from the end where the failures are summed up
+ */
+const MAX_OUTPUT_CHARS = 6_000;
+
+const TEST_FILE_PATTERN = /\.(test|spec)(\.[cm]?[jt]sx?)$/;
+
+/**
+ * Runs the test files among a component's freshly written files. When they
+ * fail and `fix` is set, each test is sent to the AI with the component it
+ * tests and the runner output, up to MAX_FIX_ROUNDS times.
+ * @param {Object} params - What to run and how
+ * @param {ProjectType} params.projectType - The project the component belongs to
+ * @param {string} params.projectDir - Folder holding the project's package.json
+ * @param {TestRunner} params.runner - The project's test runner
+ * @param {string[]} params.files - Absolute paths of the component's files
+ * @param {boolean} params.fix - Ask the AI to fix failing tests
+ * @param {AIProviderOverrides} params.ai - Per-call AI provider/model overrides
+ * @param {ProjectContext} params.context - Project context the files were generated with
+ * @returns {Promise<ComponentVerification | undefined>} The result, or undefined when no test files were written
+ */
+export async function verifyComponentTests(params: {
+  projectType: ProjectType;
+  projectDir: string;
+  runner: TestRunner;
+  files: string[];
+  fix?: boolean;
+  ai?: AIProviderOverrides;
+  context?: ProjectContext;
+}): Promise<ComponentVerification | undefined> {
+  const { projectType, projectDir, runner, files } = params;
+  const testFiles = files.filter((file) => TEST_FILE_PATTERN.test(file));
+  if (testFiles.length === 0) {
+    console.log("ℹ️  No test files were generated, nothing to verify.");
+    return undefined;
+  }
+
+  for (let round = 0; ; round++) {
+    console.log(`🧪 Running ${testFiles.map((file) => path.basename(file)).join(", ")} with ${runner}`);
+    const result = await runTestFiles(projectDir, runner, testFiles);
+    if (result.passed) {
+      console.log("✅ Generated tests pass");
+      return { passed: true, runner, verifiedAt: new Date().toISOString() };
+    }
+
+    console.log(result.output);
+    if (!params.fix || round === MAX_FIX_ROUNDS) {
+      console.warn("⚠️  Generated tests fail");
+      return { passed: false, runner, verifiedAt: new Date().toISOString() };
+    }
+
+    console.log(`🔧 Asking the AI to fix the failing tests (${round + 1}/${MAX_FIX_ROUNDS})`);
+    for (const testFile of testFiles) {
+      const componentFile = testFile.replace(TEST_FILE_PATTERN, "$2");
+      if (!(await fs.pathExists(componentFile))) {
+        continue;
+      }
+      try {
+        const content = await fixTestWithAI(
+          projectType,
+          { name: toConfigPath(testFile), content: await fs.readFile(testFile, "utf-8") },
+          { name: toConfigPath(componentFile), content: await fs.readFile(componentFile, "utf-8") },
+          result.output.slice(-MAX_OUTPUT_CHARS),
+          params.ai,
+          params.context
+        );
+        await trackFileChange(testFile);
+        await fs.outputFile(testFile, content);
+      } catch (error) {
+        console.error(`❌ Could not fix ${path.basename(testFile)}: ${(error as Error).message}`);
+      }
+    }
+  }
+}
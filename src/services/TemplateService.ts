@@ -6,13 +6,55 @@ import inquirer from "inquirer";
 import {
   ApiType,
   BackendComponentType,
+  BlockchainFramework,
+  BlokchainComponentType,
   ComponentType,
   FrontendComponentType,
   ProjectType,
 } from "../../bin/types/enums";
 import { TemplateFileInfo } from "../scripts/templateGenerator";
 import { promisify } from "util";
-import { getDefaultTemplateDirectory } from "../../bin/utils/ProjectScanner";
+import {
+  getBlockchainFramework,
+  getDefaultFolderForComponentType,
+  getDefaultTemplateDirectory,
+} from "../../bin/utils/ProjectScanner";
+import { readConfig } from "../../bin/utils/configLogger";
+import { trackFileChange } from "../../bin/utils/history";
+
+/**
+ * Project templates shipped inside the package, scaffolded without network access
+ */
+const BUNDLED_TEMPLATES: Partial<Record<ProjectType, Record<string, string>>> = {
+  [ProjectType.BACKEND]: {
+    "express-ts": "Express + TypeScript (bundled, works offline)",
+  },
+  [ProjectType.BLOCKCHAIN]: {
+    [BlockchainFramework.HARDHAT]: "Hardhat + TypeScript (bundled, works offline)",
+    [BlockchainFramework.FOUNDRY]: "Foundry (bundled, works offline)",
+  },
+};
+
+/**
+ * Template files of each blockchain component type, relative to
+ * `bin/templates/blockchain/<type>`. Tests and deploy scripts depend on the framework.
+ */
+const BLOCKCHAIN_TEMPLATE_FILES: Record<BlockchainFramework, Record<BlokchainComponentType, string[]>> = {
+  [BlockchainFramework.HARDHAT]: {
+    [BlokchainComponentType.CONTRACT]: ["contract.sol", "hardhat/contract.test.ts", "hardhat/contract.deploy.ts"],
+    [BlokchainComponentType.LIBRARY]: ["library.sol", "hardhat/libraryHarness.sol", "hardhat/library.test.ts"],
+    [BlokchainComponentType.INTERFACE]: ["interface.sol"],
+    [BlokchainComponentType.ENUM]: ["enum.sol"],
+    [BlokchainComponentType.SCRIPT]: ["hardhat/script.ts"],
+  },
+  [BlockchainFramework.FOUNDRY]: {
+    [BlokchainComponentType.CONTRACT]: ["contract.sol", "foundry/contract.t.sol", "foundry/contract.s.sol"],
+    [BlokchainComponentType.LIBRARY]: ["library.sol", "foundry/library.t.sol"],
+    [BlokchainComponentType.INTERFACE]: ["interface.sol"],
+    [BlokchainComponentType.ENUM]: ["enum.sol"],
+    [BlokchainComponentType.SCRIPT]: ["foundry/script.s.sol"],
+  },
+};
 
 class TemplateService {
   private templatesConfig: any;
@@ -70,9 +112,27 @@ class TemplateService {
       }
     }
 
-    // For backend or template-based frontend projects
+    const bundledTemplates = BUNDLED_TEMPLATES[projectType];
     const categories = this.templatesConfig[`${projectType}Categories`];
+    if (bundledTemplates) {
+      const { bundledTemplate } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "bundledTemplate",
+          message: `How would you like to create your ${projectType} project?`,
+          choices: [
+            ...Object.entries(bundledTemplates).map(([value, name]) => ({ name, value })),
+            ...(categories ? [{ name: "Use a template (git clone)", value: "template" }] : []),
+          ],
+        },
+      ]);
+
+      if (bundledTemplate !== "template") {
+        return { templateType: bundledTemplate };
+      }
+    }
 
+    // For backend or template-based frontend projects
     if (!categories) {
       throw new Error(
         `No templates available for project type: ${projectType}`
@@ -136,6 +196,12 @@ class TemplateService {
         return;
       }
 
+      // Handle bundled templates
+      if (this.isBundledTemplate(projectType, templateType)) {
+        await this.scaffoldBundledTemplate(projectType, templateType, targetPath);
+        return;
+      }
+
       // Handle template cloning
       const repoUrl =
         templateType === "custom-repo"
@@ -164,6 +230,57 @@ class TemplateService {
     }
   }
 
+  public isBundledTemplate(projectType: ProjectType, templateType: string): boolean {
+    return !!BUNDLED_TEMPLATES[projectType]?.[templateType];
+  }
+
+  /**
+   * Copies a bundled project template into the target folder
+   * @param {ProjectType} projectType - The project type
+   * @param {string} templateType - Key in BUNDLED_TEMPLATES
+   * @param {string} targetPath - Folder to create the project in
+   */
+  private async scaffoldBundledTemplate(
+    projectType: ProjectType,
+    templateType: string,
+    targetPath: string
+  ): Promise<void> {
+    const templateDir = path.join(
+      __dirname,
+      "../../bin/templates",
+      projectType,
+      "project",
+      templateType
+    );
+    if (!(await fs.pathExists(templateDir))) {
+      throw new Error(`Bundled template not found at ${templateDir}`);
+    }
+
+    console.log(`🚀 Creating ${BUNDLED_TEMPLATES[projectType]![templateType]} project...`);
+    const projectName = path.basename(targetPath);
+
+    const copyDir = async (sourceDir: string, destinationDir: string) => {
+      for (const entry of await fs.readdir(sourceDir, { withFileTypes: true })) {
+        const sourcePath = path.join(sourceDir, entry.name);
+        // npm drops .gitignore files when publishing, so templates ship them without the dot
+        const destinationPath = path.join(
+          destinationDir,
+          entry.name === "gitignore" ? ".gitignore" : entry.name
+        );
+
+        if (entry.isDirectory()) {
+          await copyDir(sourcePath, destinationPath);
+        } else {
+          const content = await fs.readFile(sourcePath, "utf-8");
+          await fs.outputFile(destinationPath, content.replace(/{{projectName}}/g, projectName));
+        }
+      }
+    };
+    await copyDir(templateDir, targetPath);
+
+    console.log(`✅ Successfully created project from bundled ${templateType} template`);
+  }
+
   private async initializeFramework(
     framework: string,
     targetPath: string
@@ -267,6 +384,7 @@ class TemplateService {
    * @param {string} params.fileName - The base name for the component
    * @param {string} params.targetFolder - The target folder path
    * @param {ComponentType} params.componentType - The type of component
+   * @param {ProjectType} params.projectType - The project type, frontend when omitted
    * @returns {Promise<string[]>} Array of created file paths
    */
   public async saveTemplateFiles(params: {
@@ -274,53 +392,140 @@ class TemplateService {
     fileName: string;
     targetFolder: string;
     componentType: ComponentType | ApiType;
+    projectType?: ProjectType;
   }): Promise<string[]> {
-    const { templateFiles, fileName, targetFolder, componentType } = params;
+    const { templateFiles, fileName, targetFolder, componentType, projectType } = params;
     const createdFiles: string[] = [];
 
     for (const templateFile of templateFiles) {
-      let content = templateFile.content;
-      if (!content) {
-        throw new Error(
-          `Template file ${templateFile.originalFileName} is empty.`
-        );
-      }
-      // Handle the special Storybook 'component: Component' case
+      const content = this.renderTemplateFile(templateFile, fileName, componentType, projectType);
+      const targetPath = this.resolveTargetPath(templateFile, fileName, targetFolder, componentType);
+      await trackFileChange(targetPath);
+      await fs.outputFile(targetPath, content);
+      createdFiles.push(targetPath);
+    }
+
+    return createdFiles;
+  }
+
+  /**
+   * Fills in the component name tokens of a template file, giving the content
+   * saveTemplateFiles writes
+   * @param {TemplateFileInfo} templateFile - The template file
+   * @param {string} fileName - The base name for the component
+   * @param {ComponentType} componentType - The type of component
+   * @param {ProjectType} projectType - The project type, frontend when omitted
+   * @returns {string} The file content
+   */
+  public renderTemplateFile(
+    templateFile: TemplateFileInfo,
+    fileName: string,
+    componentType: ComponentType | ApiType,
+    projectType?: ProjectType
+  ): string {
+    let content = templateFile.content;
+    if (!content) {
+      throw new Error(
+        `Template file ${templateFile.originalFileName} is empty.`
+      );
+    }
+    // Handle the special Storybook 'component: Component' case
+    content = content.replace(
+      /component: Component/g,
+      `component: ${fileName}`
+    );
+
+    // Do general replacements
+    content = content
+      .replace(/{{component}}/g, fileName.toLowerCase())
+      .replace(/{{Component}}/g, fileName)
+      .replace(/{{COMPONENT}}/g, fileName.toUpperCase());
+
+    // Solidity keywords (contract, library, interface, enum) share the component type names
+    if (projectType !== ProjectType.BLOCKCHAIN) {
       content = content.replace(
-        /component: Component/g,
-        `component: ${fileName}`
+        new RegExp(
+          `(?<!React\\.)(\\b|_)${componentType}(?![:])(\\b|_)`,
+          "gi"
+        ),
+        (match) => fileName
       );
+    }
 
-      // Do general replacements
-      content = content
-        .replace(/{{component}}/g, fileName.toLowerCase())
-        .replace(/{{Component}}/g, fileName)
-        .replace(/{{COMPONENT}}/g, fileName.toUpperCase())
-        .replace(
-          new RegExp(
-            `(?<!React\\.)(\\b|_)${componentType}(?![:])(\\b|_)`,
-            "gi"
-          ),
-          (match) => fileName
-        );
+    return content;
+  }
 
-      // Determine target file name based on component type
-      let targetFileName = fileName;
-      if (componentType === FrontendComponentType.PAGE) {
-        targetFileName = `${targetFileName}Page`;
-      }
+  /**
+   * Resolves where a template file is written: inside the component folder,
+   * or in the file's own `targetFolder` when it has one
+   * @param {TemplateFileInfo} templateFile - The template file
+   * @param {string} fileName - The base name for the component
+   * @param {string} targetFolder - The folder holding the component folders
+   * @param {ComponentType} componentType - The type of component
+   * @returns {string} Absolute path of the file
+   */
+  public resolveTargetPath(
+    templateFile: TemplateFileInfo,
+    fileName: string,
+    targetFolder: string,
+    componentType: ComponentType | ApiType
+  ): string {
+    if (templateFile.targetFolder) {
+      return path.join(process.cwd(), templateFile.targetFolder, templateFile.targetFileName);
+    }
 
-      const targetPath = path.join(
-        process.cwd(),
-        targetFolder,
-        targetFileName,
-        templateFile.targetFileName
-      );
-      await fs.outputFile(targetPath, content);
-      createdFiles.push(targetPath);
+    return path.join(
+      this.resolveComponentFolder(fileName, targetFolder, componentType),
+      templateFile.targetFileName
+    );
+  }
+
+  /**
+   * Resolves the folder a component's files are written to
+   * @param {string} fileName - The base name for the component
+   * @param {string} targetFolder - The folder holding the component folders
+   * @param {ComponentType} componentType - The type of component
+   * @returns {string} Absolute path of the component folder
+   */
+  public resolveComponentFolder(
+    fileName: string,
+    targetFolder: string,
+    componentType: ComponentType | ApiType
+  ): string {
+    // Pages live in a `<Name>Page` folder
+    let componentFolder = fileName;
+    if (componentType === FrontendComponentType.PAGE) {
+      componentFolder = `${componentFolder}Page`;
     }
 
-    return createdFiles;
+    return path.join(process.cwd(), targetFolder, componentFolder);
+  }
+
+  /**
+   * Replaces the content of template files with the files already written
+   * for the component, dropping templates that have no file on disk
+   * @param {TemplateFileInfo[]} templateFiles - Template files of the component type
+   * @param {string} fileName - The base name for the component
+   * @param {string} targetFolder - The folder holding the component folders
+   * @param {ComponentType} componentType - The type of component
+   * @returns {Promise<TemplateFileInfo[]>} The existing files
+   */
+  public async getExistingTemplateFiles(
+    templateFiles: TemplateFileInfo[],
+    fileName: string,
+    targetFolder: string,
+    componentType: ComponentType | ApiType
+  ): Promise<TemplateFileInfo[]> {
+    const existingFiles: TemplateFileInfo[] = [];
+
+    for (const templateFile of templateFiles) {
+      const filePath = this.resolveTargetPath(templateFile, fileName, targetFolder, componentType);
+      if (await fs.pathExists(filePath)) {
+        existingFiles.push({ ...templateFile, content: await fs.readFile(filePath, "utf-8") });
+      }
+    }
+
+    return existingFiles;
   }
 
   /**
@@ -339,17 +544,25 @@ class TemplateService {
       projectType,
       componentType
     );
-    const baseFiles = this.getBaseTemplateFiles(componentType);
+    const isBlockchain = projectType === ProjectType.BLOCKCHAIN;
+    const framework = isBlockchain
+      ? getBlockchainFramework((await readConfig()).blockchain?.template)
+      : undefined;
+    const baseFiles = this.getBaseTemplateFiles(componentType, projectType, framework);
     const result: TemplateFileInfo[] = [];
     const formattedFileName =
       fileName.charAt(0).toUpperCase() + fileName.slice(1).toLowerCase();
 
     for (const file of baseFiles) {
-      const targetFileName = file.replace(
+      // Blockchain templates are grouped by framework, e.g. hardhat/contract.test.ts
+      const targetFileName = (isBlockchain ? path.basename(file) : file).replace(
         new RegExp(componentType, "gi"),
         formattedFileName
       );
       const filePath = path.join(templateDir, file);
+      const targetFolder = isBlockchain
+        ? await this.getBlockchainTargetFolder(file, componentType)
+        : undefined;
 
       try {
         const content = await promisify(fs.readFile)(filePath, "utf-8");
@@ -357,6 +570,7 @@ class TemplateService {
           originalFileName: file,
           targetFileName,
           content,
+          ...(targetFolder && { targetFolder }),
         });
       } catch (error) {
         console.error(`Error reading template file ${filePath}:`, error);
@@ -364,6 +578,7 @@ class TemplateService {
           originalFileName: file,
           targetFileName,
           content: "", // Fallback empty content if file can't be read
+          ...(targetFolder && { targetFolder }),
         });
       }
     }
@@ -371,9 +586,49 @@ class TemplateService {
     return result;
   }
 
-  public getBaseTemplateFiles(
+  /**
+   * Tests and deploy scripts of blockchain components go where Hardhat and
+   * Foundry look for them (`test/`, `scripts/` or `script/`) rather than
+   * into the component folder
+   * @param {string} file - Template file path from BLOCKCHAIN_TEMPLATE_FILES
+   * @param {ComponentType} componentType - The blockchain component type
+   * @returns {Promise<string | undefined>} The folder, relative to the working directory
+   */
+  private async getBlockchainTargetFolder(
+    file: string,
     componentType: ComponentType | ApiType
+  ): Promise<string | undefined> {
+    if (/\.(test\.ts|t\.sol)$/.test(file)) {
+      const srcFolder = await getDefaultFolderForComponentType(ProjectType.BLOCKCHAIN);
+      return `${path.posix.dirname(srcFolder)}/test`;
+    }
+    if (componentType !== BlokchainComponentType.SCRIPT && /\.(deploy\.ts|s\.sol)$/.test(file)) {
+      return getDefaultFolderForComponentType(ProjectType.BLOCKCHAIN, BlokchainComponentType.SCRIPT);
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the template files of a component type
+   * @param {ComponentType} componentType - The type of component
+   * @param {ProjectType} projectType - Needed for blockchain components, whose
+   * `script` type shares its name with the backend one
+   * @param {BlockchainFramework} framework - Toolchain of a blockchain project
+   * @returns {string[]} Template file paths relative to the type's template folder
+   */
+  public getBaseTemplateFiles(
+    componentType: ComponentType | ApiType,
+    projectType?: ProjectType,
+    framework: BlockchainFramework = BlockchainFramework.HARDHAT
   ): string[] {
+    if (projectType === ProjectType.BLOCKCHAIN) {
+      const files = BLOCKCHAIN_TEMPLATE_FILES[framework][componentType as BlokchainComponentType];
+      if (!files) {
+        throw new Error(`Unhandled blockchain component type: ${componentType}`);
+      }
+      return files;
+    }
+
     switch (componentType) {
       case FrontendComponentType.COMPONENT:
         return [
@@ -390,6 +645,12 @@ class TemplateService {
         ];
       case FrontendComponentType.API:
         return [`${FrontendComponentType.API}Slice.tsx`, "backendRequest.ts"];
+      case FrontendComponentType.CONTRACT_CLIENT:
+        return [
+          `${FrontendComponentType.CONTRACT_CLIENT}.ts`,
+          `${FrontendComponentType.CONTRACT_CLIENT}.addresses.ts`,
+          `use${FrontendComponentType.CONTRACT_CLIENT}.ts`,
+        ];
       case ApiType.REDUX:
         return ["redux/store.tsx", "redux/storeProvider.tsx"];
       case BackendComponentType.ROUTE:
@@ -402,6 +663,16 @@ class TemplateService {
           `${BackendComponentType.CONTROLLER}.ts`,
           `${BackendComponentType.CONTROLLER}.test.ts`,
         ];
+      case BackendComponentType.MIDDLEWARE:
+        return [
+          `${BackendComponentType.MIDDLEWARE}.ts`,
+          `${BackendComponentType.MIDDLEWARE}.test.ts`,
+        ];
+      case BackendComponentType.SCRIPT:
+        return [
+          `${BackendComponentType.SCRIPT}.ts`,
+          `${BackendComponentType.SCRIPT}.test.ts`,
+        ];
       default:
         const exhaustiveCheck: any = componentType;
         throw new Error(
@@ -0,0 +1,104 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BackendComponentType, ProjectType } from "../bin/types/enums";
+import { generateFromTemplate } from "../src/scripts/templateGenerator";
+import {
+  registerRoute,
+  unregisterRoute,
+} from "../src/scripts/FolderCreator/BackendFileCreator/Routes";
+import TemplateService from "../src/services/TemplateService";
+import {
+  PROJECT_NAME,
+  answerPrompts,
+  expectGoldenProject,
+  setupWorkspace,
+} from "./helpers";
+
+describe("backend generation", () => {
+  let root: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ root, cleanup } = await setupWorkspace(ProjectType.BACKEND));
+    await TemplateService.cloneTemplate(
+      "express-ts",
+      undefined,
+      path.join(root, PROJECT_NAME),
+      ProjectType.BACKEND
+    );
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("generates every backend component type and registers routes once", async () => {
+    answerPrompts({ useAI: false });
+
+    for (const componentType of Object.values(BackendComponentType)) {
+      await generateFromTemplate({
+        projectType: ProjectType.BACKEND,
+        componentType,
+        fileName: "Users",
+      });
+    }
+    const { createdFiles } = await generateFromTemplate({
+      projectType: ProjectType.BACKEND,
+      componentType: BackendComponentType.ROUTE,
+      fileName: "Orders",
+    });
+
+    await registerRoute("Users", [path.join(root, PROJECT_NAME, "src/routes/Users/Users.ts")]);
+    const routerIndex = await registerRoute("Orders", createdFiles);
+    await registerRoute("Orders", createdFiles);
+
+    expect(routerIndex).toBe(path.join(root, PROJECT_NAME, "src/routes/index.ts"));
+    await expectGoldenProject(root, "backend-components");
+  });
+
+  describe("route registration", () => {
+    const routesDir = () => path.join(root, PROJECT_NAME, "src/routes");
+    const routeFiles = (name: string) => [path.join(routesDir(), name, `${name}.ts`)];
+
+    it("mounts imported middleware before the route and removes both again", async () => {
+      const indexPath = path.join(routesDir(), "index.ts");
+      const original = await fs.readFile(indexPath, "utf-8");
+
+      await registerRoute("Users", routeFiles("Users"), ["Auth"]);
+      const registered = await fs.readFile(indexPath, "utf-8");
+
+      expect(registered).toContain("import authMiddleware from '../middlewares/Auth/Auth';");
+      expect(registered).toContain("import usersRoute from './Users/Users';");
+      expect(registered).toContain("router.use('/users', authMiddleware, usersRoute);");
+
+      await unregisterRoute("Users", routeFiles("Users"));
+      expect(await fs.readFile(indexPath, "utf-8")).toBe(original);
+    });
+
+    it("keeps middleware imports still used by other routes", async () => {
+      const indexPath = path.join(routesDir(), "index.ts");
+
+      await registerRoute("Users", routeFiles("Users"), ["Auth"]);
+      await registerRoute("Orders", routeFiles("Orders"), ["Auth"]);
+      await unregisterRoute("Users", routeFiles("Users"));
+      const content = await fs.readFile(indexPath, "utf-8");
+
+      expect(content).not.toContain("usersRoute");
+      expect(content).toContain("import authMiddleware from '../middlewares/Auth/Auth';");
+      expect(content).toContain("router.use('/orders', authMiddleware, ordersRoute);");
+    });
+
+    it("falls back to mounting on the app when there is no router index", async () => {
+      await fs.remove(path.join(routesDir(), "index.ts"));
+      const appPath = path.join(root, PROJECT_NAME, "src/app.ts");
+
+      await expect(registerRoute("Users", routeFiles("Users"))).resolves.toBe(appPath);
+      const content = await fs.readFile(appPath, "utf-8");
+
+      expect(content).toContain("import usersRoute from './routes/Users/Users';");
+      expect(content).toMatch(/app\.use\('\/api', router\);\napp\.use\('\/users', usersRoute\);/);
+      expect(content.indexOf("usersRoute);")).toBeLessThan(content.indexOf("app.use(notFoundHandler);"));
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  BlockchainFramework,
+  BlokchainComponentType,
+  ProjectType,
+} from "../bin/types/enums";
+import { generateFromTemplate } from "../src/scripts/templateGenerator";
+import TemplateService from "../src/services/TemplateService";
+import {
+  PROJECT_NAME,
+  answerPrompts,
+  expectGoldenProject,
+  setupWorkspace,
+} from "./helpers";
+
+describe("blockchain generation", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  it.each([
+    [BlockchainFramework.HARDHAT, "test/Token.test.ts", "scripts/Token.deploy.ts"],
+    [BlockchainFramework.FOUNDRY, "test/Token.t.sol", "script/Token.s.sol"],
+  ])("scaffolds a %s project with every component type", async (framework, testFile, deployFile) => {
+    const workspace = await setupWorkspace(ProjectType.BLOCKCHAIN, framework);
+    cleanup = workspace.cleanup;
+    await TemplateService.cloneTemplate(
+      framework,
+      undefined,
+      path.join(workspace.root, PROJECT_NAME),
+      ProjectType.BLOCKCHAIN
+    );
+    answerPrompts({ useAI: false });
+
+    const { createdFiles } = await generateFromTemplate({
+      projectType: ProjectType.BLOCKCHAIN,
+      componentType: BlokchainComponentType.CONTRACT,
+      fileName: "Token",
+    });
+    for (const [componentType, fileName] of [
+      [BlokchainComponentType.LIBRARY, "Math"],
+      [BlokchainComponentType.INTERFACE, "Ivault"],
+      [BlokchainComponentType.ENUM, "Status"],
+      [BlokchainComponentType.SCRIPT, "Seed"],
+    ] as const) {
+      await generateFromTemplate({ projectType: ProjectType.BLOCKCHAIN, componentType, fileName });
+    }
+
+    expect(createdFiles.map((file) => path.relative(path.join(workspace.root, PROJECT_NAME), file))).toEqual([
+      "src/contracts/Token/Token.sol",
+      testFile,
+      deployFile,
+    ]);
+    await expectGoldenProject(workspace.root, `blockchain-${framework}`);
+  });
+});
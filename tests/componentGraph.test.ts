@@ -0,0 +1,84 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { GraphFormat, ProjectType } from "../bin/types/enums";
+import {
+  buildComponentGraph,
+  collectComponents,
+  formatComponentGraph,
+  formatComponentTable,
+} from "../bin/utils/componentGraph";
+import { Config } from "../bin/utils/configLogger";
+import { GOLDEN_DIR } from "./helpers";
+
+const SAVED_AT = "2025-01-02T03:04:05.000Z";
+
+/**
+ * Builds a config component entry importing the given components
+ */
+function component(componentType: string, imports: string[] = [], usedBy: string[] = []) {
+  return {
+    source: "template",
+    files: [],
+    componentType,
+    savedAt: SAVED_AT,
+    imports: imports.map((name) => ({ name, data: "" })),
+    usedBy,
+  };
+}
+
+const config = {
+  frontend: {
+    name: "web",
+    template: "custom",
+    components: {
+      Landing: { ...component("page", ["Header", "Button"]), source: "ai", updatedAt: "2025-02-03T04:05:06.000Z" },
+      Header: component("component", ["Button"], ["Landing"]),
+      Button: component("component", [], ["Landing", "Header"]),
+      Avatar: component("component"),
+      // Only linked through usedBy: Dialog was imported by Modal
+      Modal: component("component", [], ["Dialog"]),
+      Dialog: component("component", [], ["Modal"]),
+    },
+  },
+  backend: {
+    name: "api",
+    template: "express-ts",
+    components: {
+      Users: component("route", ["Auth"]),
+      Auth: component("middleware", [], ["Users"]),
+      Legacy: component("controller"),
+    },
+  },
+} as unknown as Config;
+
+describe("component inventory", () => {
+  it("filters and sorts components into a table", async () => {
+    expect(collectComponents(config, { projectType: ProjectType.BACKEND }).map((entry) => entry.name)).toEqual([
+      "Legacy",
+      "Auth",
+      "Users",
+    ]);
+    expect(collectComponents(config, { source: "ai" }).map((entry) => entry.name)).toEqual(["Landing"]);
+    expect(collectComponents(config, { componentType: "page" }).map((entry) => entry.name)).toEqual(["Landing"]);
+
+    await expect(formatComponentTable(collectComponents(config)) + "\n").toMatchFileSnapshot(
+      path.join(GOLDEN_DIR, "component-graph", "list.txt")
+    );
+  });
+
+  it("flags import cycles and unused components", () => {
+    const graph = buildComponentGraph(collectComponents(config));
+
+    expect(graph.cycles).toEqual([["frontend/Dialog", "frontend/Modal"]]);
+    expect(graph.unused).toEqual(["frontend/Avatar", "backend/Legacy"]);
+    expect(graph.edges.get("frontend/Landing")).toEqual(["frontend/Button", "frontend/Header"]);
+  });
+
+  it.each(Object.values(GraphFormat))("renders the graph as %s", async (format) => {
+    const graph = buildComponentGraph(collectComponents(config));
+
+    await expect(formatComponentGraph(graph, format) + "\n").toMatchFileSnapshot(
+      path.join(GOLDEN_DIR, "component-graph", `graph.${format}`)
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { spawnSync } from "child_process";
+import { promises as fsPromises } from "fs";
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FrontendComponentType } from "../bin/types/enums";
+import { readConfig, updateConfig } from "../bin/utils/configLogger";
+import { setupWorkspace } from "./helpers";
+
+describe("config transactions", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function setup(): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    return workspace.root;
+  }
+
+  /**
+   * Adds a component entry to the frontend project
+   */
+  function addComponent(name: string) {
+    return updateConfig(async (config) => {
+      // Yield so concurrent updates would interleave without the lock
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      config.frontend!.components![name] = {
+        source: "manual",
+        files: [],
+        componentType: FrontendComponentType.COMPONENT,
+        savedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  it("keeps every concurrent update and leaves no lock or temp files", async () => {
+    const root = await setup();
+    const names = Array.from({ length: 8 }, (_, index) => `Widget${index}`);
+
+    await Promise.all(names.map(addComponent));
+
+    expect(Object.keys((await readConfig()).frontend!.components!).sort()).toEqual(names);
+    expect(await fs.readdir(root)).toEqual(["skaya.config.json"]);
+  });
+
+  /**
+   * Creates a lock held by the given process, as withFileLock does
+   * @returns The lock's owner entry
+   */
+  async function holdLock(lockPath: string, pid: number): Promise<string> {
+    const owner = `owner.${pid}.${Date.now()}.${Math.random().toString(36).slice(2)}`;
+    await fs.outputFile(path.join(lockPath, owner), "");
+    return owner;
+  }
+
+  function exitedPid(): number {
+    const exited = spawnSync(process.execPath, ["-e", "process.stdout.write(String(process.pid))"]);
+    return Number(exited.stdout.toString());
+  }
+
+  it("takes over a lock left by a process that exited", async () => {
+    const root = await setup();
+    await holdLock(path.join(root, "skaya.config.json.lock"), exitedPid());
+
+    await addComponent("Button");
+
+    expect((await readConfig()).frontend!.components!.Button).toBeDefined();
+    expect(await fs.pathExists(path.join(root, "skaya.config.json.lock"))).toBe(false);
+  });
+
+  it("lets waiters contending for a released or stale lock take it one at a time", async () => {
+    const root = await setup();
+    const lockPath = path.join(root, "skaya.config.json.lock");
+
+    // Held by a live process until the waiters are queued, then released
+    await holdLock(lockPath, process.pid);
+    const released = Array.from({ length: 6 }, (_, index) => `Released${index}`);
+    const waiting = Promise.all(released.map(addComponent));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await fs.remove(lockPath);
+    await waiting;
+
+    // Left by a process that exited, judged stale by every waiter at once
+    await holdLock(lockPath, exitedPid());
+    const takenOver = Array.from({ length: 6 }, (_, index) => `TakenOver${index}`);
+    await Promise.all(takenOver.map(addComponent));
+
+    expect(Object.keys((await readConfig()).frontend!.components!).sort()).toEqual(
+      [...released, ...takenOver].sort()
+    );
+    expect(await fs.readdir(root)).toEqual(["skaya.config.json"]);
+  });
+
+  it("does not take over a lock created after the stale one it found", async () => {
+    const root = await setup();
+    const lockPath = path.join(root, "skaya.config.json.lock");
+    await holdLock(lockPath, exitedPid());
+
+    // Between reading the stale lock and taking it over, another waiter takes
+    // it and releases it, and a third process creates a new lock
+    const readdir = fsPromises.readdir;
+    let other = "";
+    const spy = vi.spyOn(fsPromises, "readdir").mockImplementationOnce(async (...args: any[]) => {
+      const entries = await (readdir as any)(...args);
+      await fs.remove(lockPath);
+      other = await holdLock(lockPath, process.pid);
+      return entries;
+    });
+    try {
+      const adding = addComponent("Button");
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(await fs.readdir(lockPath)).toEqual([other]);
+      expect((await readConfig()).frontend!.components!.Button).toBeUndefined();
+
+      await fs.remove(lockPath);
+      await adding;
+      expect((await readConfig()).frontend!.components!.Button).toBeDefined();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("does not release a lock another process took over", async () => {
+    const root = await setup();
+    const lockPath = path.join(root, "skaya.config.json.lock");
+    const other = `owner.${process.pid}.${Date.now()}.other`;
+
+    await updateConfig(async () => {
+      // Taken over as stale while the update runs
+      const [owner] = await fs.readdir(lockPath);
+      await fs.rename(path.join(lockPath, owner), path.join(lockPath, other));
+    });
+
+    expect(await fs.readdir(lockPath)).toEqual([other]);
+  });
+
+  it("leaves the config untouched and releases the lock when an update fails", async () => {
+    const root = await setup();
+    const before = await fs.readFile(path.join(root, "skaya.config.json"), "utf-8");
+
+    await expect(
+      updateConfig((config) => {
+        config.frontend!.name = "renamed";
+        throw new Error("interrupted");
+      })
+    ).rejects.toThrow("interrupted");
+
+    expect(await fs.readFile(path.join(root, "skaya.config.json"), "utf-8")).toBe(before);
+    await addComponent("Button");
+    expect((await readConfig()).frontend!.name).not.toBe("renamed");
+  });
+});
@@ -0,0 +1,101 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { readConfig, updateConfig, writeConfig } from "../bin/utils/configLogger";
+import { CONFIG_SCHEMA_VERSION, ConfigValidationError } from "../bin/utils/configSchema";
+import { PROJECT_NAME, setupWorkspace } from "./helpers";
+
+describe("config schema", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+  let configPath: string;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function setupConfig(config: Record<string, unknown>): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    configPath = path.join(workspace.root, "skaya.config.json");
+    await fs.writeJson(configPath, config);
+    return workspace.root;
+  }
+
+  it("migrates a config without schemaVersion on read and saves it on the next change", async () => {
+    const root = await setupConfig({});
+    await fs.writeJson(configPath, {
+      frontend: {
+        name: PROJECT_NAME,
+        template: "custom",
+        components: {
+          Button: {
+            source: "template",
+            componentType: "component",
+            savedAt: "2025-01-02T03:04:05.000Z",
+            files: [path.join(root, PROJECT_NAME, "src/components/Button/Button.tsx")],
+          },
+        },
+      },
+    });
+
+    const config = await readConfig();
+
+    expect(config.schemaVersion).toBe(CONFIG_SCHEMA_VERSION);
+    expect(config.frontend!.components!.Button).toMatchObject({
+      files: [`${PROJECT_NAME}/src/components/Button/Button.tsx`],
+      imports: [],
+      usedBy: [],
+    });
+    // Reading leaves the file alone
+    expect((await fs.readJson(configPath)).schemaVersion).toBeUndefined();
+
+    await updateConfig(() => undefined);
+
+    expect(await fs.readJson(configPath)).toEqual(config);
+  });
+
+  it("points validation errors at the offending keys", async () => {
+    await setupConfig({
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+      frontnd: {},
+      frontend: {
+        name: PROJECT_NAME,
+        template: "custom",
+        components: {
+          Button: { source: "robot", componentType: "route", savedAt: "2025-01-02", files: ["a.tsx", 3] },
+        },
+      },
+    });
+
+    const error = await readConfig().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues.map((issue) => issue.path)).toEqual([
+      "frontnd",
+      "frontend.components.Button.source",
+      "frontend.components.Button.componentType",
+      "frontend.components.Button.files[1]",
+    ]);
+    expect(error.message).toContain("frontend.components.Button.files[1]: must be a string");
+  });
+
+  it("refuses unparsable and newer configs", async () => {
+    await setupConfig({});
+    await fs.writeFile(configPath, "{ not json");
+    await expect(readConfig()).rejects.toThrow("(root): not valid JSON");
+
+    await fs.writeJson(configPath, { schemaVersion: CONFIG_SCHEMA_VERSION + 1 });
+    await expect(readConfig()).rejects.toThrow(`version ${CONFIG_SCHEMA_VERSION + 1} is newer than this skaya supports`);
+  });
+
+  it("does not write a config that fails validation", async () => {
+    await setupConfig({ schemaVersion: CONFIG_SCHEMA_VERSION });
+    const before = await fs.readFile(configPath, "utf-8");
+
+    await expect(
+      writeConfig({ frontend: { name: PROJECT_NAME, template: 42 as unknown as string } })
+    ).rejects.toThrow("frontend.template: must be a string (required)");
+    expect(await fs.readFile(configPath, "utf-8")).toBe(before);
+  });
+});
@@ -0,0 +1,177 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  BlockchainFramework,
+  FrontendComponentType,
+  ProjectType,
+} from "../bin/types/enums";
+import { scanExistingComponents } from "../bin/utils/ProjectScanner";
+import { generateFromTemplate } from "../src/scripts/templateGenerator";
+import {
+  PROJECT_NAME,
+  answerPrompts,
+  expectGoldenProject,
+  setupWorkspace,
+} from "./helpers";
+
+const CHAIN_PROJECT = "chain";
+
+const TOKEN_ABI = [
+  { type: "constructor", inputs: [{ name: "initialSupply", type: "uint256" }], stateMutability: "nonpayable" },
+  { type: "function", name: "name", inputs: [], outputs: [{ name: "", type: "string" }], stateMutability: "view" },
+  {
+    type: "function",
+    name: "balanceOf",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+  },
+  { type: "function", name: "deposit", inputs: [], outputs: [], stateMutability: "payable" },
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+];
+
+/**
+ * Adds a blockchain project to the workspace config next to the frontend
+ */
+async function addBlockchainProject(root: string, framework: BlockchainFramework): Promise<void> {
+  const configPath = path.join(root, "skaya.config.json");
+  const config = await fs.readJson(configPath);
+  config.blockchain = { name: CHAIN_PROJECT, template: framework, components: {} };
+  await fs.writeJson(configPath, config);
+}
+
+describe("contract client generation", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  it("generates a typed client and hooks from a Hardhat artifact", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    await addBlockchainProject(workspace.root, BlockchainFramework.HARDHAT);
+
+    const artifacts = path.join(workspace.root, CHAIN_PROJECT, "artifacts");
+    await fs.outputJson(path.join(artifacts, "src/contracts/Token/Token.sol/Token.json"), {
+      contractName: "Token",
+      sourceName: "src/contracts/Token/Token.sol",
+      abi: TOKEN_ABI,
+    });
+    await fs.outputJson(path.join(artifacts, "src/contracts/Token/Token.sol/Token.dbg.json"), {
+      buildInfo: "../../../../build-info/1.json",
+    });
+    await fs.outputJson(path.join(artifacts, "@openzeppelin/contracts/access/Ownable.sol/Ownable.json"), {
+      contractName: "Ownable",
+      sourceName: "@openzeppelin/contracts/access/Ownable.sol",
+      abi: TOKEN_ABI,
+    });
+    // A REST api folder must not be picked up as a contract client
+    await fs.outputFile(path.join(workspace.root, PROJECT_NAME, "src/apis/Users/index.ts"), "export {};\n");
+
+    answerPrompts({});
+    const { createdFiles } = await generateFromTemplate({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.CONTRACT_CLIENT,
+      fileName: "Token",
+    });
+
+    expect(createdFiles.map((file) => path.basename(file))).toEqual([
+      "Token.ts",
+      "Token.addresses.ts",
+      "useToken.ts",
+    ]);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      const clients = await scanExistingComponents(ProjectType.FRONTEND, FrontendComponentType.CONTRACT_CLIENT);
+      expect(clients.map((client) => client.name)).toEqual(["Token"]);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+    await expectGoldenProject(workspace.root, "contract-client");
+  });
+
+  it("reads Foundry artifacts and keeps deployed addresses on regeneration", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    await addBlockchainProject(workspace.root, BlockchainFramework.FOUNDRY);
+
+    const chainRoot = path.join(workspace.root, CHAIN_PROJECT);
+    await fs.outputJson(path.join(chainRoot, "out/Token.sol/Token.json"), {
+      abi: TOKEN_ABI,
+      ast: { absolutePath: "src/contracts/Token/Token.sol" },
+    });
+    await fs.outputJson(path.join(chainRoot, "out/Test.sol/Test.json"), {
+      abi: TOKEN_ABI,
+      ast: { absolutePath: "lib/forge-std/src/Test.sol" },
+    });
+    await fs.outputJson(path.join(chainRoot, "broadcast/Token.s.sol/31337/run-latest.json"), {
+      transactions: [
+        {
+          transactionType: "CREATE",
+          contractName: "Token",
+          contractAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        },
+      ],
+    });
+
+    answerPrompts({ contractName: "Token" });
+    const { createdFiles } = await generateFromTemplate({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.CONTRACT_CLIENT,
+      fileName: "Wallet",
+    });
+    const [clientFile, addressesFile, hooksFile] = createdFiles;
+
+    expect(await fs.readFile(clientFile, "utf-8")).toContain("out/Token.sol/Token.json");
+    expect(await fs.readFile(hooksFile, "utf-8")).toContain("export function useWalletTransferEvent(");
+    expect(await fs.readFile(addressesFile, "utf-8")).toContain(
+      '31337: "0x5FbDB2315678afecb367f032d93F642f64180aa3",'
+    );
+
+    await fs.writeFile(addressesFile, "// edited\n");
+    await generateFromTemplate({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.CONTRACT_CLIENT,
+      fileName: "Wallet",
+    });
+    expect(await fs.readFile(addressesFile, "utf-8")).toBe("// edited\n");
+  });
+
+  it("fails when the blockchain project has not been compiled", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    await addBlockchainProject(workspace.root, BlockchainFramework.HARDHAT);
+    answerPrompts({});
+
+    await expect(
+      generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.CONTRACT_CLIENT,
+        fileName: "Token",
+      })
+    ).rejects.toThrow(/No compiled contracts found/);
+  });
+});
@@ -0,0 +1,52 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FakeProvider, hashPrompt } from "../src/ai/providers/FakeProvider";
+import { AIProvider } from "../src/ai/providers";
+import { AIProviderType } from "../bin/types/enums";
+
+describe("FakeProvider", () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), "skaya-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(fixturesDir);
+  });
+
+  it("replays the response recorded for the prompt hash", async () => {
+    await fs.writeJson(path.join(fixturesDir, `${hashPrompt("system", "user")}.json`), {
+      systemPrompt: "system",
+      userPrompt: "user",
+      response: "recorded answer",
+    });
+
+    const provider = new FakeProvider("recorded", fixturesDir);
+
+    await expect(provider.generate("system", "user")).resolves.toEqual({ text: "recorded answer" });
+  });
+
+  it("fails with the prompt hash when nothing was recorded", async () => {
+    const provider = new FakeProvider("recorded", fixturesDir);
+
+    await expect(provider.generate("system", "other")).rejects.toThrow(hashPrompt("system", "other"));
+  });
+
+  it("records missing responses from the wrapped provider once", async () => {
+    let calls = 0;
+    const upstream: AIProvider = {
+      name: AIProviderType.LOCAL,
+      model: "test",
+      generate: async () => ({ text: `live answer ${++calls}` }),
+    };
+    const provider = new FakeProvider("recorded", fixturesDir, upstream);
+
+    await expect(provider.generate("system", "user")).resolves.toEqual({ text: "live answer 1" });
+    await expect(provider.generate("system", "user")).resolves.toEqual({ text: "live answer 1" });
+    expect(calls).toBe(1);
+    expect(await fs.readdir(fixturesDir)).toEqual([`${hashPrompt("system", "user")}.json`]);
+  });
+});
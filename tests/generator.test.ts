@@ -0,0 +1,260 @@
+import { spawnSync } from "child_process";
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AIProviderType,
+  AIResponseMode,
+  ApiType,
+  FrontendComponentType,
+  ProjectType,
+} from "../bin/types/enums";
+import { readConfig } from "../bin/utils/configLogger";
+import { MissingAnswerError } from "../bin/utils/prompt";
+import { createFile } from "../src/action";
+import { AIQuotaError } from "../src/ai/providers";
+import { FakeProvider } from "../src/ai/providers/FakeProvider";
+import { generateFromTemplate } from "../src/scripts/templateGenerator";
+import { handleApiComponentType } from "../src/scripts/FolderCreator/FrontendFileCreator/Api";
+import TemplateService from "../src/services/TemplateService";
+import {
+  PROJECT_NAME,
+  answerPrompts,
+  expectGoldenProject,
+  setupWorkspace,
+} from "./helpers";
+
+describe("generator pipeline", () => {
+  let root: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ root, cleanup } = await setupWorkspace());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  describe("saveTemplateFiles", () => {
+    it("replaces component tokens in every template file", async () => {
+      const templateFiles = await TemplateService.getTemplateFilesForType(
+        "Card",
+        FrontendComponentType.COMPONENT,
+        ProjectType.FRONTEND
+      );
+
+      const createdFiles = await TemplateService.saveTemplateFiles({
+        templateFiles,
+        fileName: "Card",
+        targetFolder: `${PROJECT_NAME}/src/components`,
+        componentType: FrontendComponentType.COMPONENT,
+      });
+
+      expect(createdFiles.map((file) => path.relative(root, file))).toEqual([
+        path.join(PROJECT_NAME, "src/components/Card/Card.tsx"),
+        path.join(PROJECT_NAME, "src/components/Card/Card.stories.tsx"),
+        path.join(PROJECT_NAME, "src/components/Card/Card.test.tsx"),
+        path.join(PROJECT_NAME, "src/components/Card/Card.css"),
+      ]);
+      await expectGoldenProject(root, "save-component");
+    });
+  });
+
+  describe("generateFromTemplate", () => {
+    it("generates a page from templates when AI is declined", async () => {
+      answerPrompts({ useAI: false });
+
+      const result = await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.PAGE,
+        fileName: "Home",
+      });
+
+      expect(result.aiDescription).toBeUndefined();
+      await expectGoldenProject(root, "template-page");
+    });
+
+    it("generates a component with AI", async () => {
+      answerPrompts({
+        useAI: true,
+        description: "A primary call-to-action button with a loading state",
+      });
+
+      const result = await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Button",
+      });
+
+      expect(result.aiDescription).toBe("A primary call-to-action button with a loading state");
+      expect(result.imports).toEqual([]);
+      await expectGoldenProject(root, "ai-component");
+    });
+
+    it("passes selected imports to the AI prompts", async () => {
+      answerPrompts({ useAI: false });
+      await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Button",
+      });
+
+      answerPrompts({
+        useAI: true,
+        description: "Landing page with a hero section and a sign up button",
+        selectedRequiredImports: ["component"],
+        componentImports: ["Button"],
+      });
+      const result = await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.PAGE,
+        fileName: "Landing",
+      });
+
+      expect(result.imports?.map((imp) => imp.name)).toEqual(["Button"]);
+      // No tsconfig alias, so components are imported relative to the page folder
+      expect(result.context).toMatchObject({ componentsImport: "../../components", sources: [] });
+      await expectGoldenProject(root, "ai-page-with-imports");
+    });
+
+    it("generates every file from one structured AI response", async () => {
+      answerPrompts({ useAI: true, description: "A small status badge with a tone prop" });
+
+      await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Badge",
+        ai: { responseMode: AIResponseMode.STRUCTURED },
+        skipReview: true,
+      });
+
+      await expectGoldenProject(root, "ai-structured-component");
+    });
+
+    it("falls back to one call per file when the structured response is unusable", async () => {
+      answerPrompts({
+        useAI: true,
+        description: "A primary call-to-action button with a loading state",
+      });
+
+      // The recorded structured response is prose instead of the files
+      await generateFromTemplate({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Button",
+        ai: { responseMode: AIResponseMode.STRUCTURED },
+      });
+
+      await expectGoldenProject(root, "ai-component");
+    });
+
+    it("fails without an AI prompt when prompts are disabled", async () => {
+      answerPrompts({ useAI: true });
+
+      await expect(
+        generateFromTemplate({
+          projectType: ProjectType.FRONTEND,
+          componentType: FrontendComponentType.COMPONENT,
+          fileName: "Button",
+        })
+      ).rejects.toThrow(MissingAnswerError);
+
+      expect(await fs.pathExists(path.join(root, PROJECT_NAME))).toBe(false);
+    });
+
+    it("writes nothing and exits non-zero when no API key is configured", async () => {
+      const env = Object.fromEntries(
+        Object.entries(process.env).filter(([name]) => !/^SKAYA_/i.test(name))
+      );
+      const cli = spawnSync(
+        process.execPath,
+        [require.resolve("ts-node/dist/bin-transpile"), path.resolve(__dirname, "../bin/skaya.ts"), "create", "component", "-p", "frontend", "-f", "card",
+          "--ai", "-d", "a card", "--provider", "gemini", "--non-interactive"],
+        { cwd: root, env: { ...env, HOME: root }, encoding: "utf-8" }
+      );
+
+      expect(cli.status).toBe(1);
+      expect(cli.stderr).toContain("SKAYA_GEMINI_API_KEY");
+      expect(cli.stderr).toContain("nothing was written");
+      expect(await fs.pathExists(path.join(root, PROJECT_NAME))).toBe(false);
+      expect((await readConfig()).frontend!.components).toEqual({});
+    }, 60_000);
+
+    it("writes nothing when the provider rejects the request", async () => {
+      answerPrompts({
+        useAI: true,
+        description: "A primary call-to-action button with a loading state",
+      });
+      const generate = vi
+        .spyOn(FakeProvider.prototype, "generate")
+        .mockRejectedValue(new AIQuotaError(AIProviderType.FAKE, "billing limit reached"));
+
+      try {
+        await expect(
+          createFile({
+            projectType: ProjectType.FRONTEND,
+            componentType: FrontendComponentType.COMPONENT,
+            fileName: "Button",
+          })
+        ).rejects.toThrow("quota exhausted");
+      } finally {
+        generate.mockRestore();
+      }
+
+      expect(await fs.pathExists(path.join(root, PROJECT_NAME))).toBe(false);
+      expect((await readConfig()).frontend!.components).toEqual({});
+    });
+  });
+
+  describe("handleApiComponentType", () => {
+    const apiFolder = `${PROJECT_NAME}/src/apis`;
+
+    it("creates the redux store, slice and endpoint", async () => {
+      answerPrompts({
+        selectedApiType: ApiType.REDUX,
+        apiId: 1,
+        withAuth: true,
+        url: "https://api.example.com/users/",
+        method: "GET",
+      });
+
+      const createdFiles = await handleApiComponentType(
+        ProjectType.FRONTEND,
+        FrontendComponentType.API,
+        apiFolder,
+        "Users"
+      );
+
+      expect(createdFiles.map((file) => path.relative(root, file)).sort()).toEqual([
+        path.join(apiFolder, "Users/index.ts"),
+        path.join(apiFolder, "apiEndpoints.ts"),
+        path.join(apiFolder, "backendRequest.ts"),
+        path.join(apiFolder, "redux/store.tsx"),
+        path.join(apiFolder, "redux/storeProvider.tsx"),
+      ]);
+      await expectGoldenProject(root, "api-redux");
+    });
+
+    it("updates an existing endpoint in place on re-run", async () => {
+      const endpoint = {
+        selectedApiType: ApiType.WITHOUT_REDUX,
+        apiId: 1,
+        withAuth: true,
+        url: "https://api.example.com/users/",
+        method: "GET",
+      };
+      answerPrompts(endpoint);
+      await handleApiComponentType(ProjectType.FRONTEND, FrontendComponentType.API, apiFolder, "Users");
+      answerPrompts({ ...endpoint, apiId: 2, url: "https://api.example.com/orders/" });
+      await handleApiComponentType(ProjectType.FRONTEND, FrontendComponentType.API, apiFolder, "Orders");
+      answerPrompts({ ...endpoint, withAuth: false, method: "POST" });
+      await handleApiComponentType(ProjectType.FRONTEND, FrontendComponentType.API, apiFolder, "Users");
+
+      const endpoints = await fs.readFile(path.join(root, apiFolder, "apiEndpoints.ts"), "utf-8");
+      expect(endpoints.match(/USERS:/g)).toHaveLength(1);
+      expect(endpoints.match(/ORDERS:/g)).toHaveLength(1);
+      await expectGoldenProject(root, "api-rerun");
+    });
+  });
+});
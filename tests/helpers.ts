@@ -0,0 +1,82 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { expect } from "vitest";
+import { setPresetAnswers } from "../bin/utils/prompt";
+
+export const FIXTURES_DIR = path.join(__dirname, "fixtures", "ai");
+export const GOLDEN_DIR = path.join(__dirname, "__golden__");
+export const PROJECT_NAME = "app";
+
+/**
+ * Creates a temp workspace with a project named PROJECT_NAME that uses the
+ * fake AI provider, and makes it the working directory.
+ * @param projectType - Config key of the project, frontend by default
+ * @param template - Template recorded for the project, e.g. a blockchain framework
+ * @returns A cleanup function restoring the previous working directory
+ */
+export async function setupWorkspace(
+  projectType: string = "frontend",
+  template: string = "custom"
+): Promise<{ root: string; cleanup: () => Promise<void> }> {
+  const originalCwd = process.cwd();
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "skaya-test-"));
+
+  await fs.writeJson(path.join(root, "skaya.config.json"), {
+    ai: { provider: "fake", fixturesDir: FIXTURES_DIR },
+    [projectType]: { name: PROJECT_NAME, template, components: {} },
+  });
+  process.chdir(root);
+
+  return {
+    root,
+    cleanup: async () => {
+      process.chdir(originalCwd);
+      setPresetAnswers({});
+      await fs.remove(root);
+    },
+  };
+}
+
+/**
+ * Answers every prompt from the given presets, failing on anything else
+ */
+export function answerPrompts(answers: Record<string, unknown>): void {
+  setPresetAnswers(answers, { nonInteractive: true });
+}
+
+/**
+ * Lists files under a directory as sorted, forward-slash relative paths
+ */
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (current: string) => {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else {
+        files.push(path.relative(dir, fullPath).split(path.sep).join("/"));
+      }
+    }
+  };
+  await walk(dir);
+  return files.sort();
+}
+
+/**
+ * Compares every file of the generated project against golden files in
+ * `__golden__/<caseName>`. Update them with `vitest run -u`.
+ */
+export async function expectGoldenProject(root: string, caseName: string): Promise<void> {
+  const projectDir = path.join(root, PROJECT_NAME);
+  const files = await listFiles(projectDir);
+
+  await expect(files.join("\n") + "\n").toMatchFileSnapshot(
+    path.join(GOLDEN_DIR, caseName, "files.txt")
+  );
+  for (const file of files) {
+    const content = await fs.readFile(path.join(projectDir, file), "utf-8");
+    await expect(content).toMatchFileSnapshot(path.join(GOLDEN_DIR, caseName, `${file}.snap`));
+  }
+}
@@ -0,0 +1,109 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiType, FrontendComponentType, ProjectType } from "../bin/types/enums";
+import { readConfig } from "../bin/utils/configLogger";
+import { readHistory, recordTransaction, trackFileChange } from "../bin/utils/history";
+import { createFile, redoLastChange, undoLastChange } from "../src/action";
+import { PROJECT_NAME, answerPrompts, listFiles, setupWorkspace } from "./helpers";
+
+describe("undo and redo", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function setup(): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    return workspace.root;
+  }
+
+  it("undoes and redoes a create, files and config entry together", async () => {
+    const root = await setup();
+    const projectDir = path.join(root, PROJECT_NAME);
+    answerPrompts({ useAI: false });
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+    });
+    const created = await listFiles(projectDir);
+
+    await undoLastChange();
+
+    expect(await fs.pathExists(projectDir)).toBe(false);
+    expect((await readConfig()).frontend!.components).toEqual({});
+    expect((await readHistory()).undone.map((entry) => entry.name)).toEqual(["Button"]);
+
+    await redoLastChange();
+
+    expect(await listFiles(projectDir)).toEqual(created);
+    expect((await readConfig()).frontend!.components!.Button.source).toBe("template");
+    await expect(redoLastChange()).rejects.toThrow("Nothing to redo.");
+  });
+
+  it("restores shared files touched by a later create", async () => {
+    const root = await setup();
+    const endpointsFile = path.join(root, PROJECT_NAME, "src/apis/apiEndpoints.ts");
+    const endpoint = {
+      useAI: false,
+      selectedApiType: ApiType.WITHOUT_REDUX,
+      apiId: 1,
+      withAuth: true,
+      url: "https://api.example.com/users/",
+      method: "GET",
+    };
+    answerPrompts(endpoint);
+    await createFile({ projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.API, fileName: "Users" });
+    const usersOnly = await fs.readFile(endpointsFile, "utf-8");
+    answerPrompts({ ...endpoint, apiId: 2, url: "https://api.example.com/orders/" });
+    await createFile({ projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.API, fileName: "Orders" });
+
+    await undoLastChange();
+
+    expect(await fs.readFile(endpointsFile, "utf-8")).toBe(usersOnly);
+    expect(await fs.pathExists(path.join(root, PROJECT_NAME, "src/apis/Orders"))).toBe(false);
+    expect(Object.keys((await readConfig()).frontend!.components!)).toEqual(["Users"]);
+  });
+
+  it("records what a command wrote before it failed, so it can be undone", async () => {
+    const root = await setup();
+    const written = path.join(root, PROJECT_NAME, "src/components/Button/Button.tsx");
+
+    await expect(
+      recordTransaction(
+        { command: "create", projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.COMPONENT, name: "Button" },
+        async () => {
+          await trackFileChange(written);
+          await fs.outputFile(written, "export {};\n");
+          throw new Error("tests failed");
+        }
+      )
+    ).rejects.toThrow("tests failed");
+
+    expect((await readHistory()).applied.map((entry) => entry.name)).toEqual(["Button"]);
+    await undoLastChange();
+    expect(await fs.pathExists(written)).toBe(false);
+  });
+
+  it("refuses to undo over files edited by hand", async () => {
+    const root = await setup();
+    answerPrompts({ useAI: false });
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+    });
+    const buttonFile = path.join(root, PROJECT_NAME, "src/components/Button/Button.tsx");
+    await fs.appendFile(buttonFile, "// tweaked\n");
+
+    await expect(undoLastChange()).rejects.toThrow(
+      `these files were edited since:\n  ${PROJECT_NAME}/src/components/Button/Button.tsx`
+    );
+    expect(await fs.pathExists(path.join(root, PROJECT_NAME, "src/components/Button/Button.css"))).toBe(true);
+    expect((await readHistory()).applied).toHaveLength(1);
+  });
+});
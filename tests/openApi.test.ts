@@ -0,0 +1,194 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { FrontendComponentType, ProjectType } from "../bin/types/enums";
+import { generateFromTemplate } from "../src/scripts/templateGenerator";
+import { PROJECT_NAME, answerPrompts, expectGoldenProject, setupWorkspace } from "./helpers";
+
+const PETSTORE = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.0.0
+servers:
+  - url: https://{host}/v1
+    variables:
+      host:
+        default: petstore.example.com
+security:
+  - bearerAuth: []
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List all pets
+      tags: [pets]
+      security: []
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+      responses:
+        "200":
+          description: A page of pets
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: "#/components/schemas/Pet"
+    post:
+      operationId: createPet
+      tags: [pets]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/NewPet"
+      responses:
+        "201":
+          description: Created
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema:
+          type: string
+    get:
+      operationId: showPetById
+      tags: [pets]
+      responses:
+        "200":
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+    delete:
+      operationId: deletePet
+      tags: [pets]
+      responses:
+        "204":
+          description: Deleted
+  /store/inventory:
+    get:
+      operationId: getInventory
+      tags: [store]
+      responses:
+        "200":
+          description: Stock per status
+          content:
+            application/json:
+              schema:
+                type: object
+                additionalProperties:
+                  type: integer
+    head:
+      operationId: checkInventory
+      responses:
+        "200":
+          description: Exists
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+      schema:
+        type: integer
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+          description: The pet's name
+        tag:
+          type: string
+          nullable: true
+        status:
+          type: string
+          enum: [available, sold]
+    Pet:
+      allOf:
+        - $ref: "#/components/schemas/NewPet"
+        - type: object
+          required: [id]
+          properties:
+            id:
+              type: integer
+`;
+
+describe("OpenAPI generation", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function generate(spec: string): Promise<string[]> {
+    await fs.outputFile("petstore.yaml", spec);
+    const { createdFiles } = await generateFromTemplate({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.API,
+      fileName: "Petstore",
+      openApiSpec: "petstore.yaml",
+    });
+    return createdFiles;
+  }
+
+  it("generates endpoints, types and a slice per tag", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({});
+
+    const createdFiles = await generate(PETSTORE);
+
+    expect(createdFiles.map((file) => path.relative(path.join(workspace.root, PROJECT_NAME), file)).sort()).toEqual([
+      "src/apis/Petstore/Pets/index.ts",
+      "src/apis/Petstore/Store/index.ts",
+      "src/apis/Petstore/types.ts",
+      "src/apis/apiEndpoints.ts",
+      "src/apis/backendRequest.ts",
+      "src/apis/redux/store.tsx",
+      "src/apis/redux/storeProvider.tsx",
+    ]);
+    await expectGoldenProject(workspace.root, "api-openapi");
+  });
+
+  it("updates endpoints in place and drops removed operations on re-run", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({});
+    const apisDir = path.join(workspace.root, PROJECT_NAME, "src/apis");
+
+    await generate(PETSTORE);
+    const withoutStore = PETSTORE.replace(/  \/store\/inventory:[\s\S]*?(?=components:)/, "").replace(
+      "default: petstore.example.com",
+      "default: api.example.com"
+    );
+    await generate(withoutStore);
+
+    const endpoints = await fs.readFile(path.join(apisDir, "apiEndpoints.ts"), "utf-8");
+    expect(endpoints.match(/SHOW_PET_BY_ID:/g)).toHaveLength(1);
+    expect(endpoints).toContain('url: "https://api.example.com/v1/pets/{petId}"');
+    expect(endpoints).not.toContain("GET_INVENTORY");
+    // Ids stay with their endpoints
+    expect(endpoints).toMatch(/DELETE_PET: {\n  apiId: 4,/);
+    expect(await fs.pathExists(path.join(apisDir, "Petstore/Store"))).toBe(false);
+    expect(await fs.readFile(path.join(apisDir, "Petstore/types.ts"), "utf-8")).not.toContain("GetInventory");
+  });
+
+  it("rejects documents that are not OpenAPI 3", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({});
+
+    await expect(generate('swagger: "2.0"\npaths: {}\n')).rejects.toThrow(/Swagger 2.0 is not supported/);
+  });
+});
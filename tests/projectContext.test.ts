@@ -0,0 +1,70 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FrontendComponentType, ProjectType } from "../bin/types/enums";
+import { buildProjectContext } from "../src/ai/projectContext";
+import { PROJECT_NAME, setupWorkspace } from "./helpers";
+
+describe("buildProjectContext", () => {
+  let root: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ root, cleanup } = await setupWorkspace());
+    const projectDir = path.join(root, PROJECT_NAME);
+    await fs.outputJson(path.join(projectDir, "package.json"), {
+      dependencies: { react: "^19.0.0", "@mui/material": "^6.1.0" },
+      devDependencies: { vitest: "^3.0.0" },
+    });
+    await fs.outputFile(
+      path.join(projectDir, "tsconfig.json"),
+      `{\n  // Next.js defaults\n  "compilerOptions": { "baseUrl": ".", "paths": { "~/*": ["./src/*"] } }\n}\n`
+    );
+    await fs.outputJson(path.join(projectDir, ".eslintrc.json"), { rules: { "react/prop-types": "off" } }, { spaces: 2 });
+    await fs.outputFile(path.join(projectDir, "src/apis/apiEndpoints.ts"), "export const endpoints = { users: '/users' };\n");
+    for (const name of ["Avatar", "Button", "Card"]) {
+      await fs.outputFile(path.join(projectDir, `src/components/${name}/${name}.tsx`), `export const ${name} = () => null;\n`);
+      await fs.outputFile(path.join(projectDir, `src/components/${name}/${name}.test.tsx`), "// test\n");
+    }
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  const build = (budgetTokens?: number) =>
+    buildProjectContext({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Badge",
+      targetFolder: `${PROJECT_NAME}/src/components`,
+      exclude: ["Button"],
+      budgetTokens,
+    });
+
+  it("collects aliases, dependencies, lint rules, endpoints and siblings", async () => {
+    const context = await build();
+
+    expect(context.componentsImport).toBe("~/components");
+    expect(context.sources).toEqual([
+      `${PROJECT_NAME}/tsconfig.json`,
+      `${PROJECT_NAME}/package.json`,
+      `${PROJECT_NAME}/.eslintrc.json`,
+      `${PROJECT_NAME}/src/apis/apiEndpoints.ts`,
+      `${PROJECT_NAME}/src/components/Avatar/Avatar.tsx`,
+      `${PROJECT_NAME}/src/components/Card/Card.tsx`,
+    ]);
+    expect(context.text).toContain("- ~/* -> ./src/*");
+    expect(context.text).toContain("- UI and styling libraries, use them: @mui/material@^6.1.0");
+    expect(context.text).toContain('"react/prop-types": "off"');
+    expect(context.text).toContain("export const Avatar = () => null;");
+    expect(context.tokens).toBe(Math.ceil(context.text.length / 4));
+  });
+
+  it("leaves out what does not fit the budget", async () => {
+    const context = await build(60);
+
+    expect(context.sources).toEqual([`${PROJECT_NAME}/tsconfig.json`, `${PROJECT_NAME}/package.json`]);
+    expect(context.tokens).toBeLessThanOrEqual(60);
+  });
+});
@@ -0,0 +1,65 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ProjectType } from "../bin/types/enums";
+import { PROMPTS_DIR, ejectPrompts, renderPrompt, renderPromptTemplate } from "../src/ai/prompts";
+import { setupWorkspace } from "./helpers";
+
+describe("prompt templates", () => {
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ cleanup } = await setupWorkspace());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("fills in variables and sections without expanding values", () => {
+    const template = "Name: {{name}}\n{{#update}}Update it.{{/update}}{{^update}}Create it.{{/update}}";
+
+    expect(renderPromptTemplate(template, { name: "{{update}}", update: true }, "t.md")).toBe(
+      "Name: {{update}}\nUpdate it."
+    );
+    expect(renderPromptTemplate(template, { name: "Button", update: undefined }, "t.md")).toBe(
+      "Name: Button\nCreate it."
+    );
+    expect(() => renderPromptTemplate("{{nmae}}", { name: "Button" }, "t.md")).toThrow(
+      "t.md: unknown variable {{nmae}}, use one of name"
+    );
+  });
+
+  it("prefers project overrides, most specific first", async () => {
+    const lookup = { projectType: ProjectType.FRONTEND, componentType: "page", kinds: ["file"] };
+    const variables = { base: "BASE", targetFileName: "Home.json" };
+    expect(await renderPrompt(lookup, "system", variables)).toBe("BASE");
+
+    await fs.outputFile(path.join(PROMPTS_DIR, "frontend/file.system.md"), "Project {{targetFileName}}\n");
+    await fs.outputFile(path.join(PROMPTS_DIR, "frontend/page/file.system.md"), "Page {{targetFileName}}\n");
+
+    expect(await renderPrompt(lookup, "system", variables)).toBe("Page Home.json");
+    expect(await renderPrompt({ ...lookup, componentType: "component" }, "system", variables)).toBe(
+      "Project Home.json"
+    );
+    await expect(renderPrompt({ ...lookup, kinds: ["missing"] }, "system", variables)).rejects.toThrow(
+      "no prompt template found"
+    );
+  });
+
+  it("ejects the defaults without overwriting edited templates", async () => {
+    const first = await ejectPrompts();
+    expect(first.copied).toContain(path.join("frontend", "component.user.md"));
+    expect(first.skipped).toEqual([]);
+
+    const edited = path.join(PROMPTS_DIR, "frontend", "component.user.md");
+    await fs.writeFile(edited, "Edited\n");
+    const second = await ejectPrompts();
+    expect(second.copied).toEqual([]);
+    expect(second.skipped).toEqual(first.copied);
+    expect(await fs.readFile(edited, "utf-8")).toBe("Edited\n");
+
+    await ejectPrompts(true);
+    expect(await fs.readFile(edited, "utf-8")).not.toBe("Edited\n");
+  });
+});
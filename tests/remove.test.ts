@@ -0,0 +1,150 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ApiType,
+  BackendComponentType,
+  FrontendComponentType,
+  ProjectType,
+} from "../bin/types/enums";
+import { readConfig, saveProjectComponentConfig } from "../bin/utils/configLogger";
+import { createFile, removeFile } from "../src/action";
+import TemplateService from "../src/services/TemplateService";
+import { PROJECT_NAME, answerPrompts, setupWorkspace } from "./helpers";
+
+describe("component removal", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  /**
+   * Creates a Button component imported by a Profile page
+   */
+  async function setupImportedComponent(): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({ useAI: false });
+
+    const projectType = ProjectType.FRONTEND;
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Button" });
+    await createFile({ projectType, componentType: FrontendComponentType.PAGE, fileName: "Profile" });
+    await saveProjectComponentConfig(projectType, FrontendComponentType.PAGE, "Profile", {
+      imports: [{ name: "Button", data: "", componentType: FrontendComponentType.COMPONENT }],
+    });
+    return path.join(workspace.root, PROJECT_NAME, "src");
+  }
+
+  it("refuses to remove a component that is still imported", async () => {
+    const srcDir = await setupImportedComponent();
+    answerPrompts({ confirmRemove: true });
+
+    await expect(
+      removeFile({
+        projectType: ProjectType.FRONTEND,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Button",
+      })
+    ).rejects.toThrow("Button is still imported by Profile");
+    expect(await fs.pathExists(path.join(srcDir, "components/Button/Button.tsx"))).toBe(true);
+
+    await removeFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.PAGE,
+      fileName: "Profile",
+    });
+
+    const components = (await readConfig()).frontend!.components!;
+    expect(Object.keys(components)).toEqual(["Button"]);
+    expect(components.Button.usedBy).toEqual([]);
+    expect(await fs.pathExists(path.join(srcDir, "pages/ProfilePage"))).toBe(false);
+  });
+
+  it("removes an imported component with force and drops it from its importers", async () => {
+    const srcDir = await setupImportedComponent();
+    answerPrompts({ confirmRemove: true });
+
+    await removeFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "button",
+      force: true,
+    });
+
+    const components = (await readConfig()).frontend!.components!;
+    expect(components.Button).toBeUndefined();
+    expect(components.Profile.imports).toEqual([]);
+    expect(await fs.pathExists(path.join(srcDir, "components/Button"))).toBe(false);
+  });
+
+  it("keeps everything when the removal is not confirmed", async () => {
+    const srcDir = await setupImportedComponent();
+    answerPrompts({});
+
+    await removeFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.PAGE,
+      fileName: "Profile",
+    });
+
+    expect((await readConfig()).frontend!.components!.Profile).toBeDefined();
+    expect(await fs.pathExists(path.join(srcDir, "pages/ProfilePage/Profile.tsx"))).toBe(true);
+  });
+
+  it("strips the endpoint and slice of an API but keeps shared files", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    const apisDir = path.join(workspace.root, PROJECT_NAME, "src/apis");
+
+    for (const [fileName, apiId] of [["Users", 1], ["Posts", 2]] as const) {
+      answerPrompts({
+        selectedApiType: ApiType.WITHOUT_REDUX,
+        apiId,
+        withAuth: false,
+        url: `/${fileName.toLowerCase()}`,
+        method: "GET",
+      });
+      await createFile({ projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.API, fileName });
+    }
+
+    answerPrompts({ confirmRemove: true });
+    await removeFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.API,
+      fileName: "Users",
+    });
+
+    const endpoints = await fs.readFile(path.join(apisDir, "apiEndpoints.ts"), "utf-8");
+    expect(endpoints).not.toContain("USERS");
+    expect(endpoints).toContain("POSTS: {");
+    expect(await fs.pathExists(path.join(apisDir, "Users"))).toBe(false);
+    expect(await fs.pathExists(path.join(apisDir, "Posts/index.ts"))).toBe(true);
+    expect(await fs.pathExists(path.join(apisDir, "backendRequest.ts"))).toBe(true);
+  });
+
+  it("unregisters a removed route from the router entry file", async () => {
+    const workspace = await setupWorkspace(ProjectType.BACKEND);
+    cleanup = workspace.cleanup;
+    const projectDir = path.join(workspace.root, PROJECT_NAME);
+    await TemplateService.cloneTemplate("express-ts", undefined, projectDir, ProjectType.BACKEND);
+    const routerIndex = path.join(projectDir, "src/routes/index.ts");
+    const originalIndex = await fs.readFile(routerIndex, "utf-8");
+
+    answerPrompts({ useAI: false });
+    await createFile({ projectType: ProjectType.BACKEND, componentType: BackendComponentType.ROUTE, fileName: "Users" });
+    expect(await fs.readFile(routerIndex, "utf-8")).toContain("usersRoute");
+
+    answerPrompts({ confirmRemove: true });
+    await removeFile({
+      projectType: ProjectType.BACKEND,
+      componentType: BackendComponentType.ROUTE,
+      fileName: "Users",
+    });
+
+    expect(await fs.readFile(routerIndex, "utf-8")).toBe(originalIndex);
+    expect(await fs.pathExists(path.join(projectDir, "src/routes/Users"))).toBe(false);
+    expect((await readConfig()).backend!.components).toEqual({});
+  });
+});
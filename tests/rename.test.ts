@@ -0,0 +1,121 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  BackendComponentType,
+  FrontendComponentType,
+  ProjectType,
+} from "../bin/types/enums";
+import { readConfig, saveProjectComponentConfig } from "../bin/utils/configLogger";
+import { createFile, renameFile } from "../src/action";
+import { replaceComponentName } from "../src/scripts/FolderCreator/RenameComponent";
+import TemplateService from "../src/services/TemplateService";
+import {
+  PROJECT_NAME,
+  answerPrompts,
+  expectGoldenProject,
+  setupWorkspace,
+} from "./helpers";
+
+describe("component rename", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  it("replaces the name in each casing without touching longer words", () => {
+    expect(
+      replaceComponentName(
+        "Card CardProps useCard card .card__title CARD_ID Cardinal discard",
+        "Card",
+        "Tile"
+      )
+    ).toBe("Tile TileProps useTile tile .tile__title TILE_ID Cardinal discard");
+  });
+
+  it("renames a component's files and identifiers and updates its importers", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({ useAI: false });
+
+    const projectType = ProjectType.FRONTEND;
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Button" });
+    await createFile({ projectType, componentType: FrontendComponentType.PAGE, fileName: "Landing" });
+    await saveProjectComponentConfig(projectType, FrontendComponentType.PAGE, "Landing", {
+      imports: [{ name: "Button", data: "", componentType: FrontendComponentType.COMPONENT }],
+    });
+    const landingFile = path.join(workspace.root, PROJECT_NAME, "src/pages/LandingPage/Landing.tsx");
+    await fs.writeFile(
+      landingFile,
+      [
+        "import Button from '@/components/Button/Button';",
+        "",
+        "export const Landing = () => <Button>Sign up</Button>;",
+        "",
+      ].join("\n")
+    );
+
+    await renameFile({
+      projectType,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "button",
+      newName: "Link",
+    });
+
+    await expectGoldenProject(workspace.root, "rename-component");
+    const components = (await readConfig()).frontend!.components!;
+    expect(Object.keys(components).sort()).toEqual(["Landing", "Link"]);
+    expect(components.Link.usedBy).toEqual(["Landing"]);
+    expect(components.Link.files.map((file) => path.basename(file)).sort()).toEqual([
+      "Link.css",
+      "Link.stories.tsx",
+      "Link.test.tsx",
+      "Link.tsx",
+    ]);
+    expect(components.Landing.imports!.map((imp) => imp.name)).toEqual(["Link"]);
+  });
+
+  it("moves a renamed route to its new mount path", async () => {
+    const workspace = await setupWorkspace(ProjectType.BACKEND);
+    cleanup = workspace.cleanup;
+    const projectDir = path.join(workspace.root, PROJECT_NAME);
+    await TemplateService.cloneTemplate("express-ts", undefined, projectDir, ProjectType.BACKEND);
+
+    answerPrompts({ useAI: false });
+    await createFile({ projectType: ProjectType.BACKEND, componentType: BackendComponentType.ROUTE, fileName: "Users" });
+    await renameFile({
+      projectType: ProjectType.BACKEND,
+      componentType: BackendComponentType.ROUTE,
+      fileName: "Users",
+      newName: "Members",
+    });
+
+    const routerIndex = await fs.readFile(path.join(projectDir, "src/routes/index.ts"), "utf-8");
+    expect(routerIndex).toContain("import membersRoute from './Members/Members';");
+    expect(routerIndex).toContain("router.use('/members', membersRoute);");
+    expect(routerIndex).not.toMatch(/users/i);
+    expect(await fs.pathExists(path.join(projectDir, "src/routes/Members/Members.test.ts"))).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir, "src/routes/Users"))).toBe(false);
+  });
+
+  it("refuses to rename onto an existing component", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({ useAI: false });
+
+    const projectType = ProjectType.FRONTEND;
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Button" });
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Link" });
+
+    await expect(
+      renameFile({
+        projectType,
+        componentType: FrontendComponentType.COMPONENT,
+        fileName: "Button",
+        newName: "Link",
+      })
+    ).rejects.toThrow("A component named Link already exists.");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { StructuredResponseError, parseStructuredFiles, stripCodeFences } from "../src/ai/responseParser";
+
+describe("stripCodeFences", () => {
+  it.each([
+    ["a fenced response", "```tsx\nconst a = 1;\n```", "const a = 1;"],
+    ["a language tag with symbols and CRLF", "```c++\r\nint a;\r\n```\r\n", "int a;"],
+    ["a lead-in line and trailing notes", "Here you go:\n\n```ts\nconst a = 1;\n```\nIt exports `a`.", "const a = 1;"],
+    ["a cut-off closing fence", "```ts\nconst a = 1;", "const a = 1;"],
+    ["nested fences in a fenced response", "```md\n# Doc\n```ts\nx\n```\n```", "# Doc\n```ts\nx\n```"],
+    ["an unfenced response", "  const a = 1;\n", "const a = 1;"],
+  ])("handles %s", (_, text, expected) => {
+    expect(stripCodeFences(text)).toBe(expected);
+  });
+
+  it("leaves fences inside unfenced code alone", () => {
+    const code = "/**\n * Example:\n * ```ts\n * run();\n * ```\n */\nexport function run() {}";
+    expect(stripCodeFences(code)).toBe(code);
+  });
+});
+
+describe("parseStructuredFiles", () => {
+  it("reads the files from fenced JSON, unwrapping fenced contents", () => {
+    const text = '```json\n{"files": [{"fileName": "A.tsx", "content": "```tsx\\nexport {};\\n```"}, {"fileName": "A.css", "content": ".a {}"}]}\n```';
+
+    expect(parseStructuredFiles(text, ["A.tsx", "A.css"])).toEqual([
+      { fileName: "A.tsx", content: "export {};" },
+      { fileName: "A.css", content: ".a {}" },
+    ]);
+  });
+
+  it("lists every mismatch with the expected files", () => {
+    const text = JSON.stringify({
+      files: [
+        { fileName: "A.tsx", content: "export {};" },
+        { fileName: "A.tsx", content: "again" },
+        { fileName: "B.tsx", content: "other" },
+        { fileName: "A.css", content: " " },
+      ],
+    });
+
+    const error = (() => {
+      try {
+        parseStructuredFiles(text, ["A.tsx", "A.css", "A.test.tsx"]);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(StructuredResponseError);
+    expect((error as StructuredResponseError).issues).toEqual([
+      "files[1].fileName: 'A.tsx' appears more than once",
+      "files[2].fileName: must be one of 'A.tsx', 'A.css', 'A.test.tsx'",
+      "files[3].content: must be a non-empty string",
+      "files: 'A.test.tsx' is missing",
+    ]);
+  });
+
+  it("rejects responses that are not JSON", () => {
+    expect(() => parseStructuredFiles("Sorry, I cannot help with that.", ["A.tsx"])).toThrow("no JSON object found");
+    expect(() => parseStructuredFiles("{ files: [] }", ["A.tsx"])).toThrow("not valid JSON");
+  });
+});
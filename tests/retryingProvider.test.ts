@@ -0,0 +1,154 @@
+import { GoogleGenerativeAIFetchError, GoogleGenerativeAIResponseError } from "@google/generative-ai";
+import OpenAI from "openai";
+import { describe, expect, it } from "vitest";
+import { AIProviderType } from "../bin/types/enums";
+import {
+  AIAuthError,
+  AICancelledError,
+  AIProvider,
+  AIProviderError,
+  AIQuotaError,
+  AIRateLimitError,
+  AISafetyError,
+  AITimeoutError,
+} from "../src/ai/providers";
+import { toGeminiError } from "../src/ai/providers/GeminiProvider";
+import { toOpenAIError } from "../src/ai/providers/OpenAIProvider";
+import { MAX_CONCURRENT_REQUESTS, RetryingProvider } from "../src/ai/providers/RetryingProvider";
+
+const provider = AIProviderType.OPENAI;
+
+function stubProvider(generate: AIProvider["generate"]): AIProvider {
+  return { name: provider, model: "gpt-4o", generate };
+}
+
+describe("RetryingProvider", () => {
+  it("retries retryable errors, waiting as long as the provider asks", async () => {
+    const failures = [new AIRateLimitError(provider, "429", 20), new AIProviderError(provider, "502", true)];
+    const started: number[] = [];
+    const retrying = new RetryingProvider(
+      stubProvider(async () => {
+        started.push(Date.now());
+        const failure = failures.shift();
+        if (failure) {
+          throw failure;
+        }
+        return { text: "answer" };
+      }),
+      { timeoutMs: 1_000, baseDelayMs: 1 }
+    );
+
+    await expect(retrying.generate("system", "user")).resolves.toEqual({ text: "answer" });
+    expect(started).toHaveLength(3);
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(15);
+  });
+
+  it("reports errors that retrying does not fix", async () => {
+    let calls = 0;
+    const failing = (error: Error) =>
+      new RetryingProvider(
+        stubProvider(async () => {
+          calls++;
+          throw error;
+        }),
+        { timeoutMs: 1_000, maxRetries: 2, baseDelayMs: 1 }
+      );
+
+    await expect(failing(new AIAuthError(provider, "401")).generate("s", "u")).rejects.toBeInstanceOf(AIAuthError);
+    expect(calls).toBe(1);
+    await expect(failing(new AIRateLimitError(provider, "429")).generate("s", "u")).rejects.toBeInstanceOf(AIRateLimitError);
+    expect(calls).toBe(4);
+    // Too long to wait for
+    await expect(failing(new AIRateLimitError(provider, "429", 3_600_000)).generate("s", "u")).rejects.toThrow("rate limited");
+    expect(calls).toBe(5);
+  });
+
+  it("abandons and aborts requests that take too long", async () => {
+    let signal: AbortSignal | undefined;
+    const retrying = new RetryingProvider(
+      stubProvider((_system, _user, options) => {
+        signal = options?.signal;
+        return new Promise(() => undefined);
+      }),
+      { timeoutMs: 20, maxRetries: 0 }
+    );
+
+    await expect(retrying.generate("system", "user")).rejects.toBeInstanceOf(AITimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("passes streamed text on and stops when the caller cancels", async () => {
+    let signal: AbortSignal | undefined;
+    const streamed: string[] = [];
+    const controller = new AbortController();
+    const retrying = new RetryingProvider(
+      stubProvider((_system, _user, options) => {
+        signal = options?.signal;
+        options?.onText?.("partial");
+        controller.abort();
+        return new Promise(() => undefined);
+      }),
+      { timeoutMs: 1_000, baseDelayMs: 1 }
+    );
+
+    const generation = retrying.generate("system", "user", {
+      signal: controller.signal,
+      onText: (text) => streamed.push(text),
+    });
+    await expect(generation).rejects.toBeInstanceOf(AICancelledError);
+    expect(streamed).toEqual(["partial"]);
+    expect(signal?.aborted).toBe(true);
+    await expect(retrying.generate("system", "user", { signal: controller.signal })).rejects.toBeInstanceOf(
+      AICancelledError
+    );
+  });
+
+  it("limits the requests in flight per provider", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const retrying = new RetryingProvider(
+      stubProvider(async () => {
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return { text: "answer" };
+      }),
+      { timeoutMs: 1_000 }
+    );
+
+    await Promise.all(Array.from({ length: 5 }, () => retrying.generate("system", "user")));
+    expect(maxActive).toBe(MAX_CONCURRENT_REQUESTS);
+  });
+});
+
+describe("provider errors", () => {
+  it("maps Gemini SDK errors", () => {
+    const retryInfo = { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "7s" };
+    expect(toGeminiError(new GoogleGenerativeAIFetchError("limit", 429, "Too Many Requests", [retryInfo]))).toMatchObject({
+      name: "AIRateLimitError",
+      retryable: true,
+      retryAfterMs: 7_000,
+    });
+    const dailyQuota = { "@type": "type.googleapis.com/google.rpc.QuotaFailure", violations: [{ quotaId: "RequestsPerDay" }] };
+    expect(toGeminiError(new GoogleGenerativeAIFetchError("limit", 429, "Too Many Requests", [dailyQuota]))).toBeInstanceOf(AIQuotaError);
+    expect(toGeminiError(new GoogleGenerativeAIFetchError("denied", 403, "Forbidden"))).toBeInstanceOf(AIAuthError);
+    expect(toGeminiError(new GoogleGenerativeAIFetchError("down", 503, "Unavailable"))).toMatchObject({ retryable: true });
+    expect(
+      toGeminiError(new GoogleGenerativeAIResponseError("[GoogleGenerativeAI Error]: Candidate was blocked due to SAFETY"))
+    ).toBeInstanceOf(AISafetyError);
+  });
+
+  it("maps OpenAI SDK errors", () => {
+    expect(toOpenAIError(provider, new OpenAI.RateLimitError(429, undefined, "slow down", { "retry-after": "2" }))).toMatchObject({
+      name: "AIRateLimitError",
+      retryAfterMs: 2_000,
+    });
+    expect(
+      toOpenAIError(provider, new OpenAI.RateLimitError(429, { code: "insufficient_quota" }, "quota", {}))
+    ).toBeInstanceOf(AIQuotaError);
+    expect(toOpenAIError(provider, new OpenAI.AuthenticationError(401, undefined, "bad key", {}))).toBeInstanceOf(AIAuthError);
+    expect(toOpenAIError(provider, new OpenAI.APIConnectionError({ message: "offline" }))).toMatchObject({ retryable: true });
+    const bug = new TypeError("not an SDK error");
+    expect(toOpenAIError(provider, bug)).toBe(bug);
+  });
+});
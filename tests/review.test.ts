@@ -0,0 +1,110 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FrontendComponentType, ProjectType } from "../bin/types/enums";
+import { readConfig } from "../bin/utils/configLogger";
+import { createUnifiedDiff } from "../bin/utils/diff";
+import { readHistory } from "../bin/utils/history";
+import { createFile } from "../src/action";
+import { PROJECT_NAME, answerPrompts, listFiles, setupWorkspace } from "./helpers";
+
+describe("createUnifiedDiff", () => {
+  it("prints changed lines with three lines of context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n") + "\n";
+    const after = before.replace("e\n", "E\n").replace("j\n", "j\nk\n");
+
+    expect(createUnifiedDiff(before, after, "src/x.ts")).toBe(
+      ["--- a/src/x.ts", "+++ b/src/x.ts", "@@ -2,9 +2,10 @@", " b", " c", " d", "-e", "+E", " f", " g", " h", " i", " j", "+k", ""].join(
+        "\n"
+      )
+    );
+  });
+
+  it("diffs new files against /dev/null and skips identical ones", () => {
+    expect(createUnifiedDiff(null, "one\ntwo\n", "new.ts")).toBe(
+      ["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,2 @@", "+one", "+two", ""].join("\n")
+    );
+    expect(createUnifiedDiff("same\n", "same\n", "same.ts")).toBe("");
+  });
+});
+
+describe("reviewing generated files", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function setup(): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    return workspace.root;
+  }
+
+  it("writes nothing when every AI file is rejected", async () => {
+    const root = await setup();
+    answerPrompts({
+      useAI: true,
+      description: "A primary call-to-action button with a loading state",
+      reviewAction: "reject",
+    });
+
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+    });
+
+    expect(await fs.pathExists(path.join(root, PROJECT_NAME))).toBe(false);
+    expect((await readConfig()).frontend!.components).toEqual({});
+    expect((await readHistory()).applied).toEqual([]);
+  });
+
+  it("prints the diff against hand edits on a dry run and writes nothing", async () => {
+    const root = await setup();
+    answerPrompts({ useAI: false });
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+    });
+    const buttonFile = path.join(root, PROJECT_NAME, "src/components/Button/Button.tsx");
+    await fs.appendFile(buttonFile, "\n// tweaked\n");
+    const before = await listFiles(root);
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+      dryRun: true,
+    });
+
+    const output = log.mock.calls.map((call) => call.join(" ")).join("\n");
+    expect(output).toContain(`--- a/${PROJECT_NAME}/src/components/Button/Button.tsx`);
+    expect(output).toContain("\n-// tweaked\n");
+    expect(output).toContain(`${PROJECT_NAME}/src/components/Button/Button.css: unchanged`);
+    expect(await fs.readFile(buttonFile, "utf-8")).toMatch(/\/\/ tweaked\n$/);
+    expect(await listFiles(root)).toEqual(before);
+    expect((await readHistory()).applied).toHaveLength(1);
+  });
+
+  it("leaves a config from an older skaya as it was on a dry run", async () => {
+    const root = await setup();
+    const configPath = path.join(root, "skaya.config.json");
+    const config = await fs.readFile(configPath, "utf-8");
+    answerPrompts({ useAI: false });
+
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Badge",
+      dryRun: true,
+    });
+
+    expect(await fs.readFile(configPath, "utf-8")).toBe(config);
+    expect(await listFiles(root)).toEqual(["skaya.config.json"]);
+  });
+});
@@ -0,0 +1,82 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { FrontendComponentType, ProjectType } from "../bin/types/enums";
+import { readConfig, writeConfig } from "../bin/utils/configLogger";
+import { createFile, syncComponents } from "../src/action";
+import { PROJECT_NAME, answerPrompts, setupWorkspace } from "./helpers";
+
+describe("config sync", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  it("stores created components with project-relative paths", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({ useAI: false });
+
+    await createFile({
+      projectType: ProjectType.FRONTEND,
+      componentType: FrontendComponentType.COMPONENT,
+      fileName: "Button",
+    });
+
+    const components = (await readConfig()).frontend!.components!;
+    expect(components.Button.files).toContain(`${PROJECT_NAME}/src/components/Button/Button.tsx`);
+    await expect(syncComponents({ check: true })).resolves.toBeUndefined();
+  });
+
+  it("adds untracked components, marks missing ones and rebuilds imports", async () => {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    answerPrompts({ useAI: false });
+
+    const projectType = ProjectType.FRONTEND;
+    const srcDir = path.join(workspace.root, PROJECT_NAME, "src");
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Button" });
+    await createFile({ projectType, componentType: FrontendComponentType.COMPONENT, fileName: "Legacy" });
+    await createFile({ projectType, componentType: FrontendComponentType.PAGE, fileName: "Landing" });
+
+    // Drift: a hand-written component, a deleted one, an unrecorded import
+    // and absolute paths from another machine
+    await fs.outputFile(path.join(srcDir, "components/Card/Card.tsx"), "export const Card = () => null;\n");
+    await fs.remove(path.join(srcDir, "components/Legacy"));
+    await fs.writeFile(
+      path.join(srcDir, "pages/LandingPage/Landing.tsx"),
+      [
+        "import Button from '@/components/Button/Button';",
+        "import { Card } from '../../components/Card/Card';",
+        "",
+        "export const Landing = () => <Card><Button>Sign up</Button></Card>;",
+        "",
+      ].join("\n")
+    );
+    const drifted = await readConfig();
+    drifted.frontend!.components!.Button.files = drifted.frontend!.components!.Button.files.map((file) =>
+      path.join(workspace.root, file)
+    );
+    await writeConfig(drifted);
+
+    await expect(syncComponents({ check: true })).rejects.toThrow("skaya.config.json is out of sync (6 change(s))");
+    expect(await readConfig()).toEqual(drifted);
+
+    await syncComponents();
+
+    const components = (await readConfig()).frontend!.components!;
+    expect(components.Card).toMatchObject({
+      source: "manual",
+      componentType: FrontendComponentType.COMPONENT,
+      files: [`${PROJECT_NAME}/src/components/Card/Card.tsx`],
+      usedBy: ["Landing"],
+    });
+    expect(components.Legacy.missing).toBe(true);
+    expect(components.Button.files).toContain(`${PROJECT_NAME}/src/components/Button/Button.tsx`);
+    expect(components.Button.usedBy).toEqual(["Landing"]);
+    expect(components.Landing.imports!.map((imp) => imp.name)).toEqual(["Button", "Card"]);
+    await expect(syncComponents({ check: true })).resolves.toBeUndefined();
+  });
+});
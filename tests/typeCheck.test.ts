@@ -0,0 +1,66 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { checkTypeScriptFiles } from "../bin/utils/typeCheck";
+import { PROJECT_NAME, setupWorkspace } from "./helpers";
+
+describe("checkTypeScriptFiles", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  async function setup(): Promise<string> {
+    const workspace = await setupWorkspace();
+    cleanup = workspace.cleanup;
+    return path.join(workspace.root, PROJECT_NAME, "src/components");
+  }
+
+  it("checks unsaved files against each other and the project on disk", async () => {
+    const componentsDir = await setup();
+    await fs.outputFile(
+      path.join(componentsDir, "Badge/Badge.tsx"),
+      "export const Badge = ({ label }: { label: string }) => <span>{label}</span>;\n"
+    );
+
+    const diagnostics = checkTypeScriptFiles([
+      {
+        path: path.join(componentsDir, "Card/Card.tsx"),
+        content: [
+          'import React from "react";',
+          'import { Badge } from "../Badge/Badge";',
+          'import { Icon } from "../Icon/Icon";',
+          "export const Card = ({ title }: { title: string }) => <Badge lable={title} />;",
+          "",
+        ].join("\n"),
+      },
+      {
+        path: path.join(componentsDir, "Card/Card.test.tsx"),
+        content: 'import { Card } from "./Card";\ndescribe("Card", () => it("renders", () => Card({ title: 1 })));\n',
+      },
+    ]);
+
+    expect(diagnostics.map(({ file, line, code }) => ({ file, line, code }))).toEqual([
+      { file: `${PROJECT_NAME}/src/components/Card/Card.tsx`, line: 3, code: 2307 },
+      { file: `${PROJECT_NAME}/src/components/Card/Card.tsx`, line: 4, code: 2322 },
+      { file: `${PROJECT_NAME}/src/components/Card/Card.test.tsx`, line: 2, code: 2322 },
+    ]);
+    expect(diagnostics[1].message).toContain("Property 'lable' does not exist");
+  });
+
+  it("uses the project's tsconfig and skips files that are not TypeScript", async () => {
+    const componentsDir = await setup();
+    await fs.outputJson(path.join(componentsDir, "../../tsconfig.json"), {
+      compilerOptions: { strict: true, jsx: "react-jsx" },
+    });
+
+    const diagnostics = checkTypeScriptFiles([
+      { path: path.join(componentsDir, "Card/Card.tsx"), content: "export const double = (value) => value * 2;\n" },
+      { path: path.join(componentsDir, "Card/Card.css"), content: "not { typescript" },
+    ]);
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual([7006]);
+  });
+});
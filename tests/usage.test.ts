@@ -0,0 +1,106 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AIProviderType, FrontendComponentType, ProjectType, UsageGrouping } from "../bin/types/enums";
+import { AIProvider } from "../src/ai/providers";
+import { TrackedProvider } from "../src/ai/providers/TrackedProvider";
+import { AI_CACHE_DIR, clearResponseCache } from "../src/ai/responseCache";
+import { AIUsageEntry, formatUsageReport, readAIUsage, summarizeUsage, withAIUsageScope } from "../src/ai/usage";
+import { setupWorkspace } from "./helpers";
+
+describe("AI usage and response cache", () => {
+  let cleanup: () => Promise<void>;
+  let calls: number;
+  const upstream: AIProvider = {
+    name: AIProviderType.OPENAI,
+    model: "gpt-4o-mini",
+    generate: async () => ({ text: `answer ${++calls}`, usage: { inputTokens: 1_000, outputTokens: 500 } }),
+  };
+
+  beforeEach(async () => {
+    ({ cleanup } = await setupWorkspace());
+    calls = 0;
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("answers repeated prompts from the cache and logs every call", async () => {
+    const provider = new TrackedProvider(upstream);
+    const scope = { projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.COMPONENT, component: "Button" };
+
+    await withAIUsageScope(scope, async () => {
+      expect((await provider.generate("system", "user")).text).toBe("answer 1");
+      expect((await provider.generate("system", "user")).text).toBe("answer 1");
+    });
+    expect((await new TrackedProvider(upstream, false).generate("system", "user")).text).toBe("answer 2");
+    expect(calls).toBe(2);
+
+    const usage = await readAIUsage();
+    expect(usage).toMatchObject([
+      { ...scope, provider: "openai", model: "gpt-4o-mini", inputTokens: 1_000, outputTokens: 500, cached: false, cost: 0.00045 },
+      { ...scope, inputTokens: 0, outputTokens: 0, cached: true, cost: 0 },
+      { inputTokens: 1_000, outputTokens: 500, cached: false },
+    ]);
+    expect(usage[2].component).toBeUndefined();
+
+    expect(await clearResponseCache()).toBe(1);
+    expect(await fs.pathExists(AI_CACHE_DIR)).toBe(false);
+    await provider.generate("system", "user");
+    expect(calls).toBe(3);
+  });
+
+  it("estimates tokens the provider does not report", async () => {
+    const provider = new TrackedProvider({ ...upstream, generate: async () => ({ text: "x".repeat(40) }) }, false);
+
+    await expect(provider.generate("s".repeat(10), "u".repeat(10))).resolves.toEqual({
+      text: "x".repeat(40),
+      usage: { inputTokens: 6, outputTokens: 10 },
+    });
+    expect(await readAIUsage()).toMatchObject([{ estimatedTokens: true }]);
+  });
+
+  it("sums tokens and cost by day, component and model", async () => {
+    const entry = (timestamp: string, component: string | undefined, model: string, cost: number | null): AIUsageEntry => ({
+      timestamp,
+      event: "ai-usage",
+      provider: AIProviderType.GEMINI,
+      model,
+      ...(component && { projectType: ProjectType.FRONTEND, componentType: FrontendComponentType.COMPONENT, component }),
+      inputTokens: 100,
+      outputTokens: 50,
+      cached: false,
+      cost,
+    });
+    const entries = [
+      entry("2026-10-18T10:00:00.000Z", "Button", "gemini-2.0-flash", 0.5),
+      entry("2026-10-19T09:00:00.000Z", "Card", "gemini-2.0-flash", 0.25),
+      entry("2026-10-19T11:00:00.000Z", "Button", "gemini-exp", null),
+    ];
+    // Other log entries and broken lines are skipped
+    await fs.writeFile(
+      path.join(process.cwd(), "Skayalogs.log"),
+      [{ componentType: "component", fileName: "Button" }, ...entries].map((line) => JSON.stringify(line)).join("\n") + "\n{broken\n"
+    );
+    expect(await readAIUsage()).toEqual(entries);
+
+    expect(summarizeUsage(entries, UsageGrouping.DAY).map(({ key, calls, cost }) => [key, calls, cost])).toEqual([
+      ["2026-10-18", 1, 0.5],
+      ["2026-10-19", 2, 0.25],
+    ]);
+    expect(summarizeUsage(entries, UsageGrouping.COMPONENT)).toMatchObject([
+      { key: "frontend component Button", calls: 2, inputTokens: 200, outputTokens: 100, cost: 0.5, unpriced: 1 },
+      { key: "frontend component Card", calls: 1, inputTokens: 100, outputTokens: 50, cost: 0.25, unpriced: 0 },
+    ]);
+    expect(summarizeUsage(entries, UsageGrouping.MODEL).map(({ key }) => key)).toEqual([
+      "gemini gemini-2.0-flash",
+      "gemini gemini-exp",
+    ]);
+
+    const report = formatUsageReport(entries, [UsageGrouping.MODEL]);
+    expect(report).toContain("gemini gemini-exp");
+    expect(report).toMatch(/total\s+3\s+0\s+300\s+150\s+\$0\.7500\*/);
+    expect(report).toContain("* 1 call(s) to models without a known price are not included in the cost.");
+  });
+});
@@ -0,0 +1,60 @@
+import fs from "fs-extra";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { BackendComponentType, ProjectType } from "../bin/types/enums";
+import { readConfig } from "../bin/utils/configLogger";
+import { createFile, updateFile } from "../src/action";
+import { PROJECT_NAME, answerPrompts, setupWorkspace } from "./helpers";
+
+describe("verifying generated tests", () => {
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = undefined;
+  });
+
+  /**
+   * A backend project that runs vitest from this repository's node_modules
+   */
+  async function setup(devDependencies: Record<string, string>): Promise<string> {
+    const workspace = await setupWorkspace("backend");
+    cleanup = workspace.cleanup;
+    const projectDir = path.join(workspace.root, PROJECT_NAME);
+    await fs.outputJson(path.join(projectDir, "package.json"), { name: PROJECT_NAME, devDependencies });
+    await fs.symlink(path.join(__dirname, "..", "node_modules"), path.join(projectDir, "node_modules"), "dir");
+    return projectDir;
+  }
+
+  it("records whether the generated tests pass", { timeout: 120_000 }, async () => {
+    const projectDir = await setup({ vitest: "*" });
+    const params = { projectType: ProjectType.BACKEND, componentType: BackendComponentType.SCRIPT, fileName: "Seed" };
+
+    answerPrompts({ useAI: false });
+    await createFile({ ...params, verify: true });
+    expect((await readConfig()).backend!.components!.Seed.verification).toMatchObject({ passed: true, runner: "vitest" });
+
+    const scriptFile = path.join(projectDir, "src/scripts/Seed/Seed.ts");
+    await fs.writeFile(
+      scriptFile,
+      (await fs.readFile(scriptFile, "utf-8")).replace("console.log('Running Seed');", "throw new Error('broken');")
+    );
+    await updateFile({ ...params, verify: true });
+    expect((await readConfig()).backend!.components!.Seed.verification).toMatchObject({ passed: false, runner: "vitest" });
+  });
+
+  it("refuses to generate when the project has no test runner", async () => {
+    const projectDir = await setup({ mocha: "*" });
+    answerPrompts({ useAI: false });
+
+    await expect(
+      createFile({
+        projectType: ProjectType.BACKEND,
+        componentType: BackendComponentType.SCRIPT,
+        fileName: "Seed",
+        verify: true,
+      })
+    ).rejects.toThrow(`--verify needs vitest or jest in ${PROJECT_NAME}/package.json.`);
+    expect(await fs.pathExists(path.join(projectDir, "src"))).toBe(false);
+  });
+});
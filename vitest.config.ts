@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // bin/templates holds *.test.tsx templates that must not be run
+    include: ["tests/**/*.test.ts"],
+    // The generators resolve paths from process.cwd(), which worker threads cannot change
+    pool: "forks",
+  },
+});